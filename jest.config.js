@@ -0,0 +1,24 @@
+module.exports = {
+  testEnvironment: 'jsdom',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        // Tests live outside src and run as CommonJS under Node
+        tsconfig: {
+          module: 'commonjs',
+          rootDir: '.'
+        }
+      }
+    ]
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+    '^@editor/(.*)$': '<rootDir>/src/editor/$1',
+    '^@plugins/(.*)$': '<rootDir>/src/plugins/$1',
+    '^@api/(.*)$': '<rootDir>/src/api/$1',
+    '^@utils/(.*)$': '<rootDir>/src/utils/$1'
+  }
+};
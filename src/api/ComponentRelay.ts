@@ -1,78 +1,317 @@
 /**
  * ComponentRelay - Standard Notes API integration
+ *
+ * Speaks the Standard Notes component protocol: the host registers the
+ * editor with a session key, streams the note being edited and answers
+ * requests by replying with the request's messageId. Outside Standard
+ * Notes the editor runs standalone and stores its data in localStorage.
  */
 
-import type { EditorData, NoteItem, StandardNotesAPI } from '../editor/types';
+import { loadEditorData } from '../editor/migrations';
+import { readNoteContent, writeNoteContent } from '../editor/notePayload';
+import type { NotePreview } from '../editor/notePayload';
+import { withTimeout } from '../utils/timeout';
+import type {
+  ComponentAction,
+  ComponentRelayMessage,
+  ComponentTransport,
+  EditorData,
+  NoteItem,
+  NoteLoadResult
+} from '../editor/types';
+
+/** How long to wait for the host to register the editor and send a note */
+export const REGISTRATION_TIMEOUT_MS = 2000;
+
+/** How long a save may wait for the host's reply */
+export const SAVE_TIMEOUT_MS = 10000;
+
+/** Recently open notes whose latest item is kept for saves still queued */
+const MAX_KNOWN_NOTES = 10;
+
+/**
+ * Details the host sends with component-registered
+ */
+export interface HostInfo {
+  uuid?: string;
+  environment?: string;
+  platform?: string;
+  activeThemeUrls?: string[];
+  /** Not part of the Standard Notes protocol; read when a host sends it */
+  locale?: string;
+}
+
+/**
+ * postMessage with the parent window. Returns null when the editor is not
+ * framed, as there is no host to talk to.
+ */
+export function createWindowTransport(): ComponentTransport | null {
+  if (typeof window === 'undefined' || window.parent === window) return null;
+
+  return {
+    send: (message, targetOrigin) => window.parent.postMessage(message, targetOrigin),
+    listen: (handler) => {
+      const listener = (event: MessageEvent) => {
+        if (event.source !== window.parent) return;
+        handler(event.data, event.origin);
+      };
+      window.addEventListener('message', listener);
+      return () => window.removeEventListener('message', listener);
+    }
+  };
+}
 
 export class ComponentRelay {
-  private componentManager: StandardNotesAPI | null = null;
+  private transport: ComponentTransport | null;
+  private stopListening: (() => void) | null = null;
+  private sessionKey: string | null = null;
+  private hostOrigin: string | null = null;
+  private hostInfo: HostInfo | null = null;
+  private componentData: Record<string, any> = {};
+  private themeUrls: string[] = [];
+  /** Messages sent before registration, delivered once it arrives */
+  private outbox: ComponentRelayMessage[] = [];
+  private replyHandlers: Map<string, (data: any) => void> = new Map();
+  private firstNote: { promise: Promise<void>; resolve: () => void };
   private currentNote: NoteItem | null = null;
-  private noteLoadCallback: ((data: EditorData) => void) | null = null;
+  /** Latest item of each recently open note, by uuid */
+  private knownNotes: Map<string, NoteItem> = new Map();
+  private noteLoadCallback: ((result: NoteLoadResult | null, noteId: string) => void) | null = null;
+  private themesCallback: ((themeUrls: string[]) => void) | null = null;
 
-  constructor() {}
+  constructor(transport: ComponentTransport | null = createWindowTransport()) {
+    this.transport = transport;
+
+    let resolve = () => {};
+    const promise = new Promise<void>((done) => {
+      resolve = done;
+    });
+    this.firstNote = { promise, resolve };
+  }
 
   /**
-   * Initialize connection to Standard Notes
+   * Initialize connection to Standard Notes. Resolves once the host has
+   * sent the first note, or after a timeout if it does not register us.
    */
   public async initialize(): Promise<void> {
-    // In a real Standard Notes extension, this would initialize the ComponentRelay
-    // For development/testing, we'll use localStorage
+    if (!this.transport) {
+      console.warn('Not running inside Standard Notes - running in standalone mode');
+      return;
+    }
 
-    if (typeof window !== 'undefined' && (window as any).componentRelay) {
-      this.componentManager = (window as any).componentRelay;
+    this.stopListening = this.transport.listen((message, origin) => this.handleMessage(message, origin));
 
-      // Listen for note stream
-      this.componentManager?.streamContextItem((item: NoteItem) => {
-        this.currentNote = item;
-        this.handleNoteLoad(item);
-      });
+    // Replies keep coming for as long as the editor shows a note
+    this.sendMessage('stream-context-item', {}, (data) => {
+      if (data?.item) {
+        this.handleNoteLoad(data.item as NoteItem);
+      }
+    });
+
+    try {
+      await withTimeout(this.firstNote.promise, REGISTRATION_TIMEOUT_MS, 'Registration timed out');
+    } catch (error) {
+      if (!this.isConnected()) {
+        console.warn('Standard Notes did not register the editor - running in standalone mode');
+      }
+    }
+  }
+
+  /**
+   * Handle a message from the host
+   */
+  private handleMessage(raw: unknown, origin: string): void {
+    // Some hosts send messages as JSON strings
+    let message = raw as ComponentRelayMessage | null;
+    if (typeof raw === 'string') {
+      try {
+        message = JSON.parse(raw);
+      } catch (error) {
+        return;
+      }
+    }
+    if (!message || typeof message !== 'object' || typeof message.action !== 'string') return;
+
+    // Once registered, only the registering origin is trusted
+    if (this.hostOrigin !== null && origin !== this.hostOrigin) return;
+
+    switch (message.action) {
+      case 'component-registered':
+        this.handleRegistered(message, origin);
+        break;
+      case 'activate-themes':
+        this.setThemes(message.data?.themes);
+        break;
+      default: {
+        const messageId = message.original?.messageId;
+        const handler = messageId ? this.replyHandlers.get(messageId) : undefined;
+        handler?.(message.data);
+      }
+    }
+  }
+
+  /**
+   * Store the session and deliver anything sent while waiting for it
+   */
+  private handleRegistered(message: ComponentRelayMessage, origin: string): void {
+    if (typeof message.sessionKey !== 'string') return;
+
+    this.sessionKey = message.sessionKey;
+    this.hostOrigin = origin;
+    this.hostInfo = message.data ?? {};
+    if (message.componentData && typeof message.componentData === 'object') {
+      this.componentData = message.componentData;
+    }
+
+    const queued = this.outbox;
+    this.outbox = [];
+    queued.forEach((pending) => this.post(pending));
+
+    this.setThemes(this.hostInfo?.activeThemeUrls);
+    this.sendMessage('themes-activated', {});
+  }
+
+  /**
+   * Send a message to the host, queueing it until registration. A reply
+   * handler stays subscribed until `removeReplyHandler` is called.
+   */
+  private sendMessage(
+    action: ComponentAction,
+    data: Record<string, any>,
+    onReply?: (data: any) => void
+  ): string {
+    const message: ComponentRelayMessage = {
+      action,
+      data,
+      messageId: createMessageId(),
+      api: 'component'
+    };
+    if (onReply) {
+      this.replyHandlers.set(message.messageId!, onReply);
+    }
+
+    if (this.sessionKey === null) {
+      this.outbox.push(message);
     } else {
-      console.warn('ComponentRelay not available - running in standalone mode');
+      this.post(message);
     }
+    return message.messageId!;
+  }
+
+  private post(message: ComponentRelayMessage): void {
+    this.transport?.send({ ...message, sessionKey: this.sessionKey! }, this.hostOrigin!);
+  }
+
+  private removeReplyHandler(messageId: string): void {
+    this.replyHandlers.delete(messageId);
+  }
+
+  private setThemes(themeUrls: unknown): void {
+    if (!Array.isArray(themeUrls)) return;
+
+    this.themeUrls = themeUrls.filter((url): url is string => typeof url === 'string');
+    this.themesCallback?.(this.themeUrls);
   }
 
   /**
    * Handle note load from Standard Notes
    */
   private handleNoteLoad(item: NoteItem): void {
-    if (!item.content) return;
+    this.currentNote = item;
+    this.rememberNote(item);
+    this.firstNote.resolve();
 
-    try {
-      // Parse editor data from note content
-      const editorData: EditorData = typeof item.content === 'string'
-        ? JSON.parse(item.content)
-        : item.content;
+    // Parse, migrate and validate editor data; a note without content
+    // is empty, like one with no text
+    const result = item.content ? readNoteContent(item.content) : null;
+    if (result?.status === 'quarantined') {
+      console.error('Note content quarantined:', result.quarantine.reason);
+    }
 
-      if (this.noteLoadCallback) {
-        this.noteLoadCallback(editorData);
-      }
-    } catch (error) {
-      console.error('Error parsing note content:', error);
+    if (this.noteLoadCallback) {
+      this.noteLoadCallback(result, item.uuid);
     }
   }
 
   /**
-   * Register callback for note load
+   * Keep the item so a save captured before the user moved on to another
+   * note can still be written to it, with its own title and other keys
    */
-  public onNoteLoad(callback: (data: EditorData) => void): void {
+  private rememberNote(item: NoteItem): void {
+    this.knownNotes.delete(item.uuid);
+    this.knownNotes.set(item.uuid, item);
+    if (this.knownNotes.size > MAX_KNOWN_NOTES) {
+      this.knownNotes.delete(this.knownNotes.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Register callback for note load, with the uuid of the note that was
+   * loaded; the result is null for an empty note
+   */
+  public onNoteLoad(callback: (result: NoteLoadResult | null, noteId: string) => void): void {
     this.noteLoadCallback = callback;
   }
 
   /**
-   * Load note data
+   * Register callback for the host's active theme stylesheets. It is
+   * called straight away with the themes active at registration.
    */
-  public async loadNote(): Promise<EditorData | null> {
-    if (this.componentManager && this.currentNote) {
-      try {
-        const editorData: EditorData = typeof this.currentNote.content === 'string'
-          ? JSON.parse(this.currentNote.content as string)
-          : this.currentNote.content as any;
+  public onThemesChange(callback: (themeUrls: string[]) => void): void {
+    this.themesCallback = callback;
+    if (this.themeUrls.length > 0) {
+      callback(this.themeUrls);
+    }
+  }
 
-        return editorData;
-      } catch (error) {
-        console.error('Error loading note:', error);
-        return null;
-      }
+  /**
+   * Whether the editor is running inside Standard Notes
+   */
+  public isConnected(): boolean {
+    return this.sessionKey !== null;
+  }
+
+  /**
+   * Per-user data stored with the component in Standard Notes
+   */
+  public getComponentData(): Record<string, any> | null {
+    return this.isConnected() ? { ...this.componentData } : null;
+  }
+
+  public setComponentData(data: Record<string, any>): void {
+    if (!this.isConnected()) return;
+
+    this.componentData = { ...this.componentData, ...data };
+    this.sendMessage('set-component-data', { componentData: this.componentData });
+  }
+
+  public clearComponentData(): void {
+    if (!this.isConnected()) return;
+
+    this.componentData = {};
+    this.sendMessage('set-component-data', { componentData: {} });
+  }
+
+  /**
+   * The host application's UI language, if it reports one
+   */
+  public getLocale(): string | undefined {
+    return this.hostInfo?.locale;
+  }
+
+  /**
+   * Ask the host to resize the editor's frame, e.g. '100%' or 480
+   */
+  public setSize(width: string | number, height: string | number): void {
+    this.sendMessage('set-size', { type: 'container', width, height });
+  }
+
+  /**
+   * Load note data
+   */
+  public async loadNote(): Promise<NoteLoadResult | null> {
+    if (this.isConnected()) {
+      return this.currentNote?.content ? readNoteContent(this.currentNote.content) : null;
     }
 
     // Fallback to localStorage for development
@@ -80,35 +319,71 @@ export class ComponentRelay {
   }
 
   /**
-   * Save note data to Standard Notes
+   * Get the uuid of the note being edited ('standalone' outside Standard Notes)
    */
-  public async saveNote(data: EditorData): Promise<void> {
-    if (this.componentManager && this.currentNote) {
-      try {
-        const updatedNote: NoteItem = {
-          ...this.currentNote,
-          content: data as any,
-          updated_at: new Date().toISOString()
-        };
+  public getCurrentNoteId(): string {
+    return this.currentNote?.uuid ?? 'standalone';
+  }
 
-        await this.componentManager.saveItem(updatedNote);
-      } catch (error) {
-        console.error('Error saving note:', error);
-        throw error;
-      }
-    } else {
+  /**
+   * Whether the note is locked against editing in Standard Notes
+   */
+  public isNoteLocked(): boolean {
+    const appData = this.currentNote?.content?.appData?.['org.standardnotes.sn'];
+    return !!(appData?.locked || this.currentNote?.content?.locked);
+  }
+
+  /**
+   * Save note data to Standard Notes with the preview shown in the note
+   * list, resolving once the host confirms. The note is the one the data
+   * was captured from, which need not be the one open now.
+   */
+  public async saveNote(noteId: string, data: EditorData, preview: NotePreview): Promise<void> {
+    if (!this.isConnected()) {
       // Fallback to localStorage for development
       this.saveToLocalStorage(data);
+      return;
+    }
+
+    const note = this.knownNotes.get(noteId);
+    if (!note) {
+      throw new Error(`Note ${noteId} is no longer open to save to`);
+    }
+
+    const item = {
+      uuid: note.uuid,
+      content_type: note.content_type,
+      content: writeNoteContent(note.content ?? {}, data, preview)
+    };
+
+    let messageId = '';
+    const reply = new Promise<void>((resolve, reject) => {
+      messageId = this.sendMessage('save-items', { items: [item] }, (response) => {
+        this.removeReplyHandler(messageId);
+        if (response?.error) {
+          reject(new Error(response.error.message || String(response.error)));
+        } else {
+          resolve();
+        }
+      });
+    });
+
+    try {
+      await withTimeout(reply, SAVE_TIMEOUT_MS, 'Standard Notes did not confirm the save');
+    } catch (error) {
+      this.removeReplyHandler(messageId);
+      console.error('Error saving note:', error);
+      throw error;
     }
   }
 
   /**
    * Load from localStorage (development fallback)
    */
-  private loadFromLocalStorage(): EditorData | null {
+  private loadFromLocalStorage(): NoteLoadResult | null {
     try {
       const saved = localStorage.getItem('enhanced-editor-data');
-      return saved ? JSON.parse(saved) : null;
+      return saved ? loadEditorData(saved) : null;
     } catch (error) {
       console.error('Error loading from localStorage:', error);
       return null;
@@ -130,8 +405,18 @@ export class ComponentRelay {
    * Destroy and cleanup
    */
   public destroy(): void {
-    this.componentManager = null;
+    this.stopListening?.();
+    this.stopListening = null;
+    this.replyHandlers.clear();
+    this.outbox = [];
+    this.sessionKey = null;
     this.currentNote = null;
+    this.knownNotes.clear();
     this.noteLoadCallback = null;
+    this.themesCallback = null;
   }
-}
\ No newline at end of file
+}
+
+function createMessageId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,181 @@
+/**
+ * FakeStandardNotesHost - A scriptable stand-in for Standard Notes
+ *
+ * Provides a ComponentTransport that answers the component protocol the
+ * way the Standard Notes app does, so the relay and editor can run in
+ * jsdom. Tests drive it explicitly: register the editor, push notes and
+ * theme changes, and decide how saves are answered.
+ *
+ *   const host = new FakeStandardNotesHost();
+ *   const editor = new EditorCore(container, { transport: host.transport });
+ *   const ready = editor.initialize();
+ *   host.register();
+ *   host.pushNote(note);
+ *   await ready;
+ */
+
+import type {
+  ComponentRelayMessage,
+  ComponentTransport,
+  NoteItem
+} from '../editor/types';
+import type { HostInfo } from './ComponentRelay';
+
+export const FAKE_HOST_ORIGIN = 'https://app.standardnotes.test';
+
+/**
+ * Decides the reply to a save; throw or reject to answer with an error
+ */
+export type SaveHandler = (items: Array<Pick<NoteItem, 'uuid' | 'content_type' | 'content'>>) => void | Promise<void>;
+
+export interface RegisterOptions extends HostInfo {
+  sessionKey?: string;
+  componentData?: Record<string, any>;
+}
+
+export class FakeStandardNotesHost {
+  public readonly transport: ComponentTransport;
+  /** Every message the editor has sent, in order */
+  public readonly received: ComponentRelayMessage[] = [];
+  /** Items from every confirmed save, in order */
+  public readonly savedItems: Array<Pick<NoteItem, 'uuid' | 'content_type' | 'content'>> = [];
+  public componentData: Record<string, any> = {};
+  public origin: string;
+
+  private handlers: Set<(message: unknown, origin: string) => void> = new Set();
+  private sessionKey: string | null = null;
+  private streamRequest: ComponentRelayMessage | null = null;
+  private saveHandler: SaveHandler = () => undefined;
+  private waiters: Array<{ action: string; resolve: (message: ComponentRelayMessage) => void }> = [];
+
+  constructor(origin: string = FAKE_HOST_ORIGIN) {
+    this.origin = origin;
+    this.transport = {
+      send: (message, targetOrigin) => this.receive(message, targetOrigin),
+      listen: (handler) => {
+        this.handlers.add(handler);
+        return () => this.handlers.delete(handler);
+      }
+    };
+  }
+
+  /**
+   * Register the editor, as Standard Notes does once the frame loads
+   */
+  public register(options: RegisterOptions = {}): void {
+    const { sessionKey = 'fake-session', componentData, ...data } = options;
+    this.sessionKey = sessionKey;
+    if (componentData) {
+      this.componentData = componentData;
+    }
+
+    this.deliver({
+      action: 'component-registered',
+      sessionKey,
+      componentData: this.componentData,
+      data: { uuid: 'fake-component', environment: 'web', platform: 'linux', ...data }
+    });
+  }
+
+  /**
+   * Stream a note to the editor, answering its stream-context-item request
+   */
+  public pushNote(item: NoteItem): void {
+    if (!this.streamRequest) {
+      throw new Error('The editor has not asked for the context item');
+    }
+    this.reply(this.streamRequest, { item });
+  }
+
+  /**
+   * Switch the active themes
+   */
+  public activateThemes(themeUrls: string[]): void {
+    this.deliver({ action: 'activate-themes', data: { themes: themeUrls } });
+  }
+
+  /**
+   * Choose how later saves are answered
+   */
+  public onSave(handler: SaveHandler): void {
+    this.saveHandler = handler;
+  }
+
+  /**
+   * Answer the next save with an error, then return to the current handler
+   */
+  public failNextSave(message: string = 'Sync failed'): void {
+    const handler = this.saveHandler;
+    this.saveHandler = () => {
+      this.saveHandler = handler;
+      throw new Error(message);
+    };
+  }
+
+  /**
+   * Resolve with the next message of the given action the editor sends
+   */
+  public waitFor(action: string): Promise<ComponentRelayMessage> {
+    return new Promise((resolve) => this.waiters.push({ action, resolve }));
+  }
+
+  /**
+   * Messages of one action the editor has sent
+   */
+  public messages(action: string): ComponentRelayMessage[] {
+    return this.received.filter((message) => message.action === action);
+  }
+
+  /**
+   * Send a raw message to the editor, e.g. to test malformed input
+   */
+  public deliver(message: ComponentRelayMessage | string, origin: string = this.origin): void {
+    // postMessage is asynchronous; keep that ordering for the editor
+    queueMicrotask(() => this.handlers.forEach((handler) => handler(message, origin)));
+  }
+
+  private reply(original: ComponentRelayMessage, data: Record<string, any>): void {
+    this.deliver({ action: 'reply', original, data });
+  }
+
+  /**
+   * Handle a message from the editor
+   */
+  private receive(message: ComponentRelayMessage, targetOrigin: string): void {
+    // Round-trip through JSON as postMessage would clone it
+    const copy: ComponentRelayMessage = JSON.parse(JSON.stringify(message));
+    if (targetOrigin !== this.origin || copy.sessionKey !== this.sessionKey) {
+      throw new Error(`Message "${copy.action}" was sent without the host's origin and session key`);
+    }
+
+    this.received.push(copy);
+    this.waiters = this.waiters.filter((waiter) => {
+      if (waiter.action !== copy.action) return true;
+      waiter.resolve(copy);
+      return false;
+    });
+
+    switch (copy.action) {
+      case 'stream-context-item':
+        this.streamRequest = copy;
+        break;
+      case 'set-component-data':
+        this.componentData = copy.data?.componentData ?? {};
+        break;
+      case 'save-items':
+        this.handleSave(copy);
+        break;
+    }
+  }
+
+  private async handleSave(message: ComponentRelayMessage): Promise<void> {
+    const items = message.data?.items ?? [];
+    try {
+      await this.saveHandler(items);
+      this.savedItems.push(...items);
+      this.reply(message, {});
+    } catch (error) {
+      this.reply(message, { error: { message: (error as Error).message } });
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * PreferencesStore - Per-user editor preferences kept in Standard Notes
+ * component data, or in localStorage when running standalone
+ */
+
+import { pluginRegistry } from '../editor/PluginRegistry';
+import type { ComponentRelay } from './ComponentRelay';
+import type { EditorPreferences } from '../editor/types';
+
+const STORAGE_KEY = 'enhanced-editor-preferences';
+const COMPONENT_DATA_KEY = 'preferences';
+/** Where keybindings were stored before they became a preference */
+const LEGACY_KEYBINDINGS_KEY = 'enhanced-editor-keybindings';
+
+export const DEFAULT_PREFERENCES: EditorPreferences = {
+  defaultMode: 'text',
+  autoSaveDelay: 500,
+  theme: 'auto',
+  mermaidRenderDelay: 300,
+  excalidrawHeight: 600,
+  keybindings: {},
+  htmlPreview: false
+};
+
+export class PreferencesStore {
+  private relay: ComponentRelay;
+  private defaults: EditorPreferences;
+  private preferences: EditorPreferences;
+  private changeCallback: ((preferences: EditorPreferences) => void) | null = null;
+
+  constructor(relay: ComponentRelay, defaults?: Partial<EditorPreferences>) {
+    this.relay = relay;
+    this.defaults = { ...DEFAULT_PREFERENCES, ...defaults };
+    this.preferences = { ...this.defaults };
+  }
+
+  /**
+   * Read stored preferences over the defaults
+   */
+  public load(): EditorPreferences {
+    const stored = this.relay.isConnected() ? this.readComponentData() : this.readLocalStorage();
+    this.preferences = this.sanitize({ ...this.defaults, ...stored });
+    return this.get();
+  }
+
+  public get(): EditorPreferences {
+    return { ...this.preferences, keybindings: { ...this.preferences.keybindings } };
+  }
+
+  /**
+   * Change some preferences, persist them and notify the listener
+   */
+  public update(changes: Partial<EditorPreferences>): void {
+    this.preferences = this.sanitize({ ...this.preferences, ...changes });
+    this.persist();
+    this.changeCallback?.(this.get());
+  }
+
+  /**
+   * Forget stored preferences and return to the defaults
+   */
+  public reset(): void {
+    this.preferences = { ...this.defaults };
+
+    if (this.relay.isConnected()) {
+      this.relay.clearComponentData();
+    } else {
+      try {
+        localStorage.removeItem(STORAGE_KEY);
+      } catch (error) {
+        console.error('Error clearing preferences:', error);
+      }
+    }
+    this.changeCallback?.(this.get());
+  }
+
+  public onChange(callback: (preferences: EditorPreferences) => void): void {
+    this.changeCallback = callback;
+  }
+
+  private readComponentData(): Partial<EditorPreferences> {
+    const data = this.relay.getComponentData();
+    const preferences = data?.[COMPONENT_DATA_KEY];
+    return preferences && typeof preferences === 'object' ? preferences : {};
+  }
+
+  private readLocalStorage(): Partial<EditorPreferences> {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) return JSON.parse(saved);
+
+      // Carry over keybindings remapped before preferences existed
+      const keybindings = localStorage.getItem(LEGACY_KEYBINDINGS_KEY);
+      return keybindings ? { keybindings: JSON.parse(keybindings) } : {};
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+      return {};
+    }
+  }
+
+  private persist(): void {
+    if (this.relay.isConnected()) {
+      this.relay.setComponentData({
+        ...this.relay.getComponentData(),
+        [COMPONENT_DATA_KEY]: this.preferences
+      });
+      return;
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.preferences));
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+    }
+  }
+
+  /**
+   * Clamp numbers and drop values of the wrong type, e.g. from an older
+   * or hand-edited payload
+   */
+  private sanitize(preferences: EditorPreferences): EditorPreferences {
+    const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+      typeof value === 'number' && Number.isFinite(value)
+        ? Math.min(Math.max(Math.round(value), min), max)
+        : fallback;
+
+    return {
+      defaultMode: pluginRegistry.has(preferences.defaultMode)
+        ? preferences.defaultMode
+        : this.defaults.defaultMode,
+      autoSaveDelay: clamp(preferences.autoSaveDelay, 100, 10000, this.defaults.autoSaveDelay),
+      theme: ['auto', 'light', 'dark'].includes(preferences.theme) ? preferences.theme : this.defaults.theme,
+      mermaidRenderDelay: clamp(preferences.mermaidRenderDelay, 0, 5000, this.defaults.mermaidRenderDelay),
+      excalidrawHeight: clamp(preferences.excalidrawHeight, 200, 4000, this.defaults.excalidrawHeight),
+      keybindings: preferences.keybindings && typeof preferences.keybindings === 'object'
+        ? { ...preferences.keybindings }
+        : {},
+      htmlPreview: typeof preferences.htmlPreview === 'boolean' ? preferences.htmlPreview : this.defaults.htmlPreview
+    };
+  }
+}
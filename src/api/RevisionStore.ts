@@ -0,0 +1,150 @@
+/**
+ * RevisionStore - Bounded per-note revision history kept in IndexedDB
+ */
+
+import type { EditorData, Revision } from '../editor/types';
+
+const DB_NAME = 'enhanced-editor';
+const DB_VERSION = 1;
+const STORE_NAME = 'revisions';
+
+export class RevisionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private memoryStore: Map<string, Revision[]> = new Map();
+  private maxRevisions: number;
+
+  constructor(maxRevisions: number = 50) {
+    this.maxRevisions = maxRevisions;
+  }
+
+  /**
+   * Store a revision for a note, skipping it if nothing changed since the
+   * latest one, and prune the oldest beyond the limit
+   */
+  public async addRevision(noteId: string, data: EditorData): Promise<Revision | null> {
+    const json = JSON.stringify(data);
+    const revisions = await this.listRevisions(noteId);
+    const latest = revisions[0];
+
+    if (latest && JSON.stringify(latest.data) === json) {
+      return null;
+    }
+
+    const revision: Revision = {
+      id: `${noteId}:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`,
+      noteId,
+      timestamp: Date.now(),
+      mode: data.mode,
+      size: new TextEncoder().encode(json).length,
+      data: JSON.parse(json)
+    };
+
+    const expired = revisions.slice(this.maxRevisions - 1);
+
+    const db = await this.openDatabase();
+    if (!db) {
+      const kept = [revision, ...revisions].slice(0, this.maxRevisions);
+      this.memoryStore.set(noteId, kept);
+      return revision;
+    }
+
+    await this.transaction(db, 'readwrite', (store) => {
+      store.put(revision);
+      expired.forEach((old) => store.delete(old.id));
+    });
+
+    return revision;
+  }
+
+  /**
+   * List a note's revisions, newest first
+   */
+  public async listRevisions(noteId: string): Promise<Revision[]> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return [...(this.memoryStore.get(noteId) || [])];
+    }
+
+    const revisions = await new Promise<Revision[]>((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .index('noteId')
+        .getAll(noteId);
+      request.onsuccess = () => resolve(request.result as Revision[]);
+      request.onerror = () => reject(request.error);
+    });
+
+    return revisions.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Remove every revision for a note
+   */
+  public async clearRevisions(noteId: string): Promise<void> {
+    const revisions = await this.listRevisions(noteId);
+    const db = await this.openDatabase();
+
+    if (!db) {
+      this.memoryStore.delete(noteId);
+      return;
+    }
+
+    await this.transaction(db, 'readwrite', (store) => {
+      revisions.forEach((revision) => store.delete(revision.id));
+    });
+  }
+
+  /**
+   * Open the database, falling back to memory when IndexedDB is unavailable
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('noteId', 'noteId', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    return this.dbPromise.catch((error) => {
+      console.error('Error opening revision database:', error);
+      return null;
+    });
+  }
+
+  /**
+   * Run operations in a single transaction and wait for it to complete
+   */
+  private transaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operations: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      operations(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Close the database connection
+   */
+  public async destroy(): Promise<void> {
+    const db = await this.openDatabase();
+    db?.close();
+    this.dbPromise = null;
+    this.memoryStore.clear();
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * SaveQueue - Coalescing save queue with retries and offline buffering
+ */
+
+import type { EditorData } from '../editor/types';
+
+const STORAGE_KEY = 'enhanced-editor-pending-saves';
+
+export type SaveQueueStatus = 'idle' | 'saving' | 'failed' | 'offline';
+
+export type SaveHandler = (noteId: string, data: EditorData) => Promise<void>;
+
+export interface SaveQueueOptions {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export interface PersistedSave {
+  noteId: string;
+  data: EditorData;
+  queuedAt: number;
+  /** The stored note the data was edited from, to detect later changes */
+  base?: EditorData;
+}
+
+interface PendingSave extends PersistedSave {
+  attempts: number;
+  waiters: Array<{ resolve: () => void; reject: (error: Error) => void }>;
+}
+
+export class SaveQueue {
+  private handler: SaveHandler;
+  private options: SaveQueueOptions;
+  private pending: Map<string, PendingSave> = new Map();
+  private inFlight: PendingSave | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private status: SaveQueueStatus = 'idle';
+  private lastError: Error | null = null;
+  private statusCallback: ((status: SaveQueueStatus) => void) | null = null;
+  private savedCallback: ((noteId: string, data: EditorData) => void) | null = null;
+  private destroyed = false;
+  private onlineHandler = () => this.retryNow();
+
+  constructor(handler: SaveHandler, options?: Partial<SaveQueueOptions>) {
+    this.handler = handler;
+    this.options = {
+      maxRetries: 5,
+      baseDelay: 1000,
+      maxDelay: 30000,
+      ...options
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onlineHandler);
+    }
+  }
+
+  /**
+   * Queue the latest state of a note. A newer payload for the same note
+   * replaces one that has not been sent yet. Resolves once this payload, or
+   * a newer one that replaced it, has been saved.
+   */
+  public enqueue(noteId: string, data: EditorData, base?: EditorData): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const previous = this.pending.get(noteId);
+      this.pending.set(noteId, {
+        noteId,
+        data,
+        base,
+        queuedAt: Date.now(),
+        attempts: 0,
+        waiters: [...(previous?.waiters || []), { resolve, reject }]
+      });
+
+      this.persist();
+      this.flush();
+    });
+  }
+
+  /**
+   * Send queued saves one at a time until the queue is empty
+   */
+  public async flush(): Promise<void> {
+    if (this.destroyed || this.inFlight || this.retryTimer) return;
+
+    const next = this.pending.values().next().value as PendingSave | undefined;
+    if (!next) {
+      this.setStatus('idle');
+      return;
+    }
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.setStatus('offline');
+      return;
+    }
+
+    this.pending.delete(next.noteId);
+    this.inFlight = next;
+    this.setStatus('saving');
+
+    try {
+      next.attempts++;
+      await this.handler(next.noteId, next.data);
+
+      // The next session learns the outcome from the stored note
+      if (this.destroyed) return;
+
+      this.inFlight = null;
+      this.lastError = null;
+      this.persist(next.noteId);
+      next.waiters.forEach((waiter) => waiter.resolve());
+      this.savedCallback?.(next.noteId, next.data);
+    } catch (error) {
+      if (this.destroyed) return;
+
+      this.inFlight = null;
+      this.lastError = error as Error;
+      this.handleFailure(next, error as Error);
+      return;
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Requeue a failed save and schedule a retry with exponential backoff
+   */
+  private handleFailure(save: PendingSave, error: Error): void {
+    const newer = this.pending.get(save.noteId);
+    if (newer) {
+      // A newer payload supersedes the failed one
+      newer.waiters.unshift(...save.waiters);
+    } else if (save.attempts > this.options.maxRetries) {
+      save.waiters.forEach((waiter) => waiter.reject(error));
+      save.waiters = [];
+      save.attempts = 0;
+      this.pending.set(save.noteId, save);
+      this.persist();
+      this.setStatus('failed');
+      return;
+    } else {
+      this.pending.set(save.noteId, save);
+    }
+
+    this.persist();
+    this.setStatus('failed');
+
+    const delay = Math.min(
+      this.options.baseDelay * 2 ** (save.attempts - 1),
+      this.options.maxDelay
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * Retry immediately, skipping any backoff delay
+   */
+  public retryNow(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.flush();
+  }
+
+  /**
+   * Whether a save is queued or in flight for a note
+   */
+  public hasPending(noteId?: string): boolean {
+    if (noteId === undefined) {
+      return this.pending.size > 0 || this.inFlight !== null;
+    }
+    return this.pending.has(noteId) || this.inFlight?.noteId === noteId;
+  }
+
+  public getStatus(): SaveQueueStatus {
+    return this.status;
+  }
+
+  public getLastError(): Error | null {
+    return this.lastError;
+  }
+
+  public onStatusChange(callback: (status: SaveQueueStatus) => void): void {
+    this.statusCallback = callback;
+  }
+
+  public onSaved(callback: (noteId: string, data: EditorData) => void): void {
+    this.savedCallback = callback;
+  }
+
+  /**
+   * Read saves that were never confirmed, e.g. before a reload
+   */
+  public static loadPersisted(): PersistedSave[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      const saves = saved ? JSON.parse(saved) : [];
+      return Array.isArray(saves) ? saves : [];
+    } catch (error) {
+      console.error('Error reading pending saves:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Drop a stored save that was never sent, e.g. once the user chose the
+   * note's stored version over it. Saves queued in this session are kept.
+   */
+  public forget(noteId: string): void {
+    if (this.hasPending(noteId)) return;
+    this.persist(noteId);
+  }
+
+  /**
+   * Mirror unsent saves to localStorage so they survive a reload. Saves
+   * other sessions left for notes this one has not touched are kept; a
+   * note's entry goes once its save is confirmed.
+   */
+  private persist(confirmedNoteId?: string): void {
+    const saves: PersistedSave[] = SaveQueue.loadPersisted().filter((save) =>
+      save.noteId !== confirmedNoteId && !this.hasPending(save.noteId)
+    );
+    if (this.inFlight) {
+      saves.push(this.toPersisted(this.inFlight));
+    }
+    this.pending.forEach((save) => {
+      saves.push(this.toPersisted(save));
+    });
+
+    try {
+      if (saves.length) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(saves));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error persisting pending saves:', error);
+    }
+  }
+
+  private toPersisted(save: PendingSave): PersistedSave {
+    return { noteId: save.noteId, data: save.data, queuedAt: save.queuedAt, base: save.base };
+  }
+
+  private setStatus(status: SaveQueueStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusCallback?.(status);
+  }
+
+  /**
+   * Stop sending and retrying. Unsent saves, and one still in flight, stay
+   * persisted for the next session.
+   */
+  public destroy(): void {
+    this.destroyed = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onlineHandler);
+    }
+    this.statusCallback = null;
+    this.savedCallback = null;
+  }
+}
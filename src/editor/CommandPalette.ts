@@ -0,0 +1,237 @@
+/**
+ * CommandPalette - Fuzzy-search overlay for running and remapping commands
+ */
+
+import { fuzzyScore } from '../utils/fuzzy';
+import { trapFocus } from '../utils/focus';
+import { formatKeybinding, keybindingFromEvent } from './CommandRegistry';
+import type { CommandRegistry } from './CommandRegistry';
+import type { EditorCommand, Translator } from './types';
+
+export class CommandPalette {
+  private host: HTMLElement;
+  private registry: CommandRegistry;
+  private element: HTMLElement | null = null;
+  private results: EditorCommand[] = [];
+  private selectedIndex: number = 0;
+  private recordingId: string | null = null;
+  private previousFocus: HTMLElement | null = null;
+  private translator: Translator;
+
+  constructor(host: HTMLElement, registry: CommandRegistry, translator: Translator) {
+    this.host = host;
+    this.registry = registry;
+    this.translator = translator;
+  }
+
+  /**
+   * Open the palette and focus the search input
+   */
+  public open(): void {
+    if (this.element) return;
+
+    this.previousFocus = document.activeElement as HTMLElement | null;
+
+    const t = (key: string) => this.translator.t(key);
+    const element = document.createElement('div');
+    element.className = 'command-palette-overlay';
+    element.innerHTML = `
+      <div class="command-palette" role="dialog" aria-modal="true" aria-label="${t('palette.label')}">
+        <input
+          class="command-palette-input"
+          type="text"
+          placeholder="${t('palette.placeholder')}"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-autocomplete="list"
+        />
+        <ul class="command-palette-list" id="command-palette-list" role="listbox"></ul>
+        <div class="command-palette-hint">${t('palette.hint')}</div>
+      </div>
+    `;
+
+    const input = element.querySelector('.command-palette-input') as HTMLInputElement;
+    input.addEventListener('input', () => this.filter(input.value));
+    input.addEventListener('keydown', (event) => this.handleInputKeydown(event));
+
+    element.addEventListener('keydown', (event) => trapFocus(event, element));
+
+    // Clicking the backdrop closes the palette
+    element.addEventListener('mousedown', (event) => {
+      if (event.target === element) this.close();
+    });
+
+    this.host.appendChild(element);
+    this.element = element;
+    this.filter('');
+    input.focus();
+  }
+
+  /**
+   * Close the palette and restore focus
+   */
+  public close(): void {
+    if (!this.element) return;
+
+    this.element.remove();
+    this.element = null;
+    this.recordingId = null;
+    this.previousFocus?.focus();
+    this.previousFocus = null;
+  }
+
+  public isOpen(): boolean {
+    return this.element !== null;
+  }
+
+  public toggle(): void {
+    if (this.isOpen()) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Re-render with the current query, e.g. after commands change
+   */
+  public refresh(): void {
+    const input = this.element?.querySelector('.command-palette-input') as HTMLInputElement | null;
+    if (input) this.filter(input.value);
+  }
+
+  /**
+   * Rank commands against the query
+   */
+  private filter(query: string): void {
+    this.results = this.registry
+      .getCommands()
+      .map((command) => ({
+        command,
+        score: fuzzyScore(query, `${command.category ? command.category + ': ' : ''}${command.title}`)
+      }))
+      .filter((result) => result.score !== null)
+      .sort((a, b) => (b.score as number) - (a.score as number))
+      .map((result) => result.command);
+
+    this.selectedIndex = 0;
+    this.renderResults();
+  }
+
+  /**
+   * Render the result list
+   */
+  private renderResults(): void {
+    const list = this.element?.querySelector('.command-palette-list');
+    if (!list) return;
+
+    list.innerHTML = '';
+    this.results.forEach((command, index) => {
+      const item = document.createElement('li');
+      item.className = 'command-palette-item';
+      item.id = `command-${index}`;
+      item.setAttribute('role', 'option');
+      item.setAttribute('aria-selected', String(index === this.selectedIndex));
+
+      const title = document.createElement('span');
+      title.className = 'command-palette-title';
+      title.textContent = command.category ? `${command.category}: ${command.title}` : command.title;
+
+      const keybinding = document.createElement('kbd');
+      keybinding.className = 'command-palette-keybinding';
+      const binding = this.registry.getKeybinding(command.id);
+      keybinding.textContent = this.recordingId === command.id
+        ? this.translator.t('palette.recording')
+        : binding ? formatKeybinding(binding) : '';
+
+      const editBtn = document.createElement('button');
+      editBtn.className = 'command-palette-edit';
+      editBtn.title = this.translator.t('palette.changeShortcut');
+      editBtn.setAttribute('aria-label', this.translator.t('palette.changeShortcutFor', { command: command.title }));
+      editBtn.textContent = '✎';
+      editBtn.addEventListener('mousedown', (event) => event.preventDefault());
+      editBtn.addEventListener('click', () => this.startRecording(command.id));
+
+      item.append(title, keybinding, editBtn);
+      item.addEventListener('click', (event) => {
+        if (event.target !== editBtn) this.run(command);
+      });
+      list.appendChild(item);
+    });
+
+    const input = this.element?.querySelector('.command-palette-input');
+    input?.setAttribute('aria-activedescendant', this.results.length ? `command-${this.selectedIndex}` : '');
+    list.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }
+
+  /**
+   * Keyboard navigation within the palette
+   */
+  private handleInputKeydown(event: KeyboardEvent): void {
+    if (this.recordingId) {
+      this.recordKeybinding(event);
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.selectedIndex = Math.min(this.selectedIndex + 1, this.results.length - 1);
+        this.renderResults();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.selectedIndex = Math.max(this.selectedIndex - 1, 0);
+        this.renderResults();
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (this.results[this.selectedIndex]) {
+          this.run(this.results[this.selectedIndex]);
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        break;
+    }
+  }
+
+  /**
+   * Wait for the next key combination to assign to a command
+   */
+  private startRecording(id: string): void {
+    this.recordingId = id;
+    this.renderResults();
+    (this.element?.querySelector('.command-palette-input') as HTMLInputElement)?.focus();
+  }
+
+  /**
+   * Assign the pressed combination. Escape cancels, Backspace clears.
+   */
+  private recordKeybinding(event: KeyboardEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const id = this.recordingId!;
+    if (event.key === 'Escape') {
+      this.recordingId = null;
+    } else if (event.key === 'Backspace') {
+      this.registry.setKeybinding(id, null);
+      this.recordingId = null;
+    } else {
+      const binding = keybindingFromEvent(event);
+      if (!binding) return;
+      this.registry.setKeybinding(id, binding);
+      this.recordingId = null;
+    }
+
+    this.renderResults();
+  }
+
+  private run(command: EditorCommand): void {
+    this.close();
+    this.registry.execute(command.id);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * CommandRegistry - Named commands with remappable keybindings
+ */
+
+import type { EditorCommand as Command } from './types';
+
+export class CommandRegistry {
+  private commands: Map<string, Command> = new Map();
+  private overrides: Record<string, string | null>;
+  private changeCallback: (() => void) | null = null;
+  private overridesCallback: ((overrides: Record<string, string | null>) => void) | null = null;
+  private errorCallback: ((error: Error, command: Command) => void) | null = null;
+
+  constructor(overrides: Record<string, string | null> = {}) {
+    this.overrides = { ...overrides };
+  }
+
+  /**
+   * Register a command, returning a function that unregisters it
+   */
+  public register(command: Command): () => void {
+    this.commands.set(command.id, command);
+    this.changeCallback?.();
+    return () => this.unregister(command.id);
+  }
+
+  public unregister(id: string): void {
+    if (this.commands.delete(id)) {
+      this.changeCallback?.();
+    }
+  }
+
+  /**
+   * Run a command by id. Resolves to whether it ran without failing;
+   * failures go to the error callback.
+   */
+  public async execute(id: string): Promise<boolean> {
+    const command = this.commands.get(id);
+    if (!command || (command.when && !command.when())) return false;
+
+    return this.invoke(command);
+  }
+
+  /**
+   * Run a command, reporting a throw or rejection instead of letting it
+   * escape as an unhandled error
+   */
+  private async invoke(command: Command): Promise<boolean> {
+    try {
+      await command.run();
+      return true;
+    } catch (error) {
+      if (this.errorCallback) {
+        this.errorCallback(error instanceof Error ? error : new Error(String(error)), command);
+      } else {
+        console.error(`Error running command "${command.id}":`, error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * List enabled commands
+   */
+  public getCommands(): Command[] {
+    return [...this.commands.values()].filter((command) => !command.when || command.when());
+  }
+
+  /**
+   * Get the effective keybinding for a command
+   */
+  public getKeybinding(id: string): string | undefined {
+    if (id in this.overrides) {
+      return this.overrides[id] ?? undefined;
+    }
+    return this.commands.get(id)?.keybinding;
+  }
+
+  /**
+   * Remap a command; pass null to remove its keybinding
+   */
+  public setKeybinding(id: string, keybinding: string | null): void {
+    this.overrides[id] = keybinding ? normalizeKeybinding(keybinding) : null;
+    this.overridesCallback?.(this.getOverrides());
+    this.changeCallback?.();
+  }
+
+  /**
+   * Restore a command's default keybinding
+   */
+  public resetKeybinding(id: string): void {
+    delete this.overrides[id];
+    this.overridesCallback?.(this.getOverrides());
+    this.changeCallback?.();
+  }
+
+  /**
+   * User keybinding overrides, keyed by command id
+   */
+  public getOverrides(): Record<string, string | null> {
+    return { ...this.overrides };
+  }
+
+  /**
+   * Replace all overrides, e.g. when preferences are loaded
+   */
+  public setOverrides(overrides: Record<string, string | null>): void {
+    this.overrides = { ...overrides };
+    this.changeCallback?.();
+  }
+
+  /**
+   * Run the command bound to a key event, if any
+   */
+  public handleKeydown(event: KeyboardEvent): boolean {
+    const pressed = keybindingFromEvent(event);
+    if (!pressed) return false;
+
+    for (const command of this.commands.values()) {
+      if (this.getKeybinding(command.id) !== pressed) continue;
+      if (command.when && !command.when(event)) continue;
+
+      event.preventDefault();
+      event.stopPropagation();
+      this.invoke(command);
+      return true;
+    }
+
+    return false;
+  }
+
+  public onChange(callback: () => void): void {
+    this.changeCallback = callback;
+  }
+
+  /**
+   * Called when the user remaps a command, so overrides can be persisted
+   */
+  public onOverridesChange(callback: (overrides: Record<string, string | null>) => void): void {
+    this.overridesCallback = callback;
+  }
+
+  /**
+   * Called when a command throws or rejects
+   */
+  public onError(callback: (error: Error, command: Command) => void): void {
+    this.errorCallback = callback;
+  }
+
+  /**
+   * Remove every command
+   */
+  public destroy(): void {
+    this.commands.clear();
+    this.changeCallback = null;
+    this.overridesCallback = null;
+    this.errorCallback = null;
+  }
+}
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Shift', 'Alt'];
+
+/**
+ * Build a normalized keybinding string from a key event
+ */
+export function keybindingFromEvent(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Mod');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+
+  // Use the physical key for letters and digits so Shift/Alt don't change it
+  const code = event.code || '';
+  let key = event.key;
+  if (/^Key[A-Z]$/.test(code)) key = code.slice(3);
+  else if (/^Digit[0-9]$/.test(code)) key = code.slice(5);
+
+  parts.push(key.length === 1 ? key.toUpperCase() : key);
+  return parts.join('+');
+}
+
+/**
+ * Normalize a user-typed keybinding, e.g. 'ctrl+shift+p' -> 'Mod+Shift+P'
+ */
+export function normalizeKeybinding(keybinding: string): string {
+  const parts = keybinding.split('+').map((part) => part.trim());
+  const key = parts.pop() || '';
+  const modifiers = new Set<string>(parts.map((part) => {
+    const lower = part.toLowerCase();
+    if (['ctrl', 'control', 'cmd', 'meta', 'mod'].includes(lower)) return 'Mod';
+    if (['alt', 'option'].includes(lower)) return 'Alt';
+    return 'Shift';
+  }));
+
+  return [
+    ...['Mod', 'Alt', 'Shift'].filter((modifier) => modifiers.has(modifier)),
+    key.length === 1 ? key.toUpperCase() : key
+  ].join('+');
+}
+
+/**
+ * Format a keybinding for display on the current platform
+ */
+export function formatKeybinding(keybinding: string): string {
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+  return keybinding.replace('Mod', isMac ? '⌘' : 'Ctrl');
+}
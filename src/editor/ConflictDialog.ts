@@ -0,0 +1,95 @@
+/**
+ * ConflictDialog - Lets the user resolve a remote update that diverged from
+ * unsaved local edits
+ */
+
+import { trapFocus } from '../utils/focus';
+import type { Translator } from './types';
+
+export interface ConflictDialogHandlers {
+  onKeepLocal(): void;
+  onUseRemote(): void;
+  onMerge(): void;
+}
+
+export class ConflictDialog {
+  private host: HTMLElement;
+  private element: HTMLElement | null = null;
+  private previousFocus: HTMLElement | null = null;
+  private handlers: ConflictDialogHandlers;
+  private translator: Translator;
+
+  constructor(host: HTMLElement, handlers: ConflictDialogHandlers, translator: Translator) {
+    this.host = host;
+    this.handlers = handlers;
+    this.translator = translator;
+  }
+
+  /**
+   * Show the dialog listing which modes changed on each side
+   */
+  public open(localModes: string[], remoteModes: string[]): void {
+    this.close();
+    this.previousFocus = document.activeElement as HTMLElement | null;
+
+    const t = (key: string) => this.translator.t(key);
+    const element = document.createElement('div');
+    element.className = 'conflict-overlay';
+    element.innerHTML = `
+      <div
+        class="conflict-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="conflict-title"
+        aria-describedby="conflict-description"
+      >
+        <h2 id="conflict-title">${t('conflict.title')}</h2>
+        <p id="conflict-description">${t('conflict.description')}</p>
+        <dl class="conflict-summary">
+          <dt>${t('conflict.local')}</dt>
+          <dd class="conflict-local"></dd>
+          <dt>${t('conflict.remote')}</dt>
+          <dd class="conflict-remote"></dd>
+        </dl>
+        <div class="conflict-actions">
+          <button class="conflict-merge">${t('conflict.merge')}</button>
+          <button class="conflict-keep-local">${t('conflict.keepLocal')}</button>
+          <button class="conflict-use-remote">${t('conflict.useRemote')}</button>
+        </div>
+      </div>
+    `;
+
+    element.querySelector('.conflict-local')!.textContent = this.describeModes(localModes);
+    element.querySelector('.conflict-remote')!.textContent = this.describeModes(remoteModes);
+
+    element.querySelector('.conflict-merge')?.addEventListener('click', () => this.handlers.onMerge());
+    element.querySelector('.conflict-keep-local')?.addEventListener('click', () => this.handlers.onKeepLocal());
+    element.querySelector('.conflict-use-remote')?.addEventListener('click', () => this.handlers.onUseRemote());
+    element.addEventListener('keydown', (event) => trapFocus(event, element));
+
+    this.host.appendChild(element);
+    this.element = element;
+    (element.querySelector('.conflict-merge') as HTMLElement).focus();
+  }
+
+  /**
+   * Remove the dialog
+   */
+  public close(): void {
+    if (!this.element) return;
+
+    this.element.remove();
+    this.element = null;
+    this.previousFocus?.focus();
+    this.previousFocus = null;
+  }
+
+  public isOpen(): boolean {
+    return this.element !== null;
+  }
+
+  private describeModes(modes: string[]): string {
+    if (!modes.length) return this.translator.t('conflict.none');
+    return modes.map((mode) => this.translator.t(`mode.${mode}`)).join(', ');
+  }
+}
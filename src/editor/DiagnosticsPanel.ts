@@ -0,0 +1,153 @@
+/**
+ * DiagnosticsPanel - Shows local performance metrics and exports them
+ */
+
+import { METRIC_TARGETS, METRIC_UNITS } from './Telemetry';
+import { trapFocus } from '../utils/focus';
+import type { MetricSummary, Telemetry } from './Telemetry';
+import type { Translator } from './types';
+
+export class DiagnosticsPanel {
+  private host: HTMLElement;
+  private telemetry: Telemetry;
+  private translator: Translator;
+  private element: HTMLElement | null = null;
+  private previousFocus: HTMLElement | null = null;
+
+  constructor(host: HTMLElement, telemetry: Telemetry, translator: Translator) {
+    this.host = host;
+    this.telemetry = telemetry;
+    this.translator = translator;
+  }
+
+  /**
+   * Show the panel; it refreshes as new samples arrive
+   */
+  public open(): void {
+    if (this.element) return;
+
+    this.previousFocus = document.activeElement as HTMLElement | null;
+
+    const t = (key: string) => this.translator.t(key);
+    const element = document.createElement('div');
+    element.className = 'diagnostics-overlay';
+    element.innerHTML = `
+      <div class="diagnostics-panel" role="dialog" aria-modal="true" aria-labelledby="diagnostics-title">
+        <div class="diagnostics-header">
+          <h2 id="diagnostics-title">${t('diagnostics.title')}</h2>
+          <button class="diagnostics-close" aria-label="${t('diagnostics.close')}">×</button>
+        </div>
+        <p class="diagnostics-note">${t('diagnostics.note')}</p>
+        <table class="diagnostics-table">
+          <thead>
+            <tr>
+              <th scope="col">${t('diagnostics.metric')}</th>
+              <th scope="col">${t('diagnostics.count')}</th>
+              <th scope="col">p50</th>
+              <th scope="col">p90</th>
+              <th scope="col">p99</th>
+              <th scope="col">${t('diagnostics.max')}</th>
+              <th scope="col">${t('diagnostics.target')}</th>
+            </tr>
+          </thead>
+          <tbody></tbody>
+        </table>
+        <div class="diagnostics-actions">
+          <button class="diagnostics-clear">${t('diagnostics.clear')}</button>
+          <button class="diagnostics-export">${t('diagnostics.export')}</button>
+        </div>
+      </div>
+    `;
+
+    element.querySelector('.diagnostics-close')?.addEventListener('click', () => this.close());
+    element.querySelector('.diagnostics-clear')?.addEventListener('click', () => this.telemetry.clear());
+    element.querySelector('.diagnostics-export')?.addEventListener('click', () => this.exportJSON());
+    element.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+      trapFocus(event, element);
+    });
+
+    this.host.appendChild(element);
+    this.element = element;
+    this.telemetry.onChange(() => this.renderRows());
+    this.renderRows();
+    (element.querySelector('.diagnostics-close') as HTMLElement).focus();
+  }
+
+  public close(): void {
+    if (!this.element) return;
+
+    this.telemetry.onChange(null);
+    this.element.remove();
+    this.element = null;
+    this.previousFocus?.focus();
+    this.previousFocus = null;
+  }
+
+  public isOpen(): boolean {
+    return this.element !== null;
+  }
+
+  /**
+   * Render one row per metric series
+   */
+  private renderRows(): void {
+    const tbody = this.element?.querySelector('.diagnostics-table tbody');
+    if (!tbody) return;
+
+    tbody.innerHTML = '';
+    const summary = this.telemetry.getSummary();
+    if (!summary.length) {
+      const row = document.createElement('tr');
+      const cell = document.createElement('td');
+      cell.colSpan = 7;
+      cell.className = 'diagnostics-empty';
+      cell.textContent = this.translator.t('diagnostics.empty');
+      row.appendChild(cell);
+      tbody.appendChild(row);
+      return;
+    }
+
+    summary.forEach((metric) => tbody.appendChild(this.createRow(metric)));
+  }
+
+  private createRow(metric: MetricSummary): HTMLElement {
+    const unit = METRIC_UNITS[metric.metric];
+    const target = METRIC_TARGETS[metric.metric];
+    const format = (value: number) => `${Math.round(value).toLocaleString(this.translator.locale)} ${unit}`;
+
+    const row = document.createElement('tr');
+    if (target !== undefined && metric.p90 > target) {
+      row.classList.add('diagnostics-over-target');
+    }
+
+    [
+      metric.key,
+      metric.count.toLocaleString(this.translator.locale),
+      format(metric.p50),
+      format(metric.p90),
+      format(metric.p99),
+      format(metric.max),
+      target !== undefined ? `< ${format(target)}` : '—'
+    ].forEach((text) => {
+      const cell = document.createElement('td');
+      cell.textContent = text;
+      row.appendChild(cell);
+    });
+
+    return row;
+  }
+
+  /**
+   * Download the collected metrics
+   */
+  private exportJSON(): void {
+    const blob = new Blob([this.telemetry.export()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'editor-diagnostics.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+}
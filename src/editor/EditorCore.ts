@@ -3,29 +3,123 @@
  */
 
 import { PluginManager } from './PluginManager';
+import { HistoryManager } from './HistoryManager';
+import type { HistoryEntry } from './HistoryManager';
+import { RevisionTimeline } from './RevisionTimeline';
+import { ConflictDialog } from './ConflictDialog';
+import { CommandRegistry, formatKeybinding, keybindingFromEvent } from './CommandRegistry';
+import { CommandPalette } from './CommandPalette';
+import { ThemeManager } from './ThemeManager';
+import { EventEmitter } from './EventEmitter';
+import { NotificationCenter } from './NotificationCenter';
+import { PluginError, guardPluginCall, guardPluginCallSync } from './pluginBoundary';
+import { Telemetry } from './Telemetry';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import { PreferencesPanel } from './PreferencesPanel';
+import { PresentationView } from './PresentationView';
+import { ViewStateStore } from './ViewStateStore';
+import { getChangedModes, hasSameContents, mergeEditorData } from './merge';
+import { pluginRegistry } from './PluginRegistry';
+import type { PluginDescriptor } from './PluginRegistry';
+import { getFocusableElements } from '../utils/focus';
+import { I18n, detectLocale, registerBundles } from '../i18n/I18n';
 import { ComponentRelay } from '../api/ComponentRelay';
+import { RevisionStore } from '../api/RevisionStore';
+import { SaveQueue } from '../api/SaveQueue';
+import { PreferencesStore } from '../api/PreferencesStore';
+import type { SaveQueueStatus } from '../api/SaveQueue';
 import { debounce } from '../utils/debounce';
+import { deepClone } from '../utils/clone';
+import { CURRENT_DATA_VERSION, loadEditorData } from './migrations';
+import { createHtmlPreview, createPlainPreview, getSourceText } from './notePayload';
+import type { NotePreview } from './notePayload';
 import type {
   EditorMode,
   EditorData,
+  EditorEvents,
+  ExportFormat,
+  ContentData,
   EditorState,
   EditorConfig,
+  EditorPreferences,
   BasePlugin,
+  PluginData,
+  PluginViewState,
+  Revision,
+  NoteLoadResult,
+  PluginFailure,
+  QuarantineInfo,
   NotificationOptions,
-  ErrorContext
+  ErrorContext,
+  ResolvedTheme,
+  ThemePreference
 } from './types';
 
 export class EditorCore {
   private pluginManager: PluginManager;
   private componentRelay: ComponentRelay;
+  private history: HistoryManager;
+  private revisionStore: RevisionStore;
+  private saveQueue: SaveQueue;
+  private revisionTimeline: RevisionTimeline | null = null;
+  private conflictDialog: ConflictDialog | null = null;
+  private notifications: NotificationCenter | null = null;
+  private telemetry: Telemetry;
+  private i18n: I18n;
+  private diagnosticsPanel: DiagnosticsPanel | null = null;
+  private preferences: PreferencesStore;
+  private preferencesPanel: PreferencesPanel | null = null;
+  private presentationView: PresentationView | null = null;
+  /** The note is locked in Standard Notes */
+  private hostLocked: boolean = false;
+  /** The user turned on read-only from the toolbar or a command */
+  private manualReadOnly: boolean = false;
+  /** performance.now() at construction, for time-to-interactive */
+  private createdAt: number;
+  private isApplyingHistory: boolean = false;
+  /** The note whose data is loaded; saves are bound to it when captured */
+  private noteId: string = 'standalone';
+  private viewStates: ViewStateStore = new ViewStateStore();
+  /** Last payload known to match the stored note, used as the merge base */
+  private baseRevision: { noteId: string; data: EditorData } | null = null;
+  /** Remote payload waiting for conflict resolution */
+  private pendingRemote: EditorData | null = null;
+  private lastSentData: EditorData | null = null;
+  private changeCount: number = 0;
+  private keydownHandler: ((event: KeyboardEvent) => void) | null = null;
+  private commands: CommandRegistry;
+  private themeManager: ThemeManager;
+  private events: EventEmitter<EditorEvents> = new EventEmitter();
+  private commandPalette: CommandPalette | null = null;
+  private pluginCommandDisposers: Array<() => void> = [];
+  private modeCommandDisposers: Array<() => void> = [];
+  private registryDisposer: (() => void) | null = null;
   private state: EditorState;
   private container: HTMLElement;
   private autoSaveHandler: ReturnType<typeof debounce>;
 
+  /**
+   * Add an editor mode, e.g. from a plugin shipped as a separate script.
+   * Returns a function that removes it again.
+   */
+  public static registerPlugin<M extends EditorMode>(descriptor: PluginDescriptor<M>): () => void {
+    return pluginRegistry.register(descriptor);
+  }
+
   constructor(container: HTMLElement, config?: Partial<EditorConfig>) {
     this.container = container;
-    this.pluginManager = new PluginManager();
-    this.componentRelay = new ComponentRelay();
+    this.createdAt = performance.now();
+    this.telemetry = new Telemetry(config?.enableTelemetry ?? false);
+    this.i18n = new I18n(detectLocale(config?.locale));
+    this.registerModeMessages();
+    this.pluginManager = new PluginManager(this.telemetry, this.i18n, config?.pluginMemoryBudget);
+    this.componentRelay = new ComponentRelay(config?.transport);
+    this.history = new HistoryManager();
+    this.commands = new CommandRegistry();
+    this.revisionStore = new RevisionStore();
+    this.saveQueue = new SaveQueue((noteId, data) => this.sendSave(noteId, data));
+    this.saveQueue.onStatusChange((status) => this.updateSaveStatus(status));
+    this.saveQueue.onSaved((noteId, data) => this.handleSaved(noteId, data));
 
     this.state = {
       currentMode: 'text',
@@ -34,14 +128,35 @@ export class EditorCore {
       config: {
         autoSave: true,
         autoSaveDelay: 500,
-        theme: 'light',
+        theme: 'auto',
         enableTelemetry: false,
         ...config
       },
       isInitialized: false,
-      isSaving: false
+      isSaving: false,
+      isDirty: false,
+      quarantine: null,
+      pluginFailure: null,
+      readOnly: false,
+      theme: 'light'
     };
 
+    // Config values are the defaults that stored preferences override
+    this.preferences = new PreferencesStore(this.componentRelay, {
+      autoSaveDelay: this.state.config.autoSaveDelay,
+      theme: this.state.config.theme
+    });
+    this.commands.onOverridesChange((keybindings) => this.preferences.update({ keybindings }));
+    this.commands.onError((error, command) => this.handleError(error, {
+      component: 'CommandRegistry',
+      operation: command.id,
+      critical: false
+    }));
+
+    this.themeManager = new ThemeManager(this.state.config.theme);
+    this.themeManager.onChange((theme) => this.applyTheme(theme));
+    this.state.theme = this.themeManager.getTheme();
+
     this.autoSaveHandler = debounce(
       () => this.saveData(),
       this.state.config.autoSaveDelay
@@ -56,18 +171,42 @@ export class EditorCore {
       // Initialize ComponentRelay for Standard Notes integration
       await this.componentRelay.initialize();
 
+      // An explicit locale wins; otherwise follow the host's language
+      if (!this.state.config.locale) {
+        this.i18n.setLocale(detectLocale(this.componentRelay.getLocale()));
+      }
+
       // Listen for note data from Standard Notes
-      this.componentRelay.onNoteLoad((data) => {
-        this.loadNoteData(data);
+      this.componentRelay.onNoteLoad((result, noteId) => {
+        this.handleIncomingNote(result, noteId);
+      });
+
+      // Apply the user's preferences, now that component data is available
+      this.applyPreferences(this.preferences.load());
+      this.preferences.onChange((preferences) => this.applyPreferences(preferences));
+
+      // Follow the host's active theme
+      this.componentRelay.onThemesChange((themeUrls) => {
+        this.themeManager.setHostThemes(themeUrls);
       });
 
       // Render the UI
       this.renderUI();
+      this.applyTheme(this.state.theme);
 
       // Load initial data or default state
       await this.loadInitialData();
 
+      // Resend anything a previous session could not save
+      await this.restorePendingSaves();
+
       this.state.isInitialized = true;
+      this.telemetry.record('editor.interactive', performance.now() - this.createdAt);
+
+      // Fetch the other modes' code in the background
+      this.pluginManager.prefetch(
+        pluginRegistry.getModes().filter((mode) => mode !== this.state.currentMode)
+      );
     } catch (error) {
       this.handleError(error as Error, {
         component: 'EditorCore',
@@ -77,152 +216,968 @@ export class EditorCore {
     }
   }
 
+  /**
+   * Subscribe to an editor event, returning a function that unsubscribes
+   */
+  public on<K extends keyof EditorEvents>(
+    event: K,
+    listener: (payload: EditorEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  public once<K extends keyof EditorEvents>(
+    event: K,
+    listener: (payload: EditorEvents[K]) => void
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
+  public off<K extends keyof EditorEvents>(
+    event: K,
+    listener: (payload: EditorEvents[K]) => void
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Get a copy of the current editor data, including unsaved edits
+   */
+  public getData(): EditorData {
+    this.syncFromPlugin();
+    return deepClone(this.state.data);
+  }
+
+  /**
+   * Replace the editor contents. The payload is migrated and validated like
+   * a note from Standard Notes, so unreadable data is quarantined.
+   */
+  public async setData(data: unknown): Promise<NoteLoadResult> {
+    const result = loadEditorData(data);
+    await this.loadNoteData(result);
+    return result;
+  }
+
+  /**
+   * Serialize the editor contents
+   */
+  public async export(format: ExportFormat = 'json'): Promise<string> {
+    const data = this.getData();
+    if (format === 'json') {
+      return JSON.stringify(data, null, 2);
+    }
+
+    const content = data.contents[this.state.currentMode]?.content;
+    const text = content ? getSourceText(content) : '';
+    if (text === null) {
+      throw new Error(this.i18n.t('error.exportText', { mode: this.modeLabel(this.state.currentMode) }));
+    }
+    return text;
+  }
+
   /**
    * Switch editor mode
    */
   public async switchMode(mode: EditorMode): Promise<void> {
-    if (this.state.currentMode === mode) return;
+    if (this.state.currentMode === mode && this.state.activePlugin) return;
+    if (this.state.quarantine) return;
+
+    const previousMode = this.state.activePlugin ? this.state.currentMode : null;
+
+    // Keep the outgoing plugin's edits; if it can't report them it fails
+    // in place rather than losing them
+    if (!this.syncFromPlugin()) return;
+
+    const stopTimer = this.telemetry.startTimer('mode.switch', mode);
+
+    // Focus inside the outgoing plugin is lost when it is hidden
+    const hadFocus = !!this.container.querySelector('#plugin-container')?.contains(document.activeElement);
 
     try {
-      // Save current plugin state
-      if (this.state.activePlugin) {
-        const currentData = this.state.activePlugin.getData();
-        this.updateContent(currentData);
-      }
+      // Keep the outgoing plugin rendered so switching back is instant
+      this.rememberView();
+      this.suspendCurrentPlugin();
+      this.clearPluginPanels();
 
-      // Clean up current plugin
-      await this.cleanupCurrentPlugin();
+      // Load the plugin, or reuse the warm instance from an earlier switch
+      const slot = await guardPluginCall(mode, 'load', () => this.pluginManager.getSlot(mode));
+      const plugin = slot.plugin;
+      const modeEntry = this.state.data.contents[mode];
 
-      // Load and initialize new plugin
-      const plugin = await this.pluginManager.getPlugin(mode);
-      await plugin.initialize();
+      if (!slot.host) {
+        await guardPluginCall(mode, 'initialize', () => plugin.initialize());
 
-      // Restore plugin data if available
-      const modeContent = this.state.data.content;
-      if (modeContent.type === mode) {
-        plugin.setData({
-          type: mode,
-          content: modeContent
+        // Restore plugin data if available
+        if (modeEntry && modeEntry.content.type === mode) {
+          await guardPluginCall(mode, 'setData', () => plugin.setData({
+            type: mode,
+            content: modeEntry.content
+          }));
+          slot.content = modeEntry.content;
+        }
+
+        // Render the plugin into its own host
+        const host = this.pluginManager.createHost(slot, this.getPluginContainer());
+        await guardPluginCall(mode, 'render', () => {
+          plugin.setTheme?.(this.state.theme);
+          plugin.setPreferences?.(this.preferences.get());
+          plugin.setReadOnly?.(this.state.readOnly);
+          plugin.render(host);
         });
-      }
 
-      // Render the plugin
-      const pluginContainer = this.getPluginContainer();
-      plugin.render(pluginContainer);
-
-      // Setup data change listener
-      if (plugin.onDataChange) {
-        plugin.onDataChange((data) => {
-          this.updateContent(data);
-          if (this.state.config.autoSave) {
-            this.autoSaveHandler();
-          }
+        // Setup data change listener; a suspended plugin's changes are
+        // ones it made to itself, e.g. when its content was replaced
+        if (plugin.onDataChange) {
+          plugin.onDataChange((data) => {
+            if (this.pluginManager.isSuspended(mode)) return;
+            slot.content = data.content;
+            this.updateContent(data);
+            this.markDirty();
+            this.events.emit('contentChanged', { mode, content: data.content });
+            if (!this.isApplyingHistory) {
+              this.history.record(data);
+              this.updateHistoryButtons();
+            }
+            if (this.state.config.autoSave) {
+              this.autoSaveHandler();
+            }
+          });
+        }
+      } else {
+        // State may have moved on while the plugin was hidden, e.g. undo
+        const content = modeEntry?.content.type === mode
+          ? modeEntry.content
+          : pluginRegistry.createDefaultContent(mode);
+        if (slot.content !== content) {
+          await guardPluginCall(mode, 'setData', () => plugin.setData({ type: mode, content }));
+          slot.content = content;
+        }
+
+        await guardPluginCall(mode, 'resume', () => {
+          plugin.setTheme?.(this.state.theme);
+          plugin.setPreferences?.(this.preferences.get());
+          plugin.setReadOnly?.(this.state.readOnly);
+          this.pluginManager.resume(mode);
         });
       }
 
+      // Expose the plugin's commands while it is active
+      this.pluginCommandDisposers = (plugin.getCommands?.() || []).map((command) =>
+        this.commands.register(command)
+      );
+
+      // Checkpoint the restored state so undo can return to it
+      if (!this.isApplyingHistory) {
+        this.history.record(guardPluginCallSync(mode, 'getData', () => plugin.getData()), true);
+        this.updateHistoryButtons();
+      }
+
       // Update state
       this.state.currentMode = mode;
       this.state.activePlugin = plugin;
       this.state.data.mode = mode;
       this.state.data.metadata.lastMode = mode;
       this.state.data.metadata.modified = Date.now();
+      this.clearPluginFailure();
 
       // Update UI
       this.updateModeSelector();
+      this.updatePresentButton();
+      this.restoreView(mode, plugin);
+      if (hadFocus) {
+        this.focusPluginContent();
+      }
+      stopTimer();
+
+      this.events.emit('pluginLoaded', { mode, plugin });
+      if (previousMode !== mode) {
+        this.events.emit('modeChanged', { mode, previousMode });
+      }
 
     } catch (error) {
+      if (error instanceof PluginError) {
+        await this.failPlugin(error);
+        return;
+      }
+
       this.handleError(error as Error, {
         component: 'EditorCore',
         operation: 'switchMode',
         critical: false,
         metadata: { mode }
       });
+    }
+  }
 
-      // Fallback to text mode on error
-      if (mode !== 'text') {
-        await this.switchMode('text');
-      }
+  /**
+   * Copy the active plugin's content into state. Returns false if the
+   * plugin threw, in which case it is replaced by the recovery panel and
+   * state keeps the last content it reported.
+   */
+  private syncFromPlugin(): boolean {
+    const plugin = this.state.activePlugin;
+    if (!plugin) return true;
+
+    try {
+      this.updateContent(guardPluginCallSync(this.state.currentMode, 'getData', () => plugin.getData()));
+      return true;
+    } catch (error) {
+      this.failPlugin(error as PluginError);
+      return false;
     }
   }
 
   /**
-   * Save current data to Standard Notes
+   * Isolate a failed plugin: drop it, show the stored content and pause
+   * saving so nothing is written over the note until the user acts
    */
-  private async saveData(): Promise<void> {
-    if (this.state.isSaving) return;
+  private async failPlugin(error: PluginError): Promise<void> {
+    this.autoSaveHandler.cancel();
 
+    // Drop the broken instance so a retry starts from a fresh one
+    this.pluginCommandDisposers.forEach((dispose) => dispose());
+    this.pluginCommandDisposers = [];
+    this.state.activePlugin = null;
+    this.updatePresentButton();
     try {
-      this.state.isSaving = true;
+      // The recovery panel replaces every plugin host
+      this.pluginManager.unloadAll();
+    } catch (destroyError) {
+      console.error('Error cleaning up plugin:', destroyError);
+    }
+
+    const failure: PluginFailure = {
+      mode: error.mode,
+      operation: error.operation,
+      message: error.message
+    };
+    this.state.currentMode = error.mode;
+    this.state.pluginFailure = failure;
+    this.updateModeSelector();
+    this.updateSaveStatus();
+    this.renderRecoveryPanel(failure);
+
+    this.handleError(error, {
+      component: 'PluginManager',
+      operation: error.operation,
+      critical: false,
+      metadata: { mode: error.mode },
+      retry: () => this.retryPlugin()
+    });
+  }
+
+  /**
+   * Try loading the failed plugin again
+   */
+  private async retryPlugin(): Promise<void> {
+    const failure = this.state.pluginFailure;
+    if (failure) {
+      await this.switchMode(failure.mode);
+    }
+  }
+
+  /**
+   * Resume saving once a plugin has loaded successfully
+   */
+  private clearPluginFailure(): void {
+    const failure = this.state.pluginFailure;
+    if (!failure) return;
+
+    this.state.pluginFailure = null;
+    this.notifications?.dismiss(`error:${failure.operation}`);
+    this.updateSaveStatus();
+    if (this.state.isDirty && this.state.config.autoSave) {
+      this.autoSaveHandler();
+    }
+  }
+
+  /**
+   * Show a failed plugin's stored content with copy, download and retry
+   */
+  private renderRecoveryPanel(failure: PluginFailure): void {
+    const t = (key: string) => this.i18n.t(key);
+    const container = this.getPluginContainer();
+    container.innerHTML = `
+      <div class="recovery-panel" role="alert">
+        <h2 class="recovery-title"></h2>
+        <p class="recovery-reason"></p>
+        <div class="recovery-actions">
+          <button class="recovery-retry">${t('recovery.retry')}</button>
+          <button class="recovery-copy">${t('recovery.copy')}</button>
+          <button class="recovery-download">${t('recovery.download')}</button>
+        </div>
+        <pre class="recovery-raw"></pre>
+      </div>
+    `;
+
+    const content = this.state.data.contents[failure.mode]?.content;
+    const source = content ? getSourceText(content) : '';
+    const raw = source ?? JSON.stringify(content, null, 2);
+
+    // Use textContent so stored content is never interpreted as HTML
+    container.querySelector('.recovery-title')!.textContent =
+      this.i18n.t('recovery.title', { mode: this.modeLabel(failure.mode) });
+    container.querySelector('.recovery-reason')!.textContent =
+      this.i18n.t('recovery.reason', { message: failure.message });
+    container.querySelector('.recovery-raw')!.textContent = raw;
 
-      // Get latest data from active plugin
-      if (this.state.activePlugin) {
-        const pluginData = this.state.activePlugin.getData();
-        this.updateContent(pluginData);
+    container.querySelector('.recovery-retry')?.addEventListener('click', () => this.retryPlugin());
+    container.querySelector('.recovery-copy')?.addEventListener('click', async () => {
+      try {
+        await navigator.clipboard.writeText(raw);
+        this.showNotification({ id: 'recovery-copy', type: 'success', message: t('notify.copied') });
+      } catch (error) {
+        this.showNotification({ id: 'recovery-copy', type: 'warning', message: t('notify.clipboardFailed') });
       }
+    });
+    container.querySelector('.recovery-download')?.addEventListener('click', () => {
+      const blob = new Blob([raw], { type: source === null ? 'application/json' : 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${failure.mode}-content.${source === null ? 'json' : 'txt'}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    });
+  }
 
-      // Update metadata
-      this.state.data.metadata.modified = Date.now();
+  /**
+   * Save current data to Standard Notes
+   *
+   * Saves go through the save queue, which coalesces them per note so the
+   * latest state is always written, even while an earlier save is in flight.
+   * Resolves without saving while the note is quarantined or read-only, a
+   * plugin has failed or a conflict is pending, and rejects once the queue
+   * gives up retrying.
+   */
+  public async save(): Promise<void> {
+    // Never overwrite a payload we could not read
+    if (this.state.quarantine) return;
+
+    // Leave locked and read-only notes as they are
+    if (this.state.readOnly) return;
+
+    // Wait for the user to resolve a diverged remote update
+    if (this.pendingRemote) return;
+
+    const changeCount = this.changeCount;
+
+    // Never save while a plugin is failed, as its content may be stale
+    if (this.state.pluginFailure) return;
+
+    // Get latest data from active plugin
+    if (!this.syncFromPlugin()) return;
+
+    // Update metadata
+    this.state.data.metadata.modified = Date.now();
+
+    const snapshot = deepClone(this.state.data);
+    this.lastSentData = snapshot;
+    const noteId = this.noteId;
 
-      // Save to Standard Notes
-      await this.componentRelay.saveNote(this.state.data);
+    // Stored with the save, so a later session can tell if the note moved on
+    const base = this.baseRevision?.noteId === noteId ? this.baseRevision.data : undefined;
 
+    try {
+      await this.saveQueue.enqueue(noteId, snapshot, base);
+
+      if (this.changeCount === changeCount) {
+        this.state.isDirty = false;
+        this.updateSaveStatus();
+      }
+
+      // A success replaces the previous save result instead of stacking
+      this.notifications?.dismiss('error:saveData');
       this.showNotification({
+        id: 'save',
         type: 'success',
-        message: 'Saved',
+        message: this.i18n.t('notify.saved'),
         duration: 2000
       });
-
     } catch (error) {
+      this.events.emit('saveFailed', { noteId, error: error as Error });
       this.handleError(error as Error, {
         component: 'EditorCore',
         operation: 'saveData',
-        critical: false
+        critical: false,
+        retry: () => this.saveQueue.retryNow()
       });
-    } finally {
-      this.state.isSaving = false;
+      throw error;
+    }
+  }
+
+  /**
+   * Send one save to Standard Notes; called by the save queue
+   */
+  private async sendSave(noteId: string, data: EditorData): Promise<void> {
+    const preview = await this.createPreview(noteId, data);
+    const stopTimer = this.telemetry.startTimer('save.latency');
+    await this.componentRelay.saveNote(noteId, data, preview);
+    stopTimer();
+
+    if (this.telemetry.enabled) {
+      this.telemetry.record('save.size', new TextEncoder().encode(JSON.stringify(data)).length);
+    }
+  }
+
+  /**
+   * The note list preview for saved data. The thumbnail, when enabled, is
+   * the active plugin's first slide, so it is left out for data saved
+   * from another mode or note.
+   */
+  private async createPreview(noteId: string, data: EditorData): Promise<NotePreview> {
+    const plain = createPlainPreview(data, this.i18n);
+    const plugin = this.state.activePlugin;
+    const isShown = noteId === this.noteId && data.mode === this.state.currentMode;
+    if (!this.preferences.get().htmlPreview || !isShown || !plugin?.getPresentationSlides) {
+      return { plain, html: null };
+    }
+
+    try {
+      const [slide] = await plugin.getPresentationSlides();
+      return { plain, html: slide ? createHtmlPreview(slide) : null };
+    } catch (error) {
+      // A missing thumbnail should never hold up the save
+      console.warn('Could not render the note thumbnail:', error);
+      return { plain, html: null };
+    }
+  }
+
+  /**
+   * Save from the UI and autosave; save() already reports failures
+   */
+  private async saveData(): Promise<void> {
+    await this.save().catch(() => undefined);
+  }
+
+  /**
+   * Handle a save confirmed by the queue
+   */
+  private async handleSaved(noteId: string, data: EditorData): Promise<void> {
+    // A save for a note the user has since left is no base for this one
+    if (noteId === this.noteId) {
+      this.baseRevision = { noteId, data };
+    }
+    this.events.emit('saved', { noteId, data: deepClone(data) });
+
+    // Keep a local revision at each save point
+    try {
+      await this.revisionStore.addRevision(noteId, data);
+    } catch (error) {
+      console.error('Error recording revision:', error);
+    }
+  }
+
+  /**
+   * Reflect queue and dirty state in the toolbar save indicator
+   */
+  private updateSaveStatus(queueStatus: SaveQueueStatus = this.saveQueue.getStatus()): void {
+    this.state.isSaving = queueStatus === 'saving';
+
+    let status: 'saved' | 'saving' | 'unsaved' | 'failed';
+    let label: string;
+    if (queueStatus === 'failed') {
+      status = 'failed';
+      label = this.i18n.t('status.failed');
+    } else if (queueStatus === 'saving') {
+      status = 'saving';
+      label = this.i18n.t('status.saving');
+    } else if (queueStatus === 'offline') {
+      status = 'unsaved';
+      label = this.i18n.t('status.offline');
+    } else if (this.state.pluginFailure) {
+      status = 'unsaved';
+      label = this.i18n.t('status.paused');
+    } else if (this.state.readOnly) {
+      status = this.state.isDirty ? 'unsaved' : 'saved';
+      label = this.i18n.t('status.readOnly');
+    } else if (this.state.isDirty) {
+      status = 'unsaved';
+      label = this.i18n.t('status.unsaved');
+    } else {
+      status = 'saved';
+      label = this.i18n.t('status.saved');
+    }
+
+    const indicator = this.container.querySelector<HTMLElement>('.save-status');
+    if (indicator) {
+      indicator.dataset.status = status;
+      indicator.textContent = label;
+      indicator.title = queueStatus === 'offline'
+        ? this.i18n.t('status.offlineHint')
+        : label;
     }
   }
 
+  /**
+   * Re-queue a save a previous session left unsent for the open note.
+   * Saves for other notes stay stored until their note is opened, as the
+   * editor can only write to the note Standard Notes has given it.
+   */
+  private async restorePendingSaves(): Promise<void> {
+    const noteId = this.noteId;
+    if (this.saveQueue.hasPending(noteId)) return;
+
+    const unsent = SaveQueue.loadPersisted().filter((save) => save.noteId === noteId);
+    const latest = unsent.sort((a, b) => b.queuedAt - a.queuedAt)[0];
+    if (!latest || this.state.quarantine || this.state.readOnly) return;
+
+    const stored = deepClone(this.state.data);
+    if (hasSameContents(latest.data, stored)) {
+      this.saveQueue.forget(noteId);
+      return;
+    }
+
+    // The unsent state is local; it builds on the note it was edited from
+    await this.cleanupCurrentPlugin();
+    this.state.data = latest.data;
+    await this.switchMode(latest.data.mode || 'text');
+    this.markDirty();
+
+    // The stored note changed since: resolve it like any concurrent edit
+    if (latest.base && !hasSameContents(latest.base, stored)) {
+      this.baseRevision = { noteId, data: deepClone(latest.base) };
+      this.openConflict(stored);
+      return;
+    }
+
+    this.showNotification({
+      type: 'info',
+      message: this.i18n.t('notify.restoredUnsaved'),
+      duration: 5000
+    });
+    await this.saveData();
+  }
+
+  /**
+   * Toggle the revision timeline panel
+   */
+  public async toggleRevisionTimeline(): Promise<void> {
+    if (!this.revisionTimeline) return;
+
+    if (this.revisionTimeline.isOpen()) {
+      this.revisionTimeline.close();
+      return;
+    }
+
+    const revisions = await this.revisionStore.listRevisions(this.noteId);
+    this.revisionTimeline.open(revisions);
+  }
+
+  /**
+   * Restore a revision and save it through the normal save path
+   */
+  private async restoreRevision(revision: Revision): Promise<void> {
+    if (this.state.quarantine || this.state.readOnly) return;
+
+    // Replace the active plugin without copying its content over, keeping
+    // undo history so the restore itself can be undone
+    await this.cleanupCurrentPlugin();
+    this.state.data = deepClone(revision.data);
+    await this.switchMode(this.state.data.mode || 'text');
+    this.markDirty();
+    await this.saveData();
+
+    this.revisionTimeline?.close();
+    this.showNotification({
+      type: 'info',
+      message: this.i18n.t('notify.restoredRevision', {
+        date: new Date(revision.timestamp).toLocaleString(this.i18n.locale)
+      })
+    });
+  }
+
   /**
    * Load initial data
    */
   private async loadInitialData(): Promise<void> {
-    const savedData = await this.componentRelay.loadNote();
+    const result = await this.componentRelay.loadNote();
 
-    if (savedData) {
-      this.state.data = savedData;
-      await this.switchMode(savedData.mode || 'text');
-    } else {
-      await this.switchMode('text');
+    this.noteId = this.componentRelay.getCurrentNoteId();
+    this.setHostLocked(this.componentRelay.isNoteLocked());
+    await this.loadNoteData(result ?? this.getNewNote());
+  }
+
+  /**
+   * An empty note opens in the user's default mode
+   */
+  private getNewNote(): NoteLoadResult {
+    return { status: 'ok', data: this.getDefaultData(this.preferences.get().defaultMode) };
+  }
+
+  /**
+   * Handle a note streamed from Standard Notes, detecting remote updates
+   * that diverge from unsaved local edits
+   */
+  private async handleIncomingNote(incoming: NoteLoadResult | null, noteId: string): Promise<void> {
+    const result = incoming ?? this.getNewNote();
+
+    if (noteId !== this.noteId) {
+      this.leaveNote();
+      await this.cleanupCurrentPlugin();
+      try {
+        // Suspended plugins hold the previous note's content and view
+        this.pluginManager.unloadAll();
+      } catch (error) {
+        console.error('Error cleaning up plugin:', error);
+      }
+      this.noteId = noteId;
+      this.setHostLocked(this.componentRelay.isNoteLocked());
+
+      // Reopen the note in the mode it was left in
+      const mode = this.viewStates.get(noteId)?.mode;
+      await this.loadNoteData(result, pluginRegistry.has(mode) ? mode : undefined);
+      await this.restorePendingSaves();
+      return;
     }
+
+    const base = this.baseRevision;
+    this.setHostLocked(this.componentRelay.isNoteLocked());
+
+    if (result.status === 'ok' && base && base.noteId === noteId && !this.state.quarantine) {
+      const remote = result.data;
+
+      // Echo of our own save, or nothing changed remotely
+      const isEcho = this.lastSentData && hasSameContents(remote, this.lastSentData);
+      if (isEcho || hasSameContents(remote, base.data)) {
+        this.baseRevision = { noteId, data: deepClone(remote) };
+        return;
+      }
+
+      if (this.state.isDirty) {
+        this.openConflict(remote);
+        return;
+      }
+    }
+
+    await this.loadNoteData(result);
+  }
+
+  /**
+   * Queue the pending save of the note being left, bound to its uuid. It
+   * is not awaited: the queue retries it and keeps it across reloads, so
+   * it never holds up the switch.
+   */
+  private leaveNote(): void {
+    this.autoSaveHandler.cancel();
+
+    if (this.state.isDirty) {
+      this.save().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Hold a diverged remote payload and ask the user how to resolve it
+   */
+  private openConflict(remote: EditorData): void {
+    if (!this.baseRevision || !this.conflictDialog) return;
+
+    this.pendingRemote = remote;
+    this.syncFromPlugin();
+
+    this.conflictDialog.open(
+      getChangedModes(this.baseRevision.data, this.state.data),
+      getChangedModes(this.baseRevision.data, remote)
+    );
   }
 
   /**
-   * Load note data from Standard Notes
+   * Apply the user's choice for a pending conflict
    */
-  private async loadNoteData(data: EditorData): Promise<void> {
+  private async resolveConflict(resolution: 'local' | 'remote' | 'merge'): Promise<void> {
+    const remote = this.pendingRemote;
+    const base = this.baseRevision;
+    if (!remote || !base) return;
+
+    this.pendingRemote = null;
+    this.conflictDialog?.close();
+
+    if (resolution === 'remote') {
+      // A save left by an earlier session is superseded too
+      this.saveQueue.forget(base.noteId);
+      await this.loadNoteData({ status: 'ok', data: remote });
+      return;
+    }
+
+    this.syncFromPlugin();
+
+    let data = this.state.data;
+    let conflicts = 0;
+    if (resolution === 'merge') {
+      const result = mergeEditorData(base.data, this.state.data, remote);
+      data = result.data;
+      conflicts = result.conflicts;
+    }
+
+    // The resolved payload now builds on the remote one
+    this.baseRevision = { noteId: base.noteId, data: deepClone(remote) };
+
+    await this.cleanupCurrentPlugin();
     this.state.data = data;
     await this.switchMode(data.mode || 'text');
+    this.markDirty();
+    await this.saveData();
+
+    if (conflicts > 0) {
+      this.showNotification({
+        type: 'warning',
+        message: this.i18n.t('notify.merged', { count: conflicts }),
+        duration: 5000
+      });
+    }
+  }
+
+  /**
+   * Record that local state has unsaved changes
+   */
+  private markDirty(): void {
+    this.changeCount++;
+    this.state.isDirty = true;
+    this.updateSaveStatus();
+  }
+
+  /**
+   * Load note data from Standard Notes, in its stored mode unless another
+   * is given
+   */
+  private async loadNoteData(result: NoteLoadResult, mode?: EditorMode): Promise<void> {
+    this.pendingRemote = null;
+    this.conflictDialog?.close();
+
+    if (result.status === 'quarantined') {
+      await this.quarantineNote(result.quarantine);
+      return;
+    }
+
+    this.releaseQuarantine();
+    this.state.pluginFailure = null;
+
+    // Drop the previous note's plugin without copying its content over
+    await this.cleanupCurrentPlugin();
+    this.history.clear();
+
+    this.state.data = result.data;
+    this.state.isDirty = false;
+    this.updateSaveStatus();
+    this.baseRevision = {
+      noteId: this.noteId,
+      data: deepClone(result.data)
+    };
+    await this.switchMode(mode || result.data.mode || 'text');
+  }
+
+  /**
+   * Undo the last change, switching mode if the snapshot belongs to another
+   */
+  public async undo(): Promise<void> {
+    if (this.state.readOnly) return;
+    await this.applyHistoryEntry(this.history.undo());
+  }
+
+  /**
+   * Redo the last undone change
+   */
+  public async redo(): Promise<void> {
+    if (this.state.readOnly) return;
+    await this.applyHistoryEntry(this.history.redo());
+  }
+
+  /**
+   * Restore a history snapshot into state and the active plugin
+   */
+  private async applyHistoryEntry(entry: HistoryEntry | null): Promise<void> {
+    if (!entry || this.state.quarantine) return;
+
+    this.isApplyingHistory = true;
+    try {
+      const pluginData: PluginData = { type: entry.mode, content: entry.content };
+      this.updateContent(pluginData);
+
+      if (entry.mode !== this.state.currentMode || !this.state.activePlugin) {
+        // switchMode restores the plugin from the updated contents
+        await this.switchMode(entry.mode);
+      } else {
+        const plugin = this.state.activePlugin;
+        await guardPluginCall(entry.mode, 'setData', () => plugin.setData(pluginData));
+      }
+
+      this.markDirty();
+      if (this.state.config.autoSave) {
+        this.autoSaveHandler();
+      }
+    } catch (error) {
+      if (!(error instanceof PluginError)) throw error;
+      await this.failPlugin(error);
+    } finally {
+      this.isApplyingHistory = false;
+      this.updateHistoryButtons();
+    }
+  }
+
+  /**
+   * Show an unreadable payload read-only and block saving over it
+   */
+  private async quarantineNote(info: QuarantineInfo): Promise<void> {
+    await this.cleanupCurrentPlugin();
+    this.pluginManager.unloadAll();
+    this.state.quarantine = info;
+
+    // Nothing of the previous note may be read, exported or saved as this one
+    this.state.data = this.getDefaultData();
+    this.state.isDirty = false;
+    this.baseRevision = null;
+    this.updateReadOnly();
+    this.history.clear();
+    this.updateHistoryButtons();
+    this.setModeSelectorDisabled(true);
+    this.renderQuarantinePanel(info);
+
+    this.showNotification({
+      type: 'warning',
+      message: this.i18n.t('notify.quarantined'),
+      duration: 5000
+    });
+  }
+
+  /**
+   * Leave quarantine once a readable payload is loaded
+   */
+  private releaseQuarantine(): void {
+    if (!this.state.quarantine) return;
+
+    this.state.quarantine = null;
+    this.setModeSelectorDisabled(false);
+    this.getPluginContainer().innerHTML = '';
+    this.updateReadOnly();
+  }
+
+  /**
+   * Render the read-only quarantine panel
+   */
+  private renderQuarantinePanel(info: QuarantineInfo): void {
+    const container = this.getPluginContainer();
+    container.innerHTML = `
+      <div class="quarantine-panel">
+        <h2 class="quarantine-title">${this.i18n.t('quarantine.title')}</h2>
+        <p class="quarantine-reason"></p>
+        <ul class="quarantine-errors"></ul>
+        <pre class="quarantine-raw"></pre>
+      </div>
+    `;
+
+    // Use textContent so stored content is never interpreted as HTML
+    container.querySelector('.quarantine-reason')!.textContent =
+      this.i18n.t('quarantine.reason', { reason: info.reason });
+
+    const errorList = container.querySelector('.quarantine-errors')!;
+    (info.errors || []).forEach((error) => {
+      const item = document.createElement('li');
+      item.textContent = error.message;
+      errorList.appendChild(item);
+    });
+
+    container.querySelector('.quarantine-raw')!.textContent =
+      typeof info.raw === 'string' ? info.raw : JSON.stringify(info.raw, null, 2);
   }
 
   /**
    * Update content in state
+   *
+   * Content is stored per mode, so writing one mode's content never
+   * replaces what another mode holds.
+   */
+  private updateContent(pluginData: PluginData): void {
+    const mode = pluginData.content.type;
+    const existing = this.state.data.contents[mode];
+    if (existing && JSON.stringify(existing.content) === JSON.stringify(pluginData.content)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.state.data.contents[mode] = {
+      content: pluginData.content,
+      created: existing?.created ?? now,
+      modified: now
+    };
+  }
+
+  /**
+   * Hide the active plugin, keeping it loaded for a later switch back
+   */
+  private suspendCurrentPlugin(): void {
+    this.pluginCommandDisposers.forEach((dispose) => dispose());
+    this.pluginCommandDisposers = [];
+
+    if (this.state.activePlugin) {
+      const mode = this.state.currentMode;
+      this.pluginManager.suspend(mode, this.state.data.contents[mode]?.content ?? null);
+      this.state.activePlugin = null;
+      this.updatePresentButton();
+    }
+  }
+
+  /**
+   * Record how the active mode is scrolled, to return to it when the mode
+   * or note is shown again
+   */
+  private rememberView(): void {
+    const plugin = this.state.activePlugin;
+    if (!plugin) return;
+
+    let pluginView: PluginViewState | undefined;
+    try {
+      pluginView = plugin.getViewState?.();
+    } catch (error) {
+      // Losing the scroll position is no reason to fail the plugin
+      console.warn('Could not read the view state:', error);
+    }
+    this.viewStates.remember(this.noteId, this.state.currentMode, {
+      scrollTop: this.getPluginContainer().scrollTop,
+      plugin: pluginView
+    });
+  }
+
+  /**
+   * Scroll a newly shown mode back to where it was in this note, or to
+   * the top if it has not been viewed yet
+   */
+  private restoreView(mode: EditorMode, plugin: BasePlugin): void {
+    const view = this.viewStates.getMode(this.noteId, mode);
+    this.getPluginContainer().scrollTop = view?.scrollTop ?? 0;
+    if (!view?.plugin || !plugin.setViewState) return;
+
+    try {
+      plugin.setViewState(view.plugin);
+    } catch (error) {
+      console.warn('Could not restore the view state:', error);
+    }
+  }
+
+  /**
+   * Remove a recovery or quarantine panel left in the plugin container
    */
-  private updateContent(pluginData: any): void {
-    this.state.data.content = pluginData.content;
+  private clearPluginPanels(): void {
+    this.getPluginContainer()
+      .querySelectorAll(':scope > .recovery-panel, :scope > .quarantine-panel')
+      .forEach((panel) => panel.remove());
   }
 
   /**
-   * Cleanup current plugin
+   * Destroy the active plugin, e.g. before its content is replaced
    */
   private async cleanupCurrentPlugin(): Promise<void> {
+    this.pluginCommandDisposers.forEach((dispose) => dispose());
+    this.pluginCommandDisposers = [];
+
     if (this.state.activePlugin) {
+      this.rememberView();
       try {
-        this.state.activePlugin.destroy();
+        this.pluginManager.unloadPlugin(this.state.currentMode);
       } catch (error) {
         console.error('Error cleaning up plugin:', error);
       }
       this.state.activePlugin = null;
+      this.updatePresentButton();
     }
   }
 
@@ -230,23 +1185,99 @@ export class EditorCore {
    * Render the UI
    */
   private renderUI(): void {
+    const t = (key: string, params?: Record<string, string>) => this.i18n.t(key, params);
     this.container.innerHTML = `
-      <div class="enhanced-editor">
+      <div class="enhanced-editor" lang="${this.i18n.locale}">
         <div class="editor-toolbar">
-          <div class="mode-selector">
-            <button class="mode-btn" data-mode="text">Text</button>
-            <button class="mode-btn" data-mode="mermaid">Mermaid</button>
-            <button class="mode-btn" data-mode="excalidraw">Excalidraw</button>
-          </div>
+          <div class="mode-selector" role="tablist" aria-label="${t('toolbar.modes')}"></div>
           <div class="editor-actions">
-            <button class="save-btn">Save</button>
+            <button
+              class="palette-btn"
+              title="${t('toolbar.commandsTitle', { keybinding: formatKeybinding('Mod+Shift+P') })}"
+            >${t('toolbar.commands')}</button>
+            <button
+              class="history-btn undo-btn"
+              title="${t('toolbar.undoTitle', { keybinding: formatKeybinding('Mod+Z') })}"
+              disabled
+            >${t('toolbar.undo')}</button>
+            <button
+              class="history-btn redo-btn"
+              title="${t('toolbar.redoTitle', { keybinding: formatKeybinding('Mod+Shift+Z') })}"
+              disabled
+            >${t('toolbar.redo')}</button>
+            <span class="save-status" data-status="saved" role="status" aria-live="polite" aria-atomic="true">${t('status.saved')}</span>
+            <button class="revisions-btn" title="${t('toolbar.revisionsTitle')}">${t('toolbar.revisions')}</button>
+            <button class="readonly-btn" title="${t('toolbar.readOnly')}" aria-pressed="false">${t('toolbar.readOnly')}</button>
+            <button class="present-btn" title="${t('toolbar.presentTitle')}">${t('toolbar.present')}</button>
+            <button class="preferences-btn" title="${t('toolbar.preferences')}">${t('toolbar.preferences')}</button>
+            <button class="save-btn">${t('toolbar.save')}</button>
           </div>
         </div>
-        <div class="editor-content" id="plugin-container"></div>
+        <div class="editor-content" id="plugin-container" role="tabpanel" tabindex="-1"></div>
+        <aside class="revision-panel" id="revision-panel" hidden></aside>
         <div class="editor-notifications" id="notifications"></div>
       </div>
     `;
 
+    this.revisionTimeline = new RevisionTimeline(
+      this.container.querySelector('#revision-panel') as HTMLElement,
+      {
+        onRestore: (revision) => this.restoreRevision(revision),
+        getCurrentContent: (mode) => {
+          // A plugin that fails here is replaced by the recovery panel and
+          // state keeps the last content it reported
+          this.syncFromPlugin();
+          return this.state.data.contents[mode]?.content;
+        }
+      },
+      this.i18n
+    );
+
+    if (this.telemetry.enabled) {
+      this.diagnosticsPanel = new DiagnosticsPanel(
+        this.container.querySelector('.enhanced-editor') as HTMLElement,
+        this.telemetry,
+        this.i18n
+      );
+    }
+
+    this.preferencesPanel = new PreferencesPanel(
+      this.container.querySelector('.enhanced-editor') as HTMLElement,
+      this.preferences,
+      this.i18n
+    );
+
+    this.presentationView = new PresentationView(
+      this.container.querySelector('.enhanced-editor') as HTMLElement,
+      this.i18n
+    );
+
+    this.commandPalette = new CommandPalette(
+      this.container.querySelector('.enhanced-editor') as HTMLElement,
+      this.commands,
+      this.i18n
+    );
+    this.commands.onChange(() => this.commandPalette?.refresh());
+    this.registerCoreCommands();
+    this.renderModeSelector();
+    this.registerModeCommands();
+    this.registryDisposer = pluginRegistry.onChange(() => this.handleRegistryChange());
+
+    this.notifications = new NotificationCenter(
+      this.container.querySelector('#notifications') as HTMLElement,
+      this.i18n
+    );
+
+    this.conflictDialog = new ConflictDialog(
+      this.container.querySelector('.enhanced-editor') as HTMLElement,
+      {
+        onKeepLocal: () => this.resolveConflict('local'),
+        onUseRemote: () => this.resolveConflict('remote'),
+        onMerge: () => this.resolveConflict('merge')
+      },
+      this.i18n
+    );
+
     // Attach event listeners
     this.attachEventListeners();
   }
@@ -255,13 +1286,16 @@ export class EditorCore {
    * Attach event listeners
    */
   private attachEventListeners(): void {
-    // Mode selector buttons
-    const modeButtons = this.container.querySelectorAll('.mode-btn');
-    modeButtons.forEach((btn) => {
-      btn.addEventListener('click', () => {
-        const mode = btn.getAttribute('data-mode') as EditorMode;
-        this.switchMode(mode);
-      });
+    // Mode selector buttons, which are re-rendered as modes are registered
+    const modeSelector = this.container.querySelector('.mode-selector');
+    modeSelector?.addEventListener('click', (event) => {
+      const btn = (event.target as HTMLElement).closest('.mode-btn');
+      if (btn) {
+        this.switchMode(btn.getAttribute('data-mode') as EditorMode);
+      }
+    });
+    modeSelector?.addEventListener('keydown', (event) => {
+      this.handleModeSelectorKeydown(event as KeyboardEvent);
     });
 
     // Save button
@@ -271,20 +1305,419 @@ export class EditorCore {
         this.saveData();
       });
     }
+
+    // Command palette button
+    this.container.querySelector('.palette-btn')?.addEventListener('click', () => {
+      this.commandPalette?.open();
+    });
+
+    // Preferences button
+    this.container.querySelector('.preferences-btn')?.addEventListener('click', () => {
+      this.preferencesPanel?.open();
+    });
+
+    // Read-only and presentation buttons
+    this.container.querySelector('.readonly-btn')?.addEventListener('click', () => {
+      this.setReadOnly(!this.manualReadOnly);
+    });
+    this.container.querySelector('.present-btn')?.addEventListener('click', () => {
+      this.present();
+    });
+
+    // Revisions button
+    this.container.querySelector('.revisions-btn')?.addEventListener('click', () => {
+      this.toggleRevisionTimeline();
+    });
+
+    // Undo/redo buttons
+    this.container.querySelector('.undo-btn')?.addEventListener('click', () => {
+      this.undo();
+    });
+    this.container.querySelector('.redo-btn')?.addEventListener('click', () => {
+      this.redo();
+    });
+
+    // Undo/redo shortcuts replace the textareas' per-element undo
+    // Keybindings are handled in the capture phase so they work in every
+    // mode, before plugins see the event
+    this.keydownHandler = (event: KeyboardEvent) => this.handleKeydown(event);
+    this.container.addEventListener('keydown', this.keydownHandler, true);
+  }
+
+  /**
+   * Dispatch keybindings to the command registry
+   */
+  private handleKeydown(event: KeyboardEvent): void {
+    if (this.commandPalette?.isOpen()) {
+      // Only the palette toggle is active while the palette has focus
+      const toggle = this.commands.getKeybinding('editor.commandPalette');
+      if (toggle && keybindingFromEvent(event) === toggle) {
+        event.preventDefault();
+        this.commandPalette.close();
+      }
+      return;
+    }
+
+    this.commands.handleKeydown(event);
+  }
+
+  /**
+   * Choose light, dark, or 'auto' to follow the host and system theme
+   */
+  public setThemePreference(preference: ThemePreference): void {
+    this.preferences.update({ theme: preference });
+  }
+
+  /**
+   * Turn read-only on or off. A note locked in Standard Notes stays
+   * read-only regardless.
+   */
+  public setReadOnly(readOnly: boolean): void {
+    this.manualReadOnly = readOnly;
+    this.updateReadOnly();
+  }
+
+  public isReadOnly(): boolean {
+    return this.state.readOnly;
+  }
+
+  /**
+   * Show the active mode's diagrams or frames full screen
+   */
+  public async present(): Promise<void> {
+    const plugin = this.state.activePlugin;
+    if (!plugin?.getPresentationSlides) return;
+
+    try {
+      const slides = await plugin.getPresentationSlides();
+      if (!slides.length) {
+        this.showNotification({ id: 'present', type: 'info', message: this.i18n.t('notify.nothingToPresent'), duration: 3000 });
+        return;
+      }
+      this.presentationView?.open(slides);
+    } catch (error) {
+      this.handleError(error as Error, {
+        component: 'EditorCore',
+        operation: 'present',
+        critical: false
+      });
+    }
+  }
+
+  private setHostLocked(locked: boolean): void {
+    if (locked === this.hostLocked) return;
+
+    this.hostLocked = locked;
+    this.updateReadOnly();
+  }
+
+  /**
+   * Apply the combined host and user read-only state
+   */
+  private updateReadOnly(): void {
+    // A quarantined note stays read-only until a readable payload replaces it
+    const readOnly = this.hostLocked || this.manualReadOnly || !!this.state.quarantine;
+    const changed = readOnly !== this.state.readOnly;
+    this.state.readOnly = readOnly;
+
+    if (readOnly) {
+      this.autoSaveHandler.cancel();
+    } else if (changed && this.state.isDirty && this.state.config.autoSave) {
+      this.autoSaveHandler();
+    }
+    this.state.activePlugin?.setReadOnly?.(readOnly);
+
+    const button = this.container.querySelector<HTMLButtonElement>('.readonly-btn');
+    if (button) {
+      button.setAttribute('aria-pressed', String(readOnly));
+      button.disabled = this.hostLocked || !!this.state.quarantine;
+      button.title = this.i18n.t(this.hostLocked ? 'toolbar.readOnlyLocked' : 'toolbar.readOnly');
+    }
+    const saveBtn = this.container.querySelector<HTMLButtonElement>('.save-btn');
+    if (saveBtn) saveBtn.disabled = readOnly;
+    this.updateHistoryButtons();
+    this.updateSaveStatus();
+
+    if (changed) {
+      this.events.emit('readOnlyChanged', { readOnly, locked: this.hostLocked });
+    }
+  }
+
+  /**
+   * Show the present button only for modes that can present
+   */
+  private updatePresentButton(): void {
+    const button = this.container.querySelector<HTMLButtonElement>('.present-btn');
+    if (button) button.hidden = !this.state.activePlugin?.getPresentationSlides;
+  }
+
+  /**
+   * Apply preferences live, without reloading the note
+   */
+  private applyPreferences(preferences: EditorPreferences): void {
+    if (preferences.autoSaveDelay !== this.state.config.autoSaveDelay) {
+      this.state.config.autoSaveDelay = preferences.autoSaveDelay;
+      this.autoSaveHandler.cancel();
+      this.autoSaveHandler = debounce(() => this.saveData(), preferences.autoSaveDelay);
+      if (this.state.isDirty && this.state.config.autoSave) {
+        this.autoSaveHandler();
+      }
+    }
+
+    this.state.config.theme = preferences.theme;
+    this.themeManager.setPreference(preferences.theme);
+    this.commands.setOverrides(preferences.keybindings);
+    this.state.activePlugin?.setPreferences?.(preferences);
+    this.preferencesPanel?.refresh();
+  }
+
+  /**
+   * Apply the resolved theme to the editor chrome and the active plugin
+   */
+  private applyTheme(theme: ResolvedTheme): void {
+    const changed = theme !== this.state.theme;
+    this.state.theme = theme;
+    document.documentElement.setAttribute('data-theme', theme);
+    this.state.activePlugin?.setTheme?.(theme);
+
+    if (changed) {
+      this.events.emit('themeChanged', { theme });
+    }
+  }
+
+  /**
+   * Register the commands provided by the editor itself
+   */
+  private registerCoreCommands(): void {
+    // Excalidraw keeps its own history inside the canvas
+    const outsideExcalidraw = (event?: KeyboardEvent) =>
+      !(event?.target as HTMLElement | null)?.closest?.('.excalidraw-container');
+    const t = (key: string) => this.i18n.t(key);
+    const category = t('command.category');
+
+    this.commands.register({
+      id: 'editor.commandPalette',
+      title: t('command.palette'),
+      category,
+      keybinding: 'Mod+Shift+P',
+      run: () => this.commandPalette?.toggle()
+    });
+    this.commands.register({
+      id: 'editor.save',
+      title: t('command.save'),
+      category,
+      keybinding: 'Mod+S',
+      run: () => this.saveData()
+    });
+    this.commands.register({
+      id: 'editor.undo',
+      title: t('command.undo'),
+      category,
+      keybinding: 'Mod+Z',
+      when: outsideExcalidraw,
+      run: () => this.undo()
+    });
+    this.commands.register({
+      id: 'editor.redo',
+      title: t('command.redo'),
+      category,
+      keybinding: 'Mod+Shift+Z',
+      when: outsideExcalidraw,
+      run: () => this.redo()
+    });
+    this.commands.register({
+      id: 'editor.showPreferences',
+      title: t('command.preferences'),
+      category,
+      keybinding: 'Mod+,',
+      run: () => this.preferencesPanel?.open()
+    });
+    this.commands.register({
+      id: 'editor.toggleReadOnly',
+      title: t('command.toggleReadOnly'),
+      category,
+      when: () => !this.hostLocked,
+      run: () => this.setReadOnly(!this.manualReadOnly)
+    });
+    this.commands.register({
+      id: 'editor.present',
+      title: t('command.present'),
+      category,
+      when: () => !!this.state.activePlugin?.getPresentationSlides,
+      run: () => this.present()
+    });
+    this.commands.register({
+      id: 'editor.toggleRevisions',
+      title: t('command.revisions'),
+      category,
+      run: () => this.toggleRevisionTimeline()
+    });
+
+    if (this.diagnosticsPanel) {
+      this.commands.register({
+        id: 'editor.showDiagnostics',
+        title: t('command.diagnostics'),
+        category,
+        run: () => this.diagnosticsPanel?.open()
+      });
+    }
+
+    const themes: ThemePreference[] = ['auto', 'light', 'dark'];
+    themes.forEach((preference) => {
+      this.commands.register({
+        id: `editor.theme.${preference}`,
+        title: t(`command.theme.${preference}`),
+        category,
+        run: () => this.setThemePreference(preference)
+      });
+    });
+  }
+
+  /**
+   * Sync undo/redo button state with the history stack
+   */
+  private updateHistoryButtons(): void {
+    const undoBtn = this.container.querySelector<HTMLButtonElement>('.undo-btn');
+    const redoBtn = this.container.querySelector<HTMLButtonElement>('.redo-btn');
+    const locked = !!this.state.quarantine || this.state.readOnly;
+    if (undoBtn) undoBtn.disabled = !this.history.canUndo() || locked;
+    if (redoBtn) redoBtn.disabled = !this.history.canRedo() || locked;
+  }
+
+  /**
+   * Give every registered mode its label, and any messages it ships, in
+   * the editor's catalogs
+   */
+  private registerModeMessages(): void {
+    pluginRegistry.list().forEach((descriptor) => {
+      this.i18n.register('en', { [`mode.${descriptor.id}`]: descriptor.label });
+      if (descriptor.messages) {
+        registerBundles(this.i18n, descriptor.messages);
+      }
+    });
   }
 
   /**
-   * Update mode selector UI
+   * Offer modes registered or removed after the editor was created
+   */
+  private handleRegistryChange(): void {
+    this.registerModeMessages();
+    this.renderModeSelector();
+    this.registerModeCommands();
+  }
+
+  /**
+   * Render one tab per registered mode
+   */
+  private renderModeSelector(): void {
+    const selector = this.container.querySelector('.mode-selector');
+    if (!selector) return;
+
+    selector.innerHTML = pluginRegistry.list().map((descriptor) => `
+      <button
+        class="mode-btn"
+        id="mode-tab-${descriptor.id}"
+        data-mode="${descriptor.id}"
+        role="tab"
+        aria-selected="false"
+        aria-controls="plugin-container"
+        tabindex="-1"
+      >${descriptor.icon ? `<span class="mode-icon" aria-hidden="true">${descriptor.icon}</span>` : ''}${
+        this.modeLabel(descriptor.id)
+      }</button>
+    `).join('');
+
+    this.updateModeSelector();
+    this.setModeSelectorDisabled(!!this.state.quarantine);
+  }
+
+  /**
+   * A switch command per registered mode; the first nine get Mod+Alt+<n>
+   */
+  private registerModeCommands(): void {
+    this.modeCommandDisposers.forEach((dispose) => dispose());
+    this.modeCommandDisposers = pluginRegistry.getModes().map((mode, index) =>
+      this.commands.register({
+        id: `editor.switchMode.${mode}`,
+        title: this.i18n.t('command.switchMode', { mode: this.modeLabel(mode) }),
+        category: this.i18n.t('command.category'),
+        keybinding: index < 9 ? `Mod+Alt+${index + 1}` : undefined,
+        when: () => !this.state.quarantine,
+        run: () => this.switchMode(mode)
+      })
+    );
+  }
+
+  /**
+   * Update mode selector UI. Only the selected tab is in the tab order;
+   * arrow keys move between the others.
    */
   private updateModeSelector(): void {
     const modeButtons = this.container.querySelectorAll('.mode-btn');
     modeButtons.forEach((btn) => {
-      const mode = btn.getAttribute('data-mode');
-      if (mode === this.state.currentMode) {
-        btn.classList.add('active');
-      } else {
-        btn.classList.remove('active');
-      }
+      const selected = btn.getAttribute('data-mode') === this.state.currentMode;
+      btn.classList.toggle('active', selected);
+      btn.setAttribute('aria-selected', String(selected));
+      btn.setAttribute('tabindex', selected ? '0' : '-1');
+    });
+
+    this.container.querySelector('#plugin-container')
+      ?.setAttribute('aria-labelledby', `mode-tab-${this.state.currentMode}`);
+  }
+
+  /**
+   * Arrow, Home and End keys move focus between mode tabs; Enter or Space
+   * switches, as loading a mode can take a moment
+   */
+  private handleModeSelectorKeydown(event: KeyboardEvent): void {
+    const tabs = Array.from(this.container.querySelectorAll<HTMLButtonElement>('.mode-btn'))
+      .filter((tab) => !tab.disabled);
+    const index = tabs.indexOf(document.activeElement as HTMLButtonElement);
+    if (index === -1) return;
+
+    let next: number;
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        next = (index + 1) % tabs.length;
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        next = (index - 1 + tabs.length) % tabs.length;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = tabs.length - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    tabs[next].focus();
+  }
+
+  /**
+   * Move focus into the active plugin's editing surface
+   */
+  private focusPluginContent(): void {
+    const container = this.getPluginContainer().querySelector<HTMLElement>('.plugin-host:not([hidden])')
+      || this.getPluginContainer();
+    const target = container.querySelector<HTMLElement>('textarea:not([readonly]), [contenteditable="true"]')
+      || getFocusableElements(container)[0]
+      || container;
+    target.focus();
+  }
+
+  /**
+   * Enable or disable the mode selector buttons
+   */
+  private setModeSelectorDisabled(disabled: boolean): void {
+    const modeButtons = this.container.querySelectorAll<HTMLButtonElement>('.mode-btn');
+    modeButtons.forEach((btn) => {
+      btn.disabled = disabled;
     });
   }
 
@@ -303,19 +1736,7 @@ export class EditorCore {
    * Show notification to user
    */
   private showNotification(options: NotificationOptions): void {
-    const notificationContainer = this.container.querySelector('#notifications');
-    if (!notificationContainer) return;
-
-    const notification = document.createElement('div');
-    notification.className = `notification notification-${options.type}`;
-    notification.textContent = options.message;
-
-    notificationContainer.appendChild(notification);
-
-    const duration = options.duration || 3000;
-    setTimeout(() => {
-      notification.remove();
-    }, duration);
+    this.notifications?.show(options);
   }
 
   /**
@@ -323,63 +1744,103 @@ export class EditorCore {
    */
   private handleError(error: Error, context: ErrorContext): void {
     console.error(`[${context.component}] ${error.message}`, error);
+    this.events.emit('error', { error, context });
 
     const userMessage = this.getUserFriendlyMessage(error);
     this.showNotification({
+      id: `error:${context.operation}`,
       type: 'error',
       message: userMessage,
-      action: context.critical ? undefined : {
-        label: 'Retry',
-        handler: () => {
-          // Retry logic based on operation
-        }
+      details: `${context.component}.${context.operation}: ${error.message}`,
+      action: context.critical || !context.retry ? undefined : {
+        label: this.i18n.t('notify.retry'),
+        handler: context.retry
       }
     });
 
-    if (context.critical) {
-      // Fallback to text mode on critical errors
-      this.switchMode('text');
-    }
   }
 
   /**
    * Get user-friendly error message
    */
   private getUserFriendlyMessage(error: Error): string {
+    if (error instanceof PluginError) {
+      const key = error.operation === 'load' ? 'error.pluginLoad' : 'error.pluginRun';
+      return this.i18n.t(key, { mode: this.modeLabel(error.mode) });
+    }
+
     // Map technical errors to user-friendly messages
     const errorMessages: Record<string, string> = {
-      'Plugin load failed': 'Failed to load editor plugin',
-      'Network error': 'Connection issue, please try again',
-      'Invalid data': 'Unable to load note data'
+      'Plugin load failed': 'error.loadFailed',
+      'Network error': 'error.network',
+      'Invalid data': 'error.invalidData'
     };
 
-    return errorMessages[error.message] || 'An error occurred';
+    return this.i18n.t(errorMessages[error.message] || 'error.generic');
+  }
+
+  private modeLabel(mode: EditorMode): string {
+    return this.i18n.t(`mode.${mode}`);
   }
 
   /**
    * Get default editor data
    */
-  private getDefaultData(): EditorData {
+  private getDefaultData(mode: EditorMode = 'text'): EditorData {
+    const now = Date.now();
     return {
-      mode: 'text',
-      content: {
-        type: 'text',
-        text: ''
+      mode,
+      contents: {
+        text: {
+          content: {
+            type: 'text',
+            text: ''
+          },
+          created: now,
+          modified: now
+        }
       },
       metadata: {
-        version: '1.0.0',
-        lastMode: 'text',
-        created: Date.now(),
-        modified: Date.now()
+        version: CURRENT_DATA_VERSION,
+        lastMode: mode,
+        created: now,
+        modified: now
       }
     };
   }
 
   /**
-   * Destroy the editor
+   * Destroy the editor, removing its DOM and every listener it registered.
+   * Unsaved edits are queued first, so they stay persisted for the next
+   * session with any other unsent saves.
    */
   public destroy(): void {
+    this.leaveNote();
+    this.events.removeAllListeners();
+    this.registryDisposer?.();
+    this.registryDisposer = null;
+
+    if (this.keydownHandler) {
+      this.container.removeEventListener('keydown', this.keydownHandler, true);
+      this.keydownHandler = null;
+    }
+    this.commandPalette?.close();
+    this.commands.destroy();
+    this.themeManager.destroy();
+    this.history.clear();
+    this.viewStates.clear();
+    this.revisionTimeline?.close();
+    this.conflictDialog?.close();
+    this.notifications?.destroy();
+    this.diagnosticsPanel?.close();
+    this.preferencesPanel?.close();
+    this.presentationView?.close();
+    this.saveQueue.destroy();
+    this.revisionStore.destroy();
     this.cleanupCurrentPlugin();
+    this.pluginManager.unloadAll();
     this.componentRelay.destroy();
+    this.container.innerHTML = '';
+    document.documentElement.removeAttribute('data-theme');
   }
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * EventEmitter - Minimal typed event emitter
+ */
+
+type Listener<T> = (payload: T) => void;
+
+/** A `once` wrapper remembers the listener it calls, so `off` can find it */
+type OnceWrapper<T> = Listener<T> & { listener?: Listener<T> };
+
+export class EventEmitter<Events extends object> {
+  private listeners: Map<keyof Events, Set<Listener<any>>> = new Map();
+
+  /**
+   * Subscribe to an event, returning a function that unsubscribes
+   */
+  public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  public once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const wrapper: OnceWrapper<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    wrapper.listener = listener;
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Unsubscribe a listener added with `on` or `once`
+   */
+  public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    listeners.forEach((registered: OnceWrapper<Events[K]>) => {
+      if (registered === listener || registered.listener === listener) {
+        listeners.delete(registered);
+      }
+    });
+  }
+
+  /**
+   * Call every listener for an event. A throwing listener is logged and
+   * does not stop the others.
+   */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    [...listeners].forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Remove the listeners for one event, or for every event
+   */
+  public removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * HistoryManager - Snapshot-based undo/redo across editor modes
+ */
+
+import type { ContentData, EditorMode, PluginData } from './types';
+
+export interface HistoryEntry {
+  mode: EditorMode;
+  content: ContentData;
+  timestamp: number;
+  /** Checkpoints are never merged into by later edits */
+  checkpoint: boolean;
+}
+
+export interface HistoryOptions {
+  limit: number;
+  coalesceWindow: number;
+}
+
+export class HistoryManager {
+  private entries: HistoryEntry[] = [];
+  private index: number = -1;
+  private options: HistoryOptions;
+
+  constructor(options?: Partial<HistoryOptions>) {
+    this.options = {
+      limit: 100,
+      coalesceWindow: 1000,
+      ...options
+    };
+  }
+
+  /**
+   * Record a snapshot after an edit.
+   *
+   * Edits in the same mode that arrive within the coalesce window replace
+   * the newest snapshot instead of adding a new one.
+   */
+  public record(data: PluginData, checkpoint: boolean = false): void {
+    const current = this.entries[this.index];
+    if (current && current.mode === data.type && this.isSameSnapshot(current.content, data.content)) {
+      return;
+    }
+
+    const now = Date.now();
+    const entry: HistoryEntry = {
+      mode: data.type,
+      content: data.content,
+      timestamp: now,
+      checkpoint
+    };
+
+    // Any new edit discards the redo branch
+    const isAtTop = this.index === this.entries.length - 1;
+    this.entries = this.entries.slice(0, this.index + 1);
+
+    const canCoalesce = !checkpoint &&
+      isAtTop &&
+      current &&
+      !current.checkpoint &&
+      current.mode === data.type &&
+      now - current.timestamp < this.options.coalesceWindow;
+
+    if (canCoalesce) {
+      this.entries[this.index] = entry;
+      return;
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > this.options.limit) {
+      this.entries.shift();
+    }
+    this.index = this.entries.length - 1;
+  }
+
+  /**
+   * Step back to the previous snapshot
+   */
+  public undo(): HistoryEntry | null {
+    if (!this.canUndo()) return null;
+    this.index--;
+    return this.markApplied(this.entries[this.index]);
+  }
+
+  /**
+   * Step forward to the next snapshot
+   */
+  public redo(): HistoryEntry | null {
+    if (!this.canRedo()) return null;
+    this.index++;
+    return this.markApplied(this.entries[this.index]);
+  }
+
+  public canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  /**
+   * Drop all history, e.g. when another note is loaded
+   */
+  public clear(): void {
+    this.entries = [];
+    this.index = -1;
+  }
+
+  /**
+   * An applied snapshot becomes a checkpoint so the next edit starts a new
+   * entry rather than rewriting the one we just returned to
+   */
+  private markApplied(entry: HistoryEntry): HistoryEntry {
+    entry.checkpoint = true;
+    return entry;
+  }
+
+  /**
+   * Compare snapshots. Excalidraw scenes are compared by element id and
+   * version only, since appState changes on every pointer move.
+   */
+  private isSameSnapshot(a: ContentData, b: ContentData): boolean {
+    return this.snapshotKey(a) === this.snapshotKey(b);
+  }
+
+  private snapshotKey(content: ContentData): string {
+    switch (content.type) {
+      case 'excalidraw':
+        return content.elements.map((element) => `${element.id}:${element.version}`).join(',');
+      case 'document':
+        return content.blocks
+          .map((block) => `${block.id}=${this.snapshotKey(block.content)}`)
+          .join('|');
+      default:
+        return JSON.stringify(content);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * NotificationCenter - Stacked, de-duplicated notifications announced to
+ * screen readers
+ */
+
+import type { NotificationOptions, Translator } from './types';
+
+const DEFAULT_DURATION = 3000;
+
+interface NotificationEntry {
+  id: string;
+  element: HTMLElement;
+  persistent: boolean;
+  count: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class NotificationCenter {
+  private host: HTMLElement;
+  private maxVisible: number;
+  private translator: Translator;
+  private entries: Map<string, NotificationEntry> = new Map();
+  /** Shown once a slot frees up, when every slot holds a persistent error */
+  private queue: Array<NotificationOptions & { id: string }> = [];
+
+  constructor(host: HTMLElement, translator: Translator, maxVisible: number = 3) {
+    this.host = host;
+    this.translator = translator;
+    this.maxVisible = maxVisible;
+
+    this.host.setAttribute('role', 'region');
+    this.host.setAttribute('aria-label', translator.t('notifications.label'));
+    this.host.setAttribute('aria-live', 'polite');
+  }
+
+  /**
+   * Show a notification and return its id.
+   *
+   * Notifications with the same id (by default, the same type and message)
+   * replace each other instead of stacking. Errors stay until dismissed
+   * unless `persistent` is set to false.
+   */
+  public show(options: NotificationOptions): string {
+    const id = options.id || `${options.type}:${options.message}`;
+    const persistent = options.persistent ?? options.type === 'error';
+    const previous = this.entries.get(id);
+
+    // Errors are never pushed out to make room, so wait for a slot
+    if (!previous && this.entries.size >= this.maxVisible &&
+        [...this.entries.values()].every((entry) => entry.persistent)) {
+      this.queue = this.queue.filter((queued) => queued.id !== id);
+      this.queue.push({ ...options, id });
+      return id;
+    }
+
+    // Repeats of a persistent message bump a counter; transient ones such
+    // as "Saved" just restart their timer
+    const count = persistent && previous && previous.element.dataset.message === options.message
+      ? previous.count + 1
+      : 1;
+
+    const entry: NotificationEntry = {
+      id,
+      element: this.createElement(id, options, count),
+      persistent,
+      count,
+      timer: null
+    };
+
+    // A replacement moves to the newest position
+    if (previous) {
+      this.remove(id);
+    }
+    this.host.appendChild(entry.element);
+    this.entries.set(id, entry);
+
+    if (!persistent) {
+      entry.timer = setTimeout(() => this.dismiss(id), options.duration || DEFAULT_DURATION);
+    }
+
+    this.enforceLimit();
+    return id;
+  }
+
+  /**
+   * Remove a notification by id, showing the next queued one in its place
+   */
+  public dismiss(id: string): void {
+    this.queue = this.queue.filter((queued) => queued.id !== id);
+    this.remove(id);
+
+    if (this.queue.length > 0 && this.entries.size < this.maxVisible) {
+      this.show(this.queue.shift()!);
+    }
+  }
+
+  private remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.clearTimer(entry);
+    entry.element.remove();
+    this.entries.delete(id);
+  }
+
+  /**
+   * Remove every notification, including queued ones
+   */
+  public clear(): void {
+    this.queue = [];
+    [...this.entries.keys()].forEach((id) => this.remove(id));
+  }
+
+  /**
+   * Build the DOM for a notification
+   */
+  private createElement(id: string, options: NotificationOptions, count: number): HTMLElement {
+    const element = document.createElement('div');
+    element.className = `notification notification-${options.type}`;
+    element.dataset.message = options.message;
+    // Errors interrupt; everything else is announced by the polite region
+    if (options.type === 'error') {
+      element.setAttribute('role', 'alert');
+    }
+
+    const body = document.createElement('div');
+    body.className = 'notification-body';
+
+    const message = document.createElement('span');
+    message.className = 'notification-message';
+    message.textContent = options.message;
+    body.appendChild(message);
+
+    if (count > 1) {
+      const badge = document.createElement('span');
+      badge.className = 'notification-count';
+      badge.textContent = `×${count}`;
+      badge.setAttribute('aria-label', this.translator.t('notifications.repeated', { count }));
+      body.appendChild(badge);
+    }
+
+    if (options.action) {
+      const { label, handler } = options.action;
+      const actionBtn = document.createElement('button');
+      actionBtn.className = 'notification-action';
+      actionBtn.textContent = label;
+      actionBtn.addEventListener('click', () => {
+        this.dismiss(id);
+        handler();
+      });
+      body.appendChild(actionBtn);
+    }
+
+    const dismissBtn = document.createElement('button');
+    dismissBtn.className = 'notification-dismiss';
+    dismissBtn.setAttribute('aria-label', this.translator.t('notifications.dismiss'));
+    dismissBtn.textContent = '×';
+    dismissBtn.addEventListener('click', () => this.dismiss(id));
+    body.appendChild(dismissBtn);
+
+    element.appendChild(body);
+
+    if (options.details) {
+      const details = document.createElement('details');
+      details.className = 'notification-details';
+
+      const summary = document.createElement('summary');
+      summary.textContent = this.translator.t('notifications.details');
+
+      const pre = document.createElement('pre');
+      pre.textContent = options.details;
+
+      details.append(summary, pre);
+      element.appendChild(details);
+    }
+
+    return element;
+  }
+
+  /**
+   * Drop the oldest notifications beyond the visible limit, preferring
+   * transient ones over persistent errors and never the one just shown
+   */
+  private enforceLimit(): void {
+    while (this.entries.size > this.maxVisible) {
+      const older = [...this.entries.values()].slice(0, -1);
+      const oldest = older.find((entry) => !entry.persistent) || older[0];
+      this.remove(oldest.id);
+    }
+  }
+
+  private clearTimer(entry: NotificationEntry): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+
+  /**
+   * Remove every notification and stop pending timers
+   */
+  public destroy(): void {
+    this.clear();
+  }
+}
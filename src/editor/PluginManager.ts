@@ -1,153 +1,233 @@
 /**
  * PluginManager - Handles plugin lifecycle and lazy loading
+ *
+ * Each rendered plugin has its own host element. Switching away suspends a
+ * plugin by hiding its host, so switching back skips loading and
+ * rendering; the least recently used are destroyed once their estimated
+ * memory exceeds the budget.
  */
 
-import type { BasePlugin, EditorMode } from './types';
+import { I18n } from '../i18n/I18n';
+import { pluginRegistry } from './PluginRegistry';
+import type { PluginLoadContext } from './PluginRegistry';
+import type { BasePlugin, BlockMode, ContentData, EditorMode, MetricsRecorder, Translator } from './types';
+
+export const DEFAULT_MEMORY_BUDGET = 150;
+const DEFAULT_MEMORY_COST = 10;
+
+/**
+ * A cached plugin and the element it rendered into
+ */
+export interface PluginSlot {
+  mode: EditorMode;
+  plugin: BasePlugin;
+  /** Null until the plugin has rendered */
+  host: HTMLElement | null;
+  suspended: boolean;
+  /** Content last loaded into or reported by the plugin */
+  content: ContentData | null;
+  lastUsed: number;
+}
 
 export class PluginManager {
-  private plugins: Map<EditorMode, BasePlugin> = new Map();
+  private slots: Map<EditorMode, PluginSlot> = new Map();
   private loadedBundles: Set<EditorMode> = new Set();
+  private telemetry: MetricsRecorder | null;
+  private translator: Translator;
+  private memoryBudget: number;
+  private prefetchHandle: number | null = null;
+  private loadContext: PluginLoadContext = {
+    createPlugin: (mode) => this.createPlugin(mode),
+    getBlockModes: () => pluginRegistry.getBlockModes(),
+    createDefaultContent: (mode) => pluginRegistry.createDefaultContent(mode)
+  };
 
-  constructor() {}
+  constructor(
+    telemetry?: MetricsRecorder,
+    translator?: Translator,
+    memoryBudget: number = DEFAULT_MEMORY_BUDGET
+  ) {
+    this.telemetry = telemetry || null;
+    this.translator = translator || new I18n();
+    this.memoryBudget = memoryBudget;
+  }
 
   /**
    * Get or load a plugin
    */
   public async getPlugin(mode: EditorMode): Promise<BasePlugin> {
-    // Return cached plugin if available
-    if (this.plugins.has(mode)) {
-      return this.plugins.get(mode)!;
+    return (await this.getSlot(mode)).plugin;
+  }
+
+  /**
+   * Get the cached slot for a mode, loading its plugin if needed
+   */
+  public async getSlot(mode: EditorMode): Promise<PluginSlot> {
+    const cached = this.slots.get(mode);
+    if (cached) {
+      cached.lastUsed = Date.now();
+      return cached;
     }
 
-    // Load and cache the plugin
     const plugin = await this.loadPlugin(mode);
-    this.plugins.set(mode, plugin);
-    return plugin;
+    const slot: PluginSlot = {
+      mode,
+      plugin,
+      host: null,
+      suspended: false,
+      content: null,
+      lastUsed: Date.now()
+    };
+    this.slots.set(mode, slot);
+    return slot;
   }
 
   /**
-   * Load a plugin dynamically
+   * Create the element a slot's plugin renders into
    */
-  private async loadPlugin(mode: EditorMode): Promise<BasePlugin> {
-    switch (mode) {
-      case 'mermaid':
-        return await this.loadMermaidPlugin();
-      case 'excalidraw':
-        return await this.loadExcalidrawPlugin();
-      case 'text':
-      default:
-        return await this.loadTextPlugin();
-    }
+  public createHost(slot: PluginSlot, container: HTMLElement): HTMLElement {
+    slot.host?.remove();
+
+    const host = document.createElement('div');
+    host.className = 'plugin-host';
+    host.dataset.mode = slot.mode;
+    container.appendChild(host);
+    slot.host = host;
+    return host;
   }
 
   /**
-   * Load Mermaid plugin
+   * Whether a mode has a rendered plugin waiting to be resumed
    */
-  private async loadMermaidPlugin(): Promise<BasePlugin> {
-    if (!this.loadedBundles.has('mermaid')) {
-      // Dynamic import for code splitting
-      const { MermaidPlugin } = await import(
-        /* webpackChunkName: "mermaid" */
-        '../plugins/mermaid/MermaidPlugin'
-      );
-      this.loadedBundles.add('mermaid');
-      return new MermaidPlugin();
+  public isSuspended(mode: EditorMode): boolean {
+    return this.slots.get(mode)?.suspended ?? false;
+  }
+
+  /**
+   * Hide a rendered plugin instead of destroying it, then make room if
+   * the warm plugins are over budget. `content` is what the editor holds
+   * for the plugin, so a resume can tell whether it changed meanwhile.
+   */
+  public suspend(mode: EditorMode, content: ContentData | null): void {
+    const slot = this.slots.get(mode);
+    if (!slot?.host || slot.suspended) return;
+
+    slot.suspended = true;
+    slot.content = content;
+    slot.host.hidden = true;
+    slot.lastUsed = Date.now();
+    try {
+      slot.plugin.suspend?.();
+    } catch (error) {
+      console.error('Error suspending plugin:', error);
     }
 
-    const { MermaidPlugin } = await import('../plugins/mermaid/MermaidPlugin');
-    return new MermaidPlugin();
+    this.evictOverBudget();
   }
 
   /**
-   * Load Excalidraw plugin
+   * Show a suspended plugin again
    */
-  private async loadExcalidrawPlugin(): Promise<BasePlugin> {
-    if (!this.loadedBundles.has('excalidraw')) {
-      // Dynamic import for code splitting
-      const { ExcalidrawPlugin } = await import(
-        /* webpackChunkName: "excalidraw" */
-        '../plugins/excalidraw/ExcalidrawPlugin'
-      );
-      this.loadedBundles.add('excalidraw');
-      return new ExcalidrawPlugin();
-    }
+  public resume(mode: EditorMode): void {
+    const slot = this.slots.get(mode);
+    if (!slot?.host || !slot.suspended) return;
+
+    slot.suspended = false;
+    slot.host.hidden = false;
+    slot.lastUsed = Date.now();
+    slot.plugin.resume?.();
+  }
 
-    const { ExcalidrawPlugin } = await import(
-      '../plugins/excalidraw/ExcalidrawPlugin'
-    );
-    return new ExcalidrawPlugin();
+  /**
+   * Create a fresh, uncached plugin instance (used for document blocks)
+   */
+  public async createPlugin(mode: BlockMode): Promise<BasePlugin> {
+    return await this.loadPlugin(mode);
   }
 
   /**
-   * Load Text plugin (lightweight, always loaded)
+   * Download the chunks of the given modes one at a time while the
+   * browser is idle, so a first switch to them does not wait on the network
    */
-  private async loadTextPlugin(): Promise<BasePlugin> {
-    // Text plugin is simple enough to not require dynamic loading
-    return {
-      id: 'text',
-      name: 'Text Editor',
-      version: '1.0.0',
-      initialize: async () => {
-        // No initialization needed for text
-      },
-      destroy: () => {
-        // No cleanup needed
-      },
-      render: (container: HTMLElement) => {
-        container.innerHTML = `
-          <textarea
-            id="text-editor"
-            class="text-editor"
-            placeholder="Start typing..."
-          ></textarea>
-        `;
-      },
-      getData: () => {
-        const textarea = document.getElementById(
-          'text-editor'
-        ) as HTMLTextAreaElement;
-        return {
-          type: 'text' as const,
-          content: {
-            type: 'text' as const,
-            text: textarea?.value || ''
-          }
-        };
-      },
-      setData: (data) => {
-        const textarea = document.getElementById(
-          'text-editor'
-        ) as HTMLTextAreaElement;
-        if (textarea && data.content.type === 'text') {
-          textarea.value = data.content.text || '';
-        }
-      },
-      onDataChange: (callback) => {
-        const textarea = document.getElementById('text-editor');
-        if (textarea) {
-          textarea.addEventListener('input', () => {
-            const data = {
-              type: 'text' as const,
-              content: {
-                type: 'text' as const,
-                text: (textarea as HTMLTextAreaElement).value
-              }
-            };
-            callback(data);
-          });
-        }
+  public prefetch(modes: EditorMode[]): void {
+    this.cancelPrefetch();
+
+    const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection;
+    if (connection?.saveData) return;
+
+    const queue = modes.filter((mode) => !this.loadedBundles.has(mode));
+    const next = () => {
+      this.prefetchHandle = null;
+      const mode = queue.shift();
+      if (!mode) return;
+
+      const descriptor = pluginRegistry.get(mode);
+      if (!descriptor?.prefetch || this.loadedBundles.has(mode)) {
+        next();
+        return;
       }
+
+      descriptor.prefetch()
+        .catch((error) => console.warn(`Prefetching the ${mode} plugin failed:`, error))
+        .finally(() => {
+          this.prefetchHandle = scheduleIdle(next);
+        });
     };
+
+    this.prefetchHandle = scheduleIdle(next);
+  }
+
+  /**
+   * Load a plugin from its registered descriptor, timing the first
+   * download of its chunk
+   */
+  private async loadPlugin(mode: EditorMode): Promise<BasePlugin> {
+    const descriptor = pluginRegistry.get(mode);
+    if (!descriptor) {
+      throw new Error(`No plugin is registered for mode "${mode}"`);
+    }
+
+    const isFirstLoad = !this.loadedBundles.has(mode);
+    const stopTimer = isFirstLoad ? this.telemetry?.startTimer('plugin.chunkLoad', mode) : undefined;
+
+    const plugin = await descriptor.load(this.loadContext);
+    this.loadedBundles.add(mode);
+    stopTimer?.();
+
+    if (this.telemetry) {
+      plugin.setTelemetry?.(this.telemetry);
+    }
+    plugin.setTranslator?.(this.translator);
+    return plugin;
+  }
+
+  /**
+   * Destroy suspended plugins, least recently used first, until the
+   * rendered plugins fit the memory budget
+   */
+  private evictOverBudget(): void {
+    const rendered = Array.from(this.slots.values()).filter((slot) => slot.host);
+    let used = rendered.reduce((total, slot) => total + getMemoryCost(slot.mode), 0);
+
+    rendered
+      .filter((slot) => slot.suspended)
+      .sort((a, b) => a.lastUsed - b.lastUsed)
+      .forEach((slot) => {
+        if (used <= this.memoryBudget) return;
+        used -= getMemoryCost(slot.mode);
+        this.unloadPlugin(slot.mode);
+      });
   }
 
   /**
    * Unload a plugin
    */
   public unloadPlugin(mode: EditorMode): void {
-    const plugin = this.plugins.get(mode);
-    if (plugin) {
-      plugin.destroy();
-      this.plugins.delete(mode);
+    const slot = this.slots.get(mode);
+    if (slot) {
+      this.slots.delete(mode);
+      slot.host?.remove();
+      slot.plugin.destroy();
     }
   }
 
@@ -155,10 +235,41 @@ export class PluginManager {
    * Unload all plugins
    */
   public unloadAll(): void {
-    this.plugins.forEach((plugin) => {
-      plugin.destroy();
+    this.cancelPrefetch();
+    this.slots.forEach((slot) => {
+      slot.host?.remove();
+      slot.plugin.destroy();
     });
-    this.plugins.clear();
+    this.slots.clear();
     this.loadedBundles.clear();
   }
-}
\ No newline at end of file
+
+  private cancelPrefetch(): void {
+    if (this.prefetchHandle !== null) {
+      cancelIdle(this.prefetchHandle);
+      this.prefetchHandle = null;
+    }
+  }
+}
+
+function getMemoryCost(mode: EditorMode): number {
+  return pluginRegistry.get(mode)?.memoryCost ?? DEFAULT_MEMORY_COST;
+}
+
+/**
+ * requestIdleCallback, falling back to a timeout where it is missing
+ */
+function scheduleIdle(callback: () => void): number {
+  if (typeof window.requestIdleCallback === 'function') {
+    return window.requestIdleCallback(callback, { timeout: 5000 });
+  }
+  return window.setTimeout(callback, 200);
+}
+
+function cancelIdle(handle: number): void {
+  if (typeof window.cancelIdleCallback === 'function') {
+    window.cancelIdleCallback(handle);
+  } else {
+    window.clearTimeout(handle);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * PluginRegistry - Descriptors for the editor modes that can be loaded
+ */
+
+import { BUILTIN_PLUGINS } from '../plugins/builtins';
+import type {
+  BasePlugin,
+  BlockMode,
+  ContentData,
+  ContentTypeMap,
+  EditorMode,
+  MessageBundle,
+  Translator
+} from './types';
+
+/**
+ * Services a plugin receives when it is loaded
+ */
+export interface PluginLoadContext {
+  /** Create a fresh plugin instance, e.g. for a document block */
+  createPlugin(mode: BlockMode): Promise<BasePlugin>;
+  /** Modes that can currently be used as document blocks */
+  getBlockModes(): BlockMode[];
+  createDefaultContent<M extends EditorMode>(mode: M): ContentTypeMap[M];
+}
+
+/**
+ * Services a descriptor receives when it describes content for a preview
+ */
+export interface PreviewContext {
+  /** Has every registered mode's messages */
+  translator: Translator;
+  /** Preview of nested content, e.g. a document block */
+  preview(content: ContentData): string;
+}
+
+/**
+ * Everything the editor needs to offer a mode before its code is loaded
+ */
+export interface PluginDescriptor<M extends EditorMode = EditorMode> {
+  id: M;
+  /** English name, used when no catalog translates `mode.<id>` */
+  label: string;
+  /** Trusted markup shown before the label in the mode selector */
+  icon?: string;
+  /** Import the plugin's chunk and create an instance */
+  load(context: PluginLoadContext): Promise<BasePlugin>;
+  /** Download the plugin's chunk without creating an instance */
+  prefetch?(): Promise<unknown>;
+  /** Rough memory held by a rendered instance, in MB; defaults to 10 */
+  memoryCost?: number;
+  /** Check that stored content has this mode's shape */
+  isContent(content: Record<string, any>): content is ContentTypeMap[M];
+  createDefaultContent(): ContentTypeMap[M];
+  /**
+   * Plain text that sums up the content for the note list, e.g. a
+   * diagram's labels. Runs without loading the plugin's chunk.
+   */
+  preview?(content: ContentTypeMap[M], context: PreviewContext): string;
+  /** Whether the mode can be a block inside a document; defaults to true */
+  block?: boolean;
+  /** Message bundles by locale, registered when the editor starts */
+  messages?: Record<string, MessageBundle>;
+}
+
+export class PluginRegistry {
+  private descriptors: Map<string, PluginDescriptor> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  constructor(descriptors: PluginDescriptor[] = []) {
+    descriptors.forEach((descriptor) => this.descriptors.set(descriptor.id, descriptor));
+  }
+
+  /**
+   * Add a mode, returning a function that removes it again. Registering an
+   * id twice replaces the earlier descriptor.
+   */
+  public register<M extends EditorMode>(descriptor: PluginDescriptor<M>): () => void {
+    const entry = descriptor as unknown as PluginDescriptor;
+    this.descriptors.set(entry.id, entry);
+    this.notifyChange();
+
+    return () => {
+      if (this.descriptors.get(entry.id) === entry) {
+        this.descriptors.delete(entry.id);
+        this.notifyChange();
+      }
+    };
+  }
+
+  public get(mode: string): PluginDescriptor | undefined {
+    return this.descriptors.get(mode);
+  }
+
+  public has(mode: unknown): mode is EditorMode {
+    return typeof mode === 'string' && this.descriptors.has(mode);
+  }
+
+  /**
+   * Registered descriptors in registration order
+   */
+  public list(): PluginDescriptor[] {
+    return Array.from(this.descriptors.values());
+  }
+
+  public getModes(): EditorMode[] {
+    return this.list().map((descriptor) => descriptor.id);
+  }
+
+  public getBlockModes(): BlockMode[] {
+    return this.list()
+      .filter((descriptor) => descriptor.block !== false)
+      .map((descriptor) => descriptor.id as BlockMode);
+  }
+
+  /**
+   * Empty content for a new note or block of the given mode
+   */
+  public createDefaultContent<M extends EditorMode>(mode: M): ContentTypeMap[M] {
+    const descriptor = this.descriptors.get(mode);
+    if (!descriptor) {
+      throw new Error(`Unknown editor mode "${mode}"`);
+    }
+    return descriptor.createDefaultContent() as ContentTypeMap[M];
+  }
+
+  /**
+   * Check stored content against its mode's type guard
+   */
+  public isContent(content: Record<string, any>): content is ContentData {
+    const descriptor = this.descriptors.get(content.type);
+    return !!descriptor && descriptor.isContent(content);
+  }
+
+  /**
+   * Plain-text preview of content from its mode's descriptor; empty when
+   * the mode has none or it fails
+   */
+  public createPreview(content: ContentData, translator: Translator): string {
+    const descriptor = this.descriptors.get(content.type);
+    if (!descriptor?.preview) return '';
+
+    try {
+      return descriptor.preview(content, {
+        translator,
+        preview: (nested) => this.createPreview(nested, translator)
+      });
+    } catch (error) {
+      console.error(`Error creating a ${content.type} preview:`, error);
+      return '';
+    }
+  }
+
+  /**
+   * Notify when modes are added or removed
+   */
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in plugin registry listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * The registry every editor on the page loads modes from. Third-party
+ * plugins register here before the editor initializes.
+ */
+export const pluginRegistry = new PluginRegistry(BUILTIN_PLUGINS);
@@ -0,0 +1,174 @@
+/**
+ * PreferencesPanel - Form for editing per-user editor preferences
+ */
+
+import { trapFocus } from '../utils/focus';
+import { pluginRegistry } from './PluginRegistry';
+import type { PreferencesStore } from '../api/PreferencesStore';
+import type { EditorMode, EditorPreferences, ThemePreference, Translator } from './types';
+
+const THEMES: ThemePreference[] = ['auto', 'light', 'dark'];
+
+export class PreferencesPanel {
+  private host: HTMLElement;
+  private store: PreferencesStore;
+  private translator: Translator;
+  private element: HTMLElement | null = null;
+  private previousFocus: HTMLElement | null = null;
+
+  constructor(host: HTMLElement, store: PreferencesStore, translator: Translator) {
+    this.host = host;
+    this.store = store;
+    this.translator = translator;
+  }
+
+  public open(): void {
+    if (this.element) return;
+
+    this.previousFocus = document.activeElement as HTMLElement | null;
+
+    const t = (key: string) => this.translator.t(key);
+    const element = document.createElement('div');
+    element.className = 'preferences-overlay';
+    element.innerHTML = `
+      <form class="preferences-panel" role="dialog" aria-modal="true" aria-labelledby="preferences-title">
+        <div class="preferences-header">
+          <h2 id="preferences-title">${t('preferences.title')}</h2>
+          <button type="button" class="preferences-close" aria-label="${t('preferences.close')}">×</button>
+        </div>
+        <label class="preferences-field">
+          <span>${t('preferences.defaultMode')}</span>
+          <select name="defaultMode"></select>
+        </label>
+        <label class="preferences-field">
+          <span>${t('preferences.theme')}</span>
+          <select name="theme"></select>
+        </label>
+        <label class="preferences-field">
+          <span>${t('preferences.autoSaveDelay')}</span>
+          <input name="autoSaveDelay" type="number" min="100" max="10000" step="100" />
+        </label>
+        <label class="preferences-field">
+          <span>${t('preferences.mermaidRenderDelay')}</span>
+          <input name="mermaidRenderDelay" type="number" min="0" max="5000" step="50" />
+        </label>
+        <label class="preferences-field">
+          <span>${t('preferences.excalidrawHeight')}</span>
+          <input name="excalidrawHeight" type="number" min="200" max="4000" step="50" />
+        </label>
+        <label class="preferences-field">
+          <span>${t('preferences.htmlPreview')}</span>
+          <input name="htmlPreview" type="checkbox" />
+        </label>
+        <div class="preferences-field">
+          <span>${t('preferences.keybindings')}</span>
+          <button type="button" class="preferences-reset-keybindings">${t('preferences.resetKeybindings')}</button>
+          <span class="preferences-keybindings"></span>
+        </div>
+        <div class="preferences-actions">
+          <button type="button" class="preferences-reset">${t('preferences.resetAll')}</button>
+        </div>
+      </form>
+    `;
+
+    const form = element.querySelector('form') as HTMLFormElement;
+    this.fillOptions(form.elements.namedItem('defaultMode') as HTMLSelectElement, pluginRegistry.getModes(), 'mode');
+    this.fillOptions(form.elements.namedItem('theme') as HTMLSelectElement, THEMES, 'preferences.theme');
+
+    form.addEventListener('change', (event) => this.handleChange(event.target as HTMLInputElement));
+    form.addEventListener('submit', (event) => event.preventDefault());
+    element.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+      trapFocus(event, element);
+    });
+    element.addEventListener('mousedown', (event) => {
+      if (event.target === element) this.close();
+    });
+    element.querySelector('.preferences-close')?.addEventListener('click', () => this.close());
+    element.querySelector('.preferences-reset-keybindings')?.addEventListener('click', () => {
+      this.store.update({ keybindings: {} });
+      this.refresh();
+    });
+    element.querySelector('.preferences-reset')?.addEventListener('click', () => {
+      this.store.reset();
+      this.refresh();
+    });
+
+    this.host.appendChild(element);
+    this.element = element;
+    this.refresh();
+    (form.elements.namedItem('defaultMode') as HTMLElement).focus();
+  }
+
+  public close(): void {
+    if (!this.element) return;
+
+    this.element.remove();
+    this.element = null;
+    this.previousFocus?.focus();
+    this.previousFocus = null;
+  }
+
+  public isOpen(): boolean {
+    return this.element !== null;
+  }
+
+  /**
+   * Show the stored values in the form
+   */
+  public refresh(): void {
+    const form = this.element?.querySelector('form');
+    if (!form) return;
+
+    const preferences = this.store.get();
+    (['defaultMode', 'theme', 'autoSaveDelay', 'mermaidRenderDelay', 'excalidrawHeight'] as const)
+      .forEach((name) => {
+        (form.elements.namedItem(name) as HTMLInputElement).value = String(preferences[name]);
+      });
+    (form.elements.namedItem('htmlPreview') as HTMLInputElement).checked = preferences.htmlPreview;
+
+    const custom = Object.keys(preferences.keybindings).length;
+    form.querySelector('.preferences-keybindings')!.textContent = custom
+      ? this.translator.t('preferences.keybindingsCustom', { count: custom })
+      : this.translator.t('preferences.keybindingsDefault');
+  }
+
+  private fillOptions(select: HTMLSelectElement, values: string[], prefix: string): void {
+    values.forEach((value) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = this.translator.t(`${prefix}.${value}`);
+      select.appendChild(option);
+    });
+  }
+
+  /**
+   * Store a single changed field; the store clamps out-of-range numbers
+   */
+  private handleChange(field: HTMLInputElement | HTMLSelectElement): void {
+    const name = field.name as keyof EditorPreferences;
+    const changes: Partial<EditorPreferences> = {};
+
+    switch (name) {
+      case 'defaultMode':
+        changes.defaultMode = field.value as EditorMode;
+        break;
+      case 'theme':
+        changes.theme = field.value as ThemePreference;
+        break;
+      case 'autoSaveDelay':
+      case 'mermaidRenderDelay':
+      case 'excalidrawHeight':
+        changes[name] = Number(field.value);
+        break;
+      case 'htmlPreview':
+        changes.htmlPreview = (field as HTMLInputElement).checked;
+        break;
+      default:
+        return;
+    }
+
+    this.store.update(changes);
+    this.refresh();
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * PresentationView - Full-screen slideshow of diagrams and drawing frames
+ */
+
+import { trapFocus } from '../utils/focus';
+import type { Translator } from './types';
+
+export class PresentationView {
+  private host: HTMLElement;
+  private element: HTMLElement | null = null;
+  private slides: string[] = [];
+  private index: number = 0;
+  private previousFocus: HTMLElement | null = null;
+  private translator: Translator;
+
+  constructor(host: HTMLElement, translator: Translator) {
+    this.host = host;
+    this.translator = translator;
+  }
+
+  /**
+   * Show the slides, full-screen where the browser allows it
+   */
+  public open(slides: string[]): void {
+    this.close();
+    if (!slides.length) return;
+
+    this.slides = slides;
+    this.index = 0;
+    this.previousFocus = document.activeElement as HTMLElement | null;
+
+    const t = (key: string) => this.translator.t(key);
+    const element = document.createElement('div');
+    element.className = 'presentation-view';
+    element.tabIndex = -1;
+    element.setAttribute('role', 'dialog');
+    element.setAttribute('aria-modal', 'true');
+    element.setAttribute('aria-label', t('presentation.label'));
+    element.innerHTML = `
+      <div class="presentation-slide" role="group" aria-roledescription="slide"></div>
+      <div class="presentation-controls">
+        <button class="presentation-prev" aria-label="${t('presentation.previous')}">‹</button>
+        <span class="presentation-counter" aria-live="polite"></span>
+        <button class="presentation-next" aria-label="${t('presentation.next')}">›</button>
+        <button class="presentation-exit" aria-label="${t('presentation.exitLabel')}">${t('presentation.exit')}</button>
+      </div>
+    `;
+
+    element.querySelector('.presentation-prev')?.addEventListener('click', () => this.go(-1));
+    element.querySelector('.presentation-next')?.addEventListener('click', () => this.go(1));
+    element.querySelector('.presentation-exit')?.addEventListener('click', () => this.close());
+    element.addEventListener('keydown', (event) => this.handleKeydown(event));
+    element.addEventListener('fullscreenchange', () => {
+      // Leaving full screen with the browser's own controls ends the show
+      if (!document.fullscreenElement) this.close();
+    });
+
+    this.host.appendChild(element);
+    this.element = element;
+    this.renderSlide();
+    element.focus();
+    element.requestFullscreen?.().catch(() => {
+      // Fall back to the fixed overlay
+    });
+  }
+
+  public close(): void {
+    if (!this.element) return;
+
+    const element = this.element;
+    this.element = null;
+    if (document.fullscreenElement === element) {
+      document.exitFullscreen().catch(() => undefined);
+    }
+    element.remove();
+    this.slides = [];
+    this.previousFocus?.focus();
+    this.previousFocus = null;
+  }
+
+  public isOpen(): boolean {
+    return this.element !== null;
+  }
+
+  private handleKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'PageDown':
+      case ' ':
+        event.preventDefault();
+        this.go(1);
+        break;
+      case 'ArrowLeft':
+      case 'PageUp':
+        event.preventDefault();
+        this.go(-1);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        break;
+    }
+    if (this.element) trapFocus(event, this.element);
+    // Keep editor shortcuts from firing underneath
+    event.stopPropagation();
+  }
+
+  private go(offset: number): void {
+    const index = Math.min(Math.max(this.index + offset, 0), this.slides.length - 1);
+    if (index === this.index) return;
+
+    this.index = index;
+    this.renderSlide();
+  }
+
+  private renderSlide(): void {
+    if (!this.element) return;
+
+    const slide = this.element.querySelector('.presentation-slide') as HTMLElement;
+    slide.innerHTML = this.slides[this.index];
+    slide.setAttribute(
+      'aria-label',
+      this.translator.t('presentation.slide', { index: this.index + 1, count: this.slides.length })
+    );
+
+    this.element.querySelector('.presentation-counter')!.textContent =
+      `${this.index + 1} / ${this.slides.length}`;
+    (this.element.querySelector('.presentation-prev') as HTMLButtonElement).disabled = this.index === 0;
+    (this.element.querySelector('.presentation-next') as HTMLButtonElement).disabled =
+      this.index === this.slides.length - 1;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * RevisionTimeline - Side panel listing local revisions with restore and diff
+ */
+
+import { diffLines } from '../utils/diff';
+import { getSourceText } from './notePayload';
+import type { ContentData, EditorMode, Revision, Translator } from './types';
+
+export interface RevisionTimelineHandlers {
+  onRestore(revision: Revision): void;
+  getCurrentContent(mode: EditorMode): ContentData | undefined;
+}
+
+export class RevisionTimeline {
+  private panel: HTMLElement;
+  private handlers: RevisionTimelineHandlers;
+  private revisions: Revision[] = [];
+  private previousFocus: HTMLElement | null = null;
+  private translator: Translator;
+
+  constructor(panel: HTMLElement, handlers: RevisionTimelineHandlers, translator: Translator) {
+    this.panel = panel;
+    this.handlers = handlers;
+    this.translator = translator;
+    this.panel.setAttribute('aria-labelledby', 'revision-title');
+    this.panel.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.close();
+    });
+  }
+
+  /**
+   * Show the panel with the given revisions, newest first
+   */
+  public open(revisions: Revision[]): void {
+    if (!this.isOpen()) {
+      this.previousFocus = document.activeElement as HTMLElement | null;
+    }
+    this.revisions = revisions;
+    this.panel.hidden = false;
+    this.renderList();
+    (this.panel.querySelector('.revision-close') as HTMLElement).focus();
+  }
+
+  /**
+   * Hide the panel
+   */
+  public close(): void {
+    const wasOpen = this.isOpen();
+    this.panel.hidden = true;
+    this.panel.innerHTML = '';
+
+    if (wasOpen) {
+      this.previousFocus?.focus();
+    }
+    this.previousFocus = null;
+  }
+
+  public isOpen(): boolean {
+    return !this.panel.hidden;
+  }
+
+  /**
+   * Render the revision list
+   */
+  private renderList(): void {
+    const t = (key: string) => this.translator.t(key);
+    this.panel.innerHTML = `
+      <div class="revision-header">
+        <h2 id="revision-title">${t('revisions.title')}</h2>
+        <button class="revision-close" title="${t('revisions.close')}" aria-label="${t('revisions.closeLabel')}">×</button>
+      </div>
+      <ul class="revision-list"></ul>
+      <div class="revision-diff" hidden></div>
+    `;
+
+    this.panel.querySelector('.revision-close')?.addEventListener('click', () => this.close());
+
+    const list = this.panel.querySelector('.revision-list')!;
+    if (!this.revisions.length) {
+      const empty = document.createElement('li');
+      empty.className = 'revision-empty';
+      empty.textContent = t('revisions.empty');
+      list.appendChild(empty);
+      return;
+    }
+
+    this.revisions.forEach((revision) => {
+      list.appendChild(this.renderItem(revision));
+    });
+  }
+
+  /**
+   * Render a single revision entry
+   */
+  private renderItem(revision: Revision): HTMLElement {
+    const item = document.createElement('li');
+    item.className = 'revision-item';
+
+    const info = document.createElement('div');
+    info.className = 'revision-info';
+    const date = new Date(revision.timestamp).toLocaleString(this.translator.locale);
+    info.textContent = date;
+
+    const meta = document.createElement('div');
+    meta.className = 'revision-meta';
+    meta.textContent = `${this.translator.t(`mode.${revision.mode}`)} · ${formatSize(revision.size)}`;
+
+    const actions = document.createElement('div');
+    actions.className = 'revision-actions';
+
+    const restoreBtn = document.createElement('button');
+    restoreBtn.textContent = this.translator.t('revisions.restore');
+    restoreBtn.setAttribute('aria-label', this.translator.t('revisions.restoreLabel', { date }));
+    restoreBtn.addEventListener('click', () => this.handlers.onRestore(revision));
+    actions.appendChild(restoreBtn);
+
+    const content = revision.data.contents[revision.mode]?.content;
+    if (content && getSourceText(content) !== null) {
+      const diffBtn = document.createElement('button');
+      diffBtn.textContent = this.translator.t('revisions.diff');
+      diffBtn.setAttribute('aria-label', this.translator.t('revisions.diffLabel', { date }));
+      diffBtn.addEventListener('click', () => this.showDiff(revision));
+      actions.appendChild(diffBtn);
+    }
+
+    item.append(info, meta, actions);
+    return item;
+  }
+
+  /**
+   * Show a line diff between a revision and the current content
+   */
+  private showDiff(revision: Revision): void {
+    const diffElement = this.panel.querySelector('.revision-diff') as HTMLElement;
+    if (!diffElement) return;
+
+    const before = getText(revision.data.contents[revision.mode]?.content);
+    const after = getText(this.handlers.getCurrentContent(revision.mode));
+
+    diffElement.hidden = false;
+    diffElement.innerHTML = '';
+    diffElement.tabIndex = -1;
+
+    const title = document.createElement('div');
+    title.className = 'revision-diff-title';
+    title.textContent = this.translator.t('revisions.diffTitle');
+    diffElement.appendChild(title);
+
+    const pre = document.createElement('pre');
+    diffLines(before, after).forEach((line) => {
+      const row = document.createElement('div');
+      row.className = `diff-line diff-${line.type}`;
+      const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+      row.textContent = prefix + line.text;
+      pre.appendChild(row);
+    });
+    diffElement.appendChild(pre);
+    diffElement.focus();
+  }
+}
+
+/**
+ * Extract the diffable text of a content entry
+ */
+function getText(content: ContentData | undefined): string {
+  return content ? getSourceText(content) ?? '' : '';
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Telemetry - Opt-in, in-memory performance metrics
+ *
+ * Samples never leave the device; they can only be viewed in the
+ * diagnostics panel or exported as JSON by the user.
+ */
+
+import type { MetricName, MetricsRecorder } from './types';
+
+const MAX_SAMPLES = 500;
+
+/**
+ * Performance targets from the PRD, in milliseconds
+ */
+export const METRIC_TARGETS: Partial<Record<MetricName, number>> = {
+  'mode.switch': 100,
+  'editor.interactive': 1000
+};
+
+export const METRIC_UNITS: Record<MetricName, string> = {
+  'editor.interactive': 'ms',
+  'mode.switch': 'ms',
+  'plugin.chunkLoad': 'ms',
+  'mermaid.render': 'ms',
+  'excalidraw.changeInterval': 'ms',
+  'save.latency': 'ms',
+  'save.size': 'bytes'
+};
+
+export interface MetricSummary {
+  /** Metric name, with the label appended after a colon if any */
+  key: string;
+  metric: MetricName;
+  count: number;
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export class Telemetry implements MetricsRecorder {
+  public readonly enabled: boolean;
+  private samples: Map<string, { metric: MetricName; values: number[] }> = new Map();
+  private changeCallback: (() => void) | null = null;
+
+  constructor(enabled: boolean) {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Record a sample. `label` keeps separate series, e.g. per plugin mode.
+   */
+  public record(metric: MetricName, value: number, label?: string): void {
+    if (!this.enabled) return;
+
+    const key = label ? `${metric}:${label}` : metric;
+    let series = this.samples.get(key);
+    if (!series) {
+      series = { metric, values: [] };
+      this.samples.set(key, series);
+    }
+
+    series.values.push(value);
+    if (series.values.length > MAX_SAMPLES) {
+      series.values.shift();
+    }
+    this.changeCallback?.();
+  }
+
+  /**
+   * Start timing an operation; call the returned function to record it
+   */
+  public startTimer(metric: MetricName, label?: string): () => void {
+    if (!this.enabled) return () => {};
+
+    const start = performance.now();
+    return () => this.record(metric, performance.now() - start, label);
+  }
+
+  /**
+   * Percentile summary of every recorded series
+   */
+  public getSummary(): MetricSummary[] {
+    return [...this.samples.entries()]
+      .map(([key, { metric, values }]) => {
+        const sorted = [...values].sort((a, b) => a - b);
+        return {
+          key,
+          metric,
+          count: sorted.length,
+          min: sorted[0],
+          mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+          p50: percentile(sorted, 50),
+          p90: percentile(sorted, 90),
+          p99: percentile(sorted, 99),
+          max: sorted[sorted.length - 1]
+        };
+      })
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Serialize summaries and raw samples for the user to download
+   */
+  public export(): string {
+    const samples: Record<string, number[]> = {};
+    this.samples.forEach(({ values }, key) => {
+      samples[key] = [...values];
+    });
+
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      summary: this.getSummary(),
+      samples
+    }, null, 2);
+  }
+
+  public clear(): void {
+    this.samples.clear();
+    this.changeCallback?.();
+  }
+
+  public onChange(callback: (() => void) | null): void {
+    this.changeCallback = callback;
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
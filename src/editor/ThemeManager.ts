@@ -0,0 +1,107 @@
+/**
+ * ThemeManager - Resolves the active light/dark theme from the Standard
+ * Notes host, the system color scheme and the user's preference
+ */
+
+import { isDarkColor } from '../utils/color';
+import type { ResolvedTheme, ThemePreference } from './types';
+
+const THEME_LINK_CLASS = 'sn-theme-stylesheet';
+const BACKGROUND_VARIABLE = '--sn-stylekit-background-color';
+
+export class ThemeManager {
+  private preference: ThemePreference;
+  private theme: ResolvedTheme = 'light';
+  private mediaQuery: MediaQueryList | null = null;
+  private changeCallback: ((theme: ResolvedTheme) => void) | null = null;
+  private mediaQueryHandler = () => this.update();
+
+  constructor(preference: ThemePreference) {
+    this.preference = preference;
+
+    if (typeof window !== 'undefined' && window.matchMedia) {
+      this.mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
+      this.mediaQuery.addEventListener('change', this.mediaQueryHandler);
+    }
+
+    this.theme = this.resolve();
+  }
+
+  public getTheme(): ResolvedTheme {
+    return this.theme;
+  }
+
+  public getPreference(): ThemePreference {
+    return this.preference;
+  }
+
+  public setPreference(preference: ThemePreference): void {
+    this.preference = preference;
+    this.update();
+  }
+
+  /**
+   * Replace the host's theme stylesheets with the given URLs and re-resolve
+   * once they have loaded
+   */
+  public setHostThemes(urls: string[]): void {
+    document.querySelectorAll(`link.${THEME_LINK_CLASS}`).forEach((link) => link.remove());
+
+    let remaining = urls.length;
+    const onSettled = () => {
+      if (--remaining === 0) this.update();
+    };
+
+    urls.forEach((url) => {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = url;
+      link.className = THEME_LINK_CLASS;
+      link.addEventListener('load', onSettled);
+      link.addEventListener('error', onSettled);
+      document.head.appendChild(link);
+    });
+
+    // Removing every theme reverts to the default immediately
+    if (urls.length === 0) this.update();
+  }
+
+  public onChange(callback: (theme: ResolvedTheme) => void): void {
+    this.changeCallback = callback;
+  }
+
+  /**
+   * Recompute the theme and notify if it changed
+   */
+  private update(): void {
+    const theme = this.resolve();
+    if (theme === this.theme) return;
+
+    this.theme = theme;
+    this.changeCallback?.(theme);
+  }
+
+  /**
+   * An explicit preference wins. Otherwise a host theme is dark if its
+   * background is, falling back to the system color scheme.
+   */
+  private resolve(): ResolvedTheme {
+    if (this.preference !== 'auto') return this.preference;
+
+    if (typeof document !== 'undefined') {
+      const background = getComputedStyle(document.documentElement)
+        .getPropertyValue(BACKGROUND_VARIABLE);
+      const dark = background ? isDarkColor(background) : null;
+      if (dark !== null) return dark ? 'dark' : 'light';
+    }
+
+    return this.mediaQuery?.matches ? 'dark' : 'light';
+  }
+
+  public destroy(): void {
+    document.querySelectorAll(`link.${THEME_LINK_CLASS}`).forEach((link) => link.remove());
+    this.mediaQuery?.removeEventListener('change', this.mediaQueryHandler);
+    this.mediaQuery = null;
+    this.changeCallback = null;
+  }
+}
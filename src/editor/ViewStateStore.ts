@@ -0,0 +1,58 @@
+/**
+ * ViewStateStore - How each recently open note was being viewed
+ *
+ * Standard Notes reuses the editor frame when the user moves between
+ * notes. Remembering the mode and scroll positions per note lets a note
+ * reopen where it was left. Kept in memory for the session only.
+ */
+
+import type { EditorMode, PluginViewState } from './types';
+
+export interface ModeViewState {
+  /** Scroll position of the editor content area */
+  scrollTop: number;
+  plugin?: PluginViewState;
+}
+
+export interface NoteViewState {
+  mode: EditorMode;
+  modes: Partial<Record<EditorMode, ModeViewState>>;
+}
+
+/** Notes remembered before the least recently used is forgotten */
+const MAX_NOTES = 50;
+
+export class ViewStateStore {
+  private notes: Map<string, NoteViewState> = new Map();
+  private limit: number;
+
+  constructor(limit: number = MAX_NOTES) {
+    this.limit = limit;
+  }
+
+  public get(noteId: string): NoteViewState | undefined {
+    return this.notes.get(noteId);
+  }
+
+  public getMode(noteId: string, mode: EditorMode): ModeViewState | undefined {
+    return this.notes.get(noteId)?.modes[mode];
+  }
+
+  /**
+   * Record the view of one mode, which becomes the note's current mode
+   */
+  public remember(noteId: string, mode: EditorMode, view: ModeViewState): void {
+    const previous = this.notes.get(noteId);
+    this.notes.delete(noteId);
+    this.notes.set(noteId, { mode, modes: { ...previous?.modes, [mode]: view } });
+
+    // Map order is insertion order, so the first entry is the oldest
+    if (this.notes.size > this.limit) {
+      this.notes.delete(this.notes.keys().next().value as string);
+    }
+  }
+
+  public clear(): void {
+    this.notes.clear();
+  }
+}
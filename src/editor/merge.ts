@@ -0,0 +1,242 @@
+/**
+ * Merge - Three-way merge of diverged EditorData payloads
+ */
+
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types';
+import { mergeText } from '../utils/merge';
+import { deepClone } from '../utils/clone';
+import type {
+  BlockContentData,
+  ContentData,
+  DocumentBlock,
+  EditorData,
+  EditorMode,
+  ModeContentEntry
+} from './types';
+
+export interface MergeResult {
+  data: EditorData;
+  conflicts: number;
+}
+
+/**
+ * Merge local and remote changes made on top of the same base payload
+ */
+export function mergeEditorData(base: EditorData, local: EditorData, remote: EditorData): MergeResult {
+  const merged = deepClone(local);
+  let conflicts = 0;
+
+  const modes = new Set<EditorMode>([
+    ...Object.keys(local.contents),
+    ...Object.keys(remote.contents)
+  ] as EditorMode[]);
+
+  modes.forEach((mode) => {
+    const result = mergeEntry(base.contents[mode], local.contents[mode], remote.contents[mode]);
+    conflicts += result.conflicts;
+
+    if (result.entry) {
+      merged.contents[mode] = result.entry;
+    } else {
+      delete merged.contents[mode];
+    }
+  });
+
+  merged.metadata.modified = Math.max(local.metadata.modified, remote.metadata.modified);
+  return { data: merged, conflicts };
+}
+
+/**
+ * Merge one mode's content entry
+ */
+function mergeEntry(
+  base: ModeContentEntry | undefined,
+  local: ModeContentEntry | undefined,
+  remote: ModeContentEntry | undefined
+): { entry: ModeContentEntry | undefined; conflicts: number } {
+  if (!local || !remote) {
+    // Present on one side only: keep it unless it was deleted unchanged
+    const only = local || remote;
+    const unchanged = base && only && isSameContent(base.content, only.content);
+    return { entry: unchanged ? undefined : deepClone(only), conflicts: 0 };
+  }
+
+  const result = mergeContent(base?.content, local.content, remote.content);
+  return {
+    entry: {
+      content: result.content,
+      created: Math.min(local.created, remote.created),
+      modified: Math.max(local.modified, remote.modified)
+    },
+    conflicts: result.conflicts
+  };
+}
+
+/**
+ * Merge a single ContentData value by type
+ */
+export function mergeContent(
+  base: ContentData | undefined,
+  local: ContentData,
+  remote: ContentData
+): { content: ContentData; conflicts: number } {
+  if (isSameContent(local, remote)) return { content: deepClone(local), conflicts: 0 };
+  if (base && isSameContent(base, local)) return { content: deepClone(remote), conflicts: 0 };
+  if (base && isSameContent(base, remote)) return { content: deepClone(local), conflicts: 0 };
+
+  if (local.type === 'text' && remote.type === 'text') {
+    const result = mergeText(base?.type === 'text' ? base.text : '', local.text, remote.text);
+    return { content: { type: 'text', text: result.text }, conflicts: result.conflicts };
+  }
+
+  if (local.type === 'markdown' && remote.type === 'markdown') {
+    const result = mergeText(base?.type === 'markdown' ? base.markdown : '', local.markdown, remote.markdown);
+    return { content: { type: 'markdown', markdown: result.text }, conflicts: result.conflicts };
+  }
+
+  if (local.type === 'mermaid' && remote.type === 'mermaid') {
+    const result = mergeText(base?.type === 'mermaid' ? base.code : '', local.code, remote.code);
+    return {
+      content: { type: 'mermaid', code: result.text, diagramType: local.diagramType },
+      conflicts: result.conflicts
+    };
+  }
+
+  if (local.type === 'excalidraw' && remote.type === 'excalidraw') {
+    return {
+      content: {
+        type: 'excalidraw',
+        elements: mergeElements(
+          base?.type === 'excalidraw' ? base.elements : [],
+          local.elements,
+          remote.elements
+        ),
+        appState: local.appState
+      },
+      conflicts: 0
+    };
+  }
+
+  if (local.type === 'document' && remote.type === 'document') {
+    return mergeBlocks(base?.type === 'document' ? base.blocks : [], local.blocks, remote.blocks);
+  }
+
+  // Different content types cannot be merged; keep the local side
+  return { content: deepClone(local), conflicts: 1 };
+}
+
+/**
+ * Merge Excalidraw scenes element by element.
+ *
+ * Elements on both sides take the higher version. An element missing on
+ * one side counts as deleted there, unless the other side edited it since
+ * the base.
+ */
+export function mergeElements(
+  base: readonly ExcalidrawElement[],
+  local: readonly ExcalidrawElement[],
+  remote: readonly ExcalidrawElement[]
+): ExcalidrawElement[] {
+  const baseById = new Map(base.map((element) => [element.id, element]));
+  const localById = new Map(local.map((element) => [element.id, element]));
+  const remoteById = new Map(remote.map((element) => [element.id, element]));
+
+  const pick = (id: string): ExcalidrawElement | null => {
+    const mine = localById.get(id);
+    const theirs = remoteById.get(id);
+    const original = baseById.get(id);
+
+    if (mine && theirs) {
+      return (theirs.version ?? 0) > (mine.version ?? 0) ? theirs : mine;
+    }
+
+    const survivor = (mine || theirs)!;
+    if (!original) return survivor;
+
+    // Deleted on the other side: keep only if edited since the base
+    return (survivor.version ?? 0) > (original.version ?? 0) ? survivor : null;
+  };
+
+  const ids = [...remote.map((element) => element.id)];
+  local.forEach((element) => {
+    if (!remoteById.has(element.id)) ids.push(element.id);
+  });
+
+  return ids
+    .map((id) => pick(id))
+    .filter((element): element is ExcalidrawElement => element !== null)
+    .map((element) => deepClone(element));
+}
+
+/**
+ * Merge document blocks by id, merging blocks changed on both sides
+ */
+function mergeBlocks(
+  base: DocumentBlock[],
+  local: DocumentBlock[],
+  remote: DocumentBlock[]
+): { content: ContentData; conflicts: number } {
+  const baseById = new Map(base.map((block) => [block.id, block]));
+  const localById = new Map(local.map((block) => [block.id, block]));
+  const remoteById = new Map(remote.map((block) => [block.id, block]));
+  let conflicts = 0;
+
+  const ids = [...remote.map((block) => block.id)];
+  local.forEach((block) => {
+    if (!remoteById.has(block.id)) ids.push(block.id);
+  });
+
+  const blocks: DocumentBlock[] = [];
+  ids.forEach((id) => {
+    const mine = localById.get(id);
+    const theirs = remoteById.get(id);
+    const original = baseById.get(id);
+
+    if (mine && theirs) {
+      const result = mergeContent(original?.content, mine.content, theirs.content);
+      conflicts += result.conflicts;
+      blocks.push({ id, content: result.content as BlockContentData });
+      return;
+    }
+
+    const survivor = (mine || theirs)!;
+    if (original && isSameContent(original.content, survivor.content)) {
+      // Removed on the other side without local edits
+      return;
+    }
+    blocks.push(deepClone(survivor));
+  });
+
+  return { content: { type: 'document', blocks }, conflicts };
+}
+
+/**
+ * List the modes whose content differs between two payloads
+ */
+export function getChangedModes(base: EditorData, other: EditorData): EditorMode[] {
+  const modes = new Set<EditorMode>([
+    ...Object.keys(base.contents),
+    ...Object.keys(other.contents)
+  ] as EditorMode[]);
+
+  return [...modes].filter((mode) => {
+    const before = base.contents[mode]?.content;
+    const after = other.contents[mode]?.content;
+    if (!before || !after) return before !== after;
+    return !isSameContent(before, after);
+  });
+}
+
+/**
+ * Check whether two payloads hold the same content in every mode
+ */
+export function hasSameContents(a: EditorData, b: EditorData): boolean {
+  return getChangedModes(a, b).length === 0;
+}
+
+/**
+ * Compare two content values structurally
+ */
+export function isSameContent(a: ContentData, b: ContentData): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
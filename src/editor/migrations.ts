@@ -0,0 +1,169 @@
+/**
+ * Migrations - Upgrade stored note payloads to the current EditorData shape
+ */
+
+import { validateEditorData } from './schema';
+import { compareVersions } from '../utils/version';
+import type { EditorData, LegacyEditorData, NoteLoadResult } from './types';
+
+export const CURRENT_DATA_VERSION = '1.1.0';
+
+/**
+ * Version assumed for payloads written before metadata.version existed
+ */
+const INITIAL_DATA_VERSION = '1.0.0';
+
+/**
+ * First version that stored content per mode
+ */
+const CONTENTS_DATA_VERSION = '1.1.0';
+
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate(data: any): any;
+}
+
+/**
+ * Ordered migration registry. Each entry upgrades a payload from `from` to
+ * `to`; add new entries at the end when bumping CURRENT_DATA_VERSION.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Move the single content slot into per-mode contents',
+    migrate: (data: unknown) => {
+      if (!isLegacyEditorData(data)) {
+        throw new Error('Expected a single-content payload');
+      }
+      return migrateLegacyEditorData(data);
+    }
+  }
+];
+
+/**
+ * Check whether a payload uses the single-content layout
+ */
+export function isLegacyEditorData(data: any): data is LegacyEditorData {
+  return !!data && typeof data === 'object' && 'content' in data && !('contents' in data);
+}
+
+/**
+ * Move a single-content payload into the per-mode contents map
+ */
+export function migrateLegacyEditorData(data: LegacyEditorData): EditorData {
+  const created = data.metadata?.created ?? Date.now();
+  const modified = data.metadata?.modified ?? created;
+  const mode = data.mode || data.content?.type || 'text';
+
+  return {
+    mode,
+    contents: data.content
+      ? { [data.content.type]: { content: data.content, created, modified } }
+      : {},
+    metadata: {
+      version: '1.1.0',
+      lastMode: data.metadata?.lastMode ?? mode,
+      created,
+      modified
+    }
+  };
+}
+
+/**
+ * Read the schema version a payload was written with. A payload without
+ * one is dated by its shape, so current-shape data is not migrated again.
+ */
+export function getDataVersion(data: any): string {
+  const version = data?.metadata?.version;
+  if (typeof version === 'string') return version;
+
+  const hasContents = !!data && typeof data === 'object' && 'contents' in data;
+  return hasContents ? CONTENTS_DATA_VERSION : INITIAL_DATA_VERSION;
+}
+
+/**
+ * Run every registered migration between the payload's version and the
+ * current one, in registry order
+ */
+export function migrateEditorData(data: any): EditorData {
+  let migrated = data;
+  let version = getDataVersion(data);
+
+  for (const migration of MIGRATIONS) {
+    if (compareVersions(version, migration.from) > 0) continue;
+    if (compareVersions(version, CURRENT_DATA_VERSION) >= 0) break;
+
+    migrated = migration.migrate(migrated);
+    version = migration.to;
+  }
+
+  // Record the version an unversioned payload was read as
+  const metadata = migrated?.metadata;
+  if (metadata && typeof metadata === 'object' && typeof metadata.version !== 'string') {
+    migrated = { ...migrated, metadata: { ...metadata, version } };
+  }
+
+  return migrated;
+}
+
+/**
+ * Parse, migrate and validate a stored payload.
+ *
+ * Anything that can't be trusted is quarantined rather than thrown, so the
+ * caller can show it read-only without overwriting it on the next save.
+ */
+export function loadEditorData(raw: unknown): NoteLoadResult {
+  let parsed: unknown = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      return {
+        status: 'quarantined',
+        quarantine: { reason: 'Note content is not valid JSON', raw }
+      };
+    }
+  }
+
+  const version = getDataVersion(parsed);
+  if (compareVersions(version, CURRENT_DATA_VERSION) > 0) {
+    return {
+      status: 'quarantined',
+      quarantine: {
+        reason: `Note was saved by a newer editor version (${version})`,
+        raw
+      }
+    };
+  }
+
+  let migrated: EditorData;
+  try {
+    migrated = migrateEditorData(parsed);
+  } catch (error) {
+    return {
+      status: 'quarantined',
+      quarantine: {
+        reason: `Migration from version ${version} failed: ${(error as Error).message}`,
+        raw
+      }
+    };
+  }
+
+  const validation = validateEditorData(migrated);
+  if (!validation.valid) {
+    return {
+      status: 'quarantined',
+      quarantine: {
+        reason: 'Note content does not match the expected format',
+        raw,
+        errors: validation.errors
+      }
+    };
+  }
+
+  return { status: 'ok', data: migrated };
+}
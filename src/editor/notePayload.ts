@@ -0,0 +1,219 @@
+/**
+ * Note payload - Where editor data lives inside a Standard Notes note
+ *
+ * The editor data is stored as JSON in `content.text`, wrapped in an
+ * envelope that identifies it. Every other content key (title, appData,
+ * references, ...) is kept as it was, so other editors, search and the
+ * note list still see the note.
+ */
+
+import DOMPurify from 'dompurify';
+import { CURRENT_DATA_VERSION, loadEditorData } from './migrations';
+import { pluginRegistry } from './PluginRegistry';
+import { validateContentData } from './schema';
+import type { ContentData, EditorData, NoteItem, NoteLoadResult, Translator } from './types';
+
+export const PAYLOAD_FORMAT = 'standard-notes-enhanced-editor';
+
+/** Longest plain-text preview written to the note, in characters */
+export const PREVIEW_LENGTH = 200;
+
+/** Width of the HTML preview thumbnail, in px */
+export const THUMBNAIL_WIDTH = 160;
+
+/** Largest HTML preview written to the note, in characters */
+export const THUMBNAIL_MAX_LENGTH = 32 * 1024;
+
+export type NoteContent = NoteItem['content'];
+
+export interface PayloadEnvelope {
+  format: typeof PAYLOAD_FORMAT;
+  data: EditorData;
+}
+
+/**
+ * What the Standard Notes note list shows for the note
+ */
+export interface NotePreview {
+  plain: string;
+  /** A thumbnail of the note; null clears any earlier one */
+  html: string | null;
+}
+
+/**
+ * Keys that earlier versions wrote over the note content directly
+ */
+const IN_PLACE_KEYS = ['mode', 'contents', 'content', 'metadata'] as const;
+
+export function isPayloadEnvelope(value: unknown): value is PayloadEnvelope {
+  return !!value && typeof value === 'object' && (value as PayloadEnvelope).format === PAYLOAD_FORMAT;
+}
+
+/**
+ * Whether the content holds a payload written in place of the note's
+ * own keys by an earlier version of the editor: a registered mode with
+ * per-mode contents or a single content slot. Keys another extension
+ * happens to use by the same names are left alone.
+ */
+function isInPlacePayload(content: NoteContent): boolean {
+  if (!pluginRegistry.has(content.mode)) return false;
+
+  if (isObject(content.contents)) {
+    return Object.entries(content.contents).every(([mode, entry]) =>
+      isObject(entry) && isContentShape(entry.content, mode)
+    );
+  }
+  return isContentShape(content.content);
+}
+
+/**
+ * Whether a value is valid content of a registered mode, and of the
+ * given one if any
+ */
+function isContentShape(value: unknown, mode?: string): boolean {
+  if (!isObject(value) || (mode !== undefined && value.type !== mode)) return false;
+
+  let valid = true;
+  validateContentData(value, 'content', () => {
+    valid = false;
+  });
+  return valid;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the editor data from a note. Returns null for a note with nothing
+ * in it yet; text written by any other editor opens in text mode.
+ */
+export function readNoteContent(content: NoteContent): NoteLoadResult | null {
+  const text = typeof content.text === 'string' ? content.text : '';
+
+  if (text.trimStart().startsWith('{')) {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      // Text that merely looks like JSON
+    }
+    if (isPayloadEnvelope(parsed)) {
+      return loadEditorData(parsed.data);
+    }
+  }
+
+  if (isInPlacePayload(content)) {
+    const payload: Record<string, unknown> = {};
+    IN_PLACE_KEYS.forEach((key) => {
+      if (key in content) payload[key] = content[key];
+    });
+    return loadEditorData(payload);
+  }
+
+  return text ? { status: 'ok', data: createPlainTextData(text) } : null;
+}
+
+/**
+ * Note content with the editor data and its preview written into it,
+ * keeping every key the editor does not own
+ */
+export function writeNoteContent(content: NoteContent, data: EditorData, preview: NotePreview): NoteContent {
+  const kept: NoteContent = { ...content };
+  if (isInPlacePayload(content)) {
+    IN_PLACE_KEYS.forEach((key) => delete kept[key]);
+  }
+
+  const envelope: PayloadEnvelope = { format: PAYLOAD_FORMAT, data };
+  return {
+    ...kept,
+    text: JSON.stringify(envelope),
+    preview_plain: preview.plain,
+    // Without a thumbnail, this clears any preview another editor rendered
+    preview_html: preview.html
+  };
+}
+
+/**
+ * Editor data for a note that only has plain text
+ */
+export function createPlainTextData(text: string): EditorData {
+  const now = Date.now();
+  return {
+    mode: 'text',
+    contents: {
+      text: { content: { type: 'text', text }, created: now, modified: now }
+    },
+    metadata: {
+      version: CURRENT_DATA_VERSION,
+      lastMode: 'text',
+      created: now,
+      modified: now
+    }
+  };
+}
+
+/**
+ * Plain-text source of a content entry, or null for drawings
+ */
+export function getSourceText(content: ContentData): string | null {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'markdown':
+      return content.markdown;
+    case 'mermaid':
+      return content.code;
+    case 'document':
+      return content.blocks
+        .map((block) => getSourceText(block.content))
+        .filter((text): text is string => text !== null)
+        .join('\n\n');
+    default:
+      return null;
+  }
+}
+
+/**
+ * The note list preview: what the active mode's descriptor makes of its
+ * content, on one line and shortened
+ */
+export function createPlainPreview(data: EditorData, translator: Translator): string {
+  const content = data.contents[data.mode]?.content;
+  const source = content ? pluginRegistry.createPreview(content, translator) : '';
+  const preview = source.replace(/\s+/g, ' ').trim();
+  return preview.length > PREVIEW_LENGTH
+    ? `${preview.slice(0, PREVIEW_LENGTH - 1).trimEnd()}…`
+    : preview;
+}
+
+/**
+ * A thumbnail of an SVG slide for the note list, or null if it cannot be
+ * made small enough. The host shows the markup as it is, so it passes
+ * through DOMPurify; embedded fonts are dropped to keep it small.
+ */
+export function createHtmlPreview(svgMarkup: string): string | null {
+  const fragment = DOMPurify.sanitize(svgMarkup, {
+    USE_PROFILES: { svg: true, svgFilters: true },
+    RETURN_DOM_FRAGMENT: true
+  });
+  const svg = fragment.querySelector('svg');
+  if (!svg) return null;
+
+  svg.querySelectorAll('style').forEach((style) => {
+    if (style.textContent?.includes('@font-face')) style.remove();
+  });
+
+  // Scale with the viewBox rather than the slide's own size
+  const width = parseFloat(svg.getAttribute('width') || '');
+  const height = parseFloat(svg.getAttribute('height') || '');
+  if (!svg.getAttribute('viewBox') && width > 0 && height > 0) {
+    svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  }
+  svg.setAttribute('width', String(THUMBNAIL_WIDTH));
+  svg.removeAttribute('height');
+  svg.setAttribute('style', `max-width: ${THUMBNAIL_WIDTH}px; height: auto;`);
+
+  const markup = svg.outerHTML;
+  return markup.length > THUMBNAIL_MAX_LENGTH ? null : markup;
+}
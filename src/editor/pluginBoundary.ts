@@ -0,0 +1,63 @@
+/**
+ * Plugin error boundary
+ *
+ * Calls into plugins are caught and, when asynchronous, time-limited so a
+ * broken plugin can be reported without touching the note's data.
+ */
+
+import { withTimeout } from '../utils/timeout';
+import type { EditorMode } from './types';
+
+export const PLUGIN_TIMEOUT_MS = 15000;
+
+export type PluginOperation = 'load' | 'initialize' | 'setData' | 'render' | 'resume' | 'getData';
+
+/**
+ * An error raised by a plugin, tagged with the mode and the failing call
+ */
+export class PluginError extends Error {
+  public readonly mode: EditorMode;
+  public readonly operation: PluginOperation;
+  public readonly cause: unknown;
+
+  constructor(mode: EditorMode, operation: PluginOperation, cause: unknown) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    super(`${mode} plugin failed during ${operation}: ${message}`);
+    this.name = 'PluginError';
+    this.mode = mode;
+    this.operation = operation;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Run a plugin call, converting throws, rejections and timeouts into a
+ * PluginError
+ */
+export async function guardPluginCall<T>(
+  mode: EditorMode,
+  operation: PluginOperation,
+  call: () => T | Promise<T>,
+  timeoutMs: number = PLUGIN_TIMEOUT_MS
+): Promise<T> {
+  try {
+    return await withTimeout(
+      Promise.resolve().then(call),
+      timeoutMs,
+      `Timed out after ${timeoutMs / 1000}s`
+    );
+  } catch (error) {
+    throw error instanceof PluginError ? error : new PluginError(mode, operation, error);
+  }
+}
+
+/**
+ * Synchronous variant for calls such as getData that must return in place
+ */
+export function guardPluginCallSync<T>(mode: EditorMode, operation: PluginOperation, call: () => T): T {
+  try {
+    return call();
+  } catch (error) {
+    throw new PluginError(mode, operation, error);
+  }
+}
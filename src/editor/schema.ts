@@ -0,0 +1,174 @@
+/**
+ * Schema - Structural validation for stored EditorData payloads
+ */
+
+import { pluginRegistry } from './PluginRegistry';
+import type { ValidationError, ValidationResult } from './types';
+
+/**
+ * Validate a payload against the current EditorData schema
+ */
+export function validateEditorData(data: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+  const fail = (message: string) => errors.push({ message, severity: 'error' });
+
+  if (!isObject(data)) {
+    fail('Payload is not an object');
+    return { valid: false, errors };
+  }
+
+  if (!pluginRegistry.has(data.mode)) {
+    fail(`mode: unknown editor mode "${String(data.mode)}"`);
+  }
+
+  validateMetadata(data.metadata, fail);
+
+  if (!isObject(data.contents)) {
+    fail('contents: expected an object');
+  } else {
+    Object.entries(data.contents).forEach(([mode, entry]) => {
+      validateContentEntry(mode, entry, fail);
+    });
+  }
+
+  return errors.length ? { valid: false, errors } : { valid: true };
+}
+
+/**
+ * Validate the metadata block
+ */
+function validateMetadata(metadata: unknown, fail: (message: string) => void): void {
+  if (!isObject(metadata)) {
+    fail('metadata: expected an object');
+    return;
+  }
+
+  if (typeof metadata.version !== 'string') {
+    fail('metadata.version: expected a string');
+  }
+  if (!pluginRegistry.has(metadata.lastMode)) {
+    fail(`metadata.lastMode: unknown editor mode "${String(metadata.lastMode)}"`);
+  }
+  if (typeof metadata.created !== 'number') {
+    fail('metadata.created: expected a number');
+  }
+  if (typeof metadata.modified !== 'number') {
+    fail('metadata.modified: expected a number');
+  }
+}
+
+/**
+ * Validate a single per-mode content entry
+ */
+function validateContentEntry(
+  mode: string,
+  entry: unknown,
+  fail: (message: string) => void
+): void {
+  const path = `contents.${mode}`;
+
+  if (!pluginRegistry.has(mode)) {
+    fail(`${path}: unknown editor mode`);
+    return;
+  }
+  if (!isObject(entry)) {
+    fail(`${path}: expected an object`);
+    return;
+  }
+  if (typeof entry.created !== 'number' || typeof entry.modified !== 'number') {
+    fail(`${path}: expected numeric created/modified timestamps`);
+  }
+
+  const content = entry.content;
+  if (!isObject(content)) {
+    fail(`${path}.content: expected an object`);
+    return;
+  }
+  if (content.type !== mode) {
+    fail(`${path}.content.type: expected "${mode}", got "${String(content.type)}"`);
+    return;
+  }
+
+  validateContentData(content, `${path}.content`, fail);
+}
+
+/**
+ * Validate the fields of a ContentData variant. Built-in types get
+ * field-level messages; other registered modes use their type guard.
+ */
+export function validateContentData(
+  content: Record<string, any>,
+  path: string,
+  fail: (message: string) => void
+): void {
+  switch (content.type) {
+    case 'text':
+      if (typeof content.text !== 'string') {
+        fail(`${path}.text: expected a string`);
+      }
+      break;
+    case 'markdown':
+      if (typeof content.markdown !== 'string') {
+        fail(`${path}.markdown: expected a string`);
+      }
+      break;
+    case 'mermaid':
+      if (typeof content.code !== 'string') {
+        fail(`${path}.code: expected a string`);
+      }
+      if (content.diagramType !== undefined && typeof content.diagramType !== 'string') {
+        fail(`${path}.diagramType: expected a string`);
+      }
+      break;
+    case 'excalidraw':
+      if (!Array.isArray(content.elements)) {
+        fail(`${path}.elements: expected an array`);
+      }
+      if (content.appState !== undefined && content.appState !== null && !isObject(content.appState)) {
+        fail(`${path}.appState: expected an object`);
+      }
+      break;
+    case 'document':
+      if (!Array.isArray(content.blocks)) {
+        fail(`${path}.blocks: expected an array`);
+        break;
+      }
+      content.blocks.forEach((block: unknown, index: number) => {
+        validateDocumentBlock(block, `${path}.blocks[${index}]`, fail);
+      });
+      break;
+    default:
+      if (!pluginRegistry.has(content.type)) {
+        fail(`${path}.type: unknown content type "${String(content.type)}"`);
+      } else if (!pluginRegistry.isContent(content)) {
+        fail(`${path}: invalid ${content.type} content`);
+      }
+  }
+}
+
+/**
+ * Validate a block inside a document
+ */
+function validateDocumentBlock(
+  block: unknown,
+  path: string,
+  fail: (message: string) => void
+): void {
+  if (!isObject(block)) {
+    fail(`${path}: expected an object`);
+    return;
+  }
+  if (typeof block.id !== 'string') {
+    fail(`${path}.id: expected a string`);
+  }
+  if (!isObject(block.content) || !pluginRegistry.getBlockModes().includes(block.content.type)) {
+    fail(`${path}.content: expected content of a block mode (${pluginRegistry.getBlockModes().join(', ')})`);
+    return;
+  }
+
+  validateContentData(block.content, `${path}.content`, fail);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
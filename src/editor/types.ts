@@ -2,7 +2,24 @@
  * Core Type Definitions for Enhanced Editor
  */
 
-export type EditorMode = 'text' | 'mermaid' | 'excalidraw';
+/**
+ * Stored content for each editor mode, keyed by mode id. Plugins built
+ * outside this package add their mode by augmenting this interface.
+ */
+export interface ContentTypeMap {
+  text: TextContent;
+  markdown: MarkdownContent;
+  mermaid: MermaidContent;
+  excalidraw: ExcalidrawContent;
+  document: DocumentContent;
+}
+
+export type EditorMode = keyof ContentTypeMap;
+
+/**
+ * Modes that can be used as blocks inside a document
+ */
+export type BlockMode = Exclude<EditorMode, 'document'>;
 
 export interface BasePlugin {
   id: string;
@@ -14,6 +31,104 @@ export interface BasePlugin {
   getData(): PluginData;
   setData(data: PluginData): void;
   onDataChange?(callback: (data: PluginData) => void): void;
+  getCommands?(): EditorCommand[];
+  setTheme?(theme: ResolvedTheme): void;
+  setTelemetry?(telemetry: MetricsRecorder): void;
+  /** Called before render; plugins register their message bundles here */
+  setTranslator?(translator: Translator): void;
+  setPreferences?(preferences: EditorPreferences): void;
+  setReadOnly?(readOnly: boolean): void;
+  /** SVG markup for each slide of the presentation view */
+  getPresentationSlides?(): Promise<string[]>;
+  /** The plugin's DOM was hidden and is kept for a later switch back */
+  suspend?(): void;
+  /** A suspended plugin's DOM is visible again */
+  resume?(): void;
+  /** Scroll positions, zoom and the like, kept while other notes are open */
+  getViewState?(): PluginViewState;
+  /** Return to a view from getViewState, after setData and render */
+  setViewState?(state: PluginViewState): void;
+}
+
+/**
+ * How a plugin's content is scrolled or zoomed; not saved with the note
+ */
+export type PluginViewState = Record<string, number>;
+
+/**
+ * 'auto' follows the Standard Notes theme, then the system color scheme
+ */
+export type ThemePreference = 'auto' | 'light' | 'dark';
+
+export type ResolvedTheme = 'light' | 'dark';
+
+export type MetricName =
+  | 'editor.interactive'
+  | 'mode.switch'
+  | 'plugin.chunkLoad'
+  | 'mermaid.render'
+  | 'excalidraw.changeInterval'
+  | 'save.latency'
+  | 'save.size';
+
+/**
+ * A message that varies with a count, keyed by Intl.PluralRules category
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Messages for one locale, keyed by id. `{name}` placeholders are filled
+ * from the params passed to `t`.
+ */
+export type MessageBundle = Record<string, string | PluralMessage>;
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Looks up messages in the active locale, falling back to English
+ */
+export interface Translator {
+  readonly locale: string;
+  t(key: string, params?: MessageParams): string;
+  register(locale: string, messages: MessageBundle): void;
+}
+
+/**
+ * Sink for local performance samples; a no-op unless telemetry is enabled
+ */
+export interface MetricsRecorder {
+  readonly enabled: boolean;
+  record(metric: MetricName, value: number, label?: string): void;
+  startTimer(metric: MetricName, label?: string): () => void;
+}
+
+/**
+ * A named action that can be run from the command palette or a keybinding
+ */
+export interface EditorCommand {
+  id: string;
+  title: string;
+  category?: string;
+  /** Default keybinding, e.g. 'Mod+Shift+P' (Mod = Ctrl, or Cmd on macOS) */
+  keybinding?: string;
+  run(): void | Promise<void>;
+  /** Return false to disable the command, e.g. for a given key event target */
+  when?(event?: KeyboardEvent): boolean;
+}
+
+export interface TextStats {
+  words: number;
+  characters: number;
+  lines: number;
+}
+
+export interface TextPlugin extends BasePlugin {
+  id: 'text';
+  openFind(): void;
+  findNext(direction?: 1 | -1): void;
+  setLineNumbers(enabled: boolean): void;
+  setSoftWrap(enabled: boolean): void;
+  getStats(): TextStats;
 }
 
 export interface MermaidPlugin extends BasePlugin {
@@ -21,6 +136,8 @@ export interface MermaidPlugin extends BasePlugin {
   renderDiagram(code: string): Promise<void>;
   validateSyntax(code: string): ValidationResult;
   exportSVG(): Promise<string>;
+  exportPNG(): Promise<void>;
+  insertTemplate(code: string): void;
 }
 
 export interface ExcalidrawPlugin extends BasePlugin {
@@ -31,19 +148,42 @@ export interface ExcalidrawPlugin extends BasePlugin {
   exportSVG(): Promise<string>;
 }
 
+export type MarkdownViewMode = 'edit' | 'split' | 'preview';
+
+export interface MarkdownPlugin extends BasePlugin {
+  id: 'markdown';
+  setViewMode(mode: MarkdownViewMode): void;
+  renderPreview(): Promise<void>;
+  insertText(text: string): void;
+}
+
+export interface DocumentPlugin extends BasePlugin {
+  id: 'document';
+  addBlock(mode: BlockMode): DocumentBlock;
+  moveBlock(blockId: string, offset: number): void;
+  removeBlock(blockId: string): void;
+}
+
 export interface PluginData {
   type: EditorMode;
   content: ContentData;
   metadata?: Record<string, any>;
 }
 
-export type ContentData = TextContent | MermaidContent | ExcalidrawContent;
+export type ContentData = ContentTypeMap[EditorMode];
+
+export type BlockContentData = ContentTypeMap[BlockMode];
 
 export interface TextContent {
   type: 'text';
   text: string;
 }
 
+export interface MarkdownContent {
+  type: 'markdown';
+  markdown: string;
+}
+
 export interface MermaidContent {
   type: 'mermaid';
   code: string;
@@ -56,12 +196,58 @@ export interface ExcalidrawContent {
   appState?: any;
 }
 
+export interface DocumentContent {
+  type: 'document';
+  blocks: DocumentBlock[];
+}
+
+export interface DocumentBlock {
+  id: string;
+  content: BlockContentData;
+}
+
 export interface EditorData {
+  mode: EditorMode;
+  contents: ModeContents;
+  metadata: MetaData;
+}
+
+/**
+ * Content stored for a single mode, with its own timestamps
+ */
+export interface ModeContentEntry {
+  content: ContentData;
+  created: number;
+  modified: number;
+}
+
+export type ModeContents = Partial<Record<EditorMode, ModeContentEntry>>;
+
+/**
+ * Pre-1.1.0 note payload holding a single content slot
+ */
+export interface LegacyEditorData {
   mode: EditorMode;
   content: ContentData;
   metadata: MetaData;
 }
 
+/**
+ * Outcome of reading a stored note payload
+ */
+export type NoteLoadResult =
+  | { status: 'ok'; data: EditorData }
+  | { status: 'quarantined'; quarantine: QuarantineInfo };
+
+/**
+ * A payload that failed validation or migration and is kept read-only
+ */
+export interface QuarantineInfo {
+  reason: string;
+  raw: unknown;
+  errors?: ValidationError[];
+}
+
 export interface MetaData {
   version: string;
   lastMode: EditorMode;
@@ -69,6 +255,18 @@ export interface MetaData {
   modified: number;
 }
 
+/**
+ * A locally stored snapshot of a note taken at a save point
+ */
+export interface Revision {
+  id: string;
+  noteId: string;
+  timestamp: number;
+  mode: EditorMode;
+  size: number;
+  data: EditorData;
+}
+
 export interface ValidationResult {
   valid: boolean;
   errors?: ValidationError[];
@@ -84,8 +282,35 @@ export interface ValidationError {
 export interface EditorConfig {
   autoSave: boolean;
   autoSaveDelay: number;
-  theme: 'light' | 'dark';
+  theme: ThemePreference;
   enableTelemetry: boolean;
+  /** BCP 47 language tag; detected from the host or browser if unset */
+  locale?: string;
+  /** Channel to Standard Notes; defaults to postMessage with the parent window */
+  transport?: ComponentTransport | null;
+  /**
+   * Estimated memory, in MB, that rendered plugins may hold. Past it the
+   * least recently used suspended plugin is destroyed.
+   */
+  pluginMemoryBudget?: number;
+}
+
+/**
+ * Per-user settings, stored in Standard Notes component data
+ */
+export interface EditorPreferences {
+  /** Mode used for notes that have no content yet */
+  defaultMode: EditorMode;
+  autoSaveDelay: number;
+  theme: ThemePreference;
+  /** Delay after typing before the Mermaid preview re-renders, in ms */
+  mermaidRenderDelay: number;
+  /** Height of the Excalidraw canvas, in px */
+  excalidrawHeight: number;
+  /** Keybinding overrides by command id; null removes a binding */
+  keybindings: Record<string, string | null>;
+  /** Save a small rendering of the first slide as the note's HTML preview */
+  htmlPreview: boolean;
 }
 
 export interface EditorState {
@@ -95,6 +320,22 @@ export interface EditorState {
   config: EditorConfig;
   isInitialized: boolean;
   isSaving: boolean;
+  isDirty: boolean;
+  quarantine: QuarantineInfo | null;
+  pluginFailure: PluginFailure | null;
+  /** Editing and saving are disabled, by the user or a locked note */
+  readOnly: boolean;
+  theme: ResolvedTheme;
+}
+
+/**
+ * A plugin that failed to load or run. The note's stored content is kept
+ * as it was and saving is paused until the plugin recovers.
+ */
+export interface PluginFailure {
+  mode: EditorMode;
+  operation: string;
+  message: string;
 }
 
 export interface ErrorContext {
@@ -102,30 +343,80 @@ export interface ErrorContext {
   operation: string;
   critical: boolean;
   metadata?: Record<string, any>;
+  retry?: () => void;
 }
 
+/**
+ * Events emitted by EditorCore, keyed by name with their payload
+ */
+export interface EditorEvents {
+  modeChanged: { mode: EditorMode; previousMode: EditorMode | null };
+  contentChanged: { mode: EditorMode; content: ContentData };
+  pluginLoaded: { mode: EditorMode; plugin: BasePlugin };
+  saved: { noteId: string; data: EditorData };
+  saveFailed: { noteId: string; error: Error };
+  themeChanged: { theme: ResolvedTheme };
+  readOnlyChanged: { readOnly: boolean; locked: boolean };
+  error: { error: Error; context: ErrorContext };
+}
+
+/**
+ * 'json' is the full editor payload; 'text' is the active mode's source
+ */
+export type ExportFormat = 'json' | 'text';
+
 export interface NotificationOptions {
   type: 'info' | 'success' | 'warning' | 'error';
   message: string;
+  /** Notifications with the same id replace each other */
+  id?: string;
   action?: {
     label: string;
     handler: () => void;
   };
   duration?: number;
+  /** Stay until dismissed; defaults to true for errors */
+  persistent?: boolean;
+  /** Extra text shown in an expandable details view */
+  details?: string;
 }
 
 // Standard Notes ComponentRelay Types
+
+/**
+ * Actions of the Standard Notes component protocol used by the editor
+ */
+export type ComponentAction =
+  | 'component-registered'
+  | 'stream-context-item'
+  | 'save-items'
+  | 'set-size'
+  | 'set-component-data'
+  | 'activate-themes'
+  | 'themes-activated'
+  | 'reply';
+
 export interface ComponentRelayMessage {
-  action: string;
+  action: ComponentAction | string;
   data?: any;
   messageId?: string;
+  /** Issued by the host at registration and sent back with every message */
+  sessionKey?: string;
+  api?: 'component';
+  /** For a reply, the message it answers */
+  original?: ComponentRelayMessage;
+  /** Sent with component-registered */
+  componentData?: Record<string, any>;
 }
 
-export interface StandardNotesAPI {
-  streamContextItem(callback: (item: NoteItem) => void): void;
-  saveItem(item: NoteItem): Promise<void>;
-  setComponentData(data: any): void;
-  clearComponentData(): void;
+/**
+ * Channel to the host application. In Standard Notes this is
+ * postMessage to the parent window; tests use a fake host.
+ */
+export interface ComponentTransport {
+  send(message: ComponentRelayMessage, targetOrigin: string): void;
+  /** Subscribe to host messages, returning a function that unsubscribes */
+  listen(handler: (message: unknown, origin: string) => void): () => void;
 }
 
 export interface NoteItem {
@@ -138,4 +429,6 @@ export interface NoteItem {
   };
   created_at: string;
   updated_at: string;
+  /** Set when only metadata such as the lock state changed */
+  isMetadataUpdate?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * I18n - Message catalogs with locale fallback, interpolation and plurals
+ */
+
+import { en } from './locales/en';
+import { de } from './locales/de';
+import { es } from './locales/es';
+import type { MessageBundle, MessageParams, Translator } from '../editor/types';
+
+export const FALLBACK_LOCALE = 'en';
+
+/**
+ * Locales with a complete core catalog
+ */
+export const SUPPORTED_LOCALES = ['en', 'de', 'es'] as const;
+
+const CORE_MESSAGES: Record<string, MessageBundle> = { en, de, es };
+
+export class I18n implements Translator {
+  private currentLocale: string;
+  private bundles: Map<string, MessageBundle> = new Map();
+  private pluralRules: Intl.PluralRules;
+
+  constructor(locale: string = FALLBACK_LOCALE) {
+    this.currentLocale = locale;
+    this.pluralRules = new Intl.PluralRules(locale);
+    registerBundles(this, CORE_MESSAGES);
+  }
+
+  public get locale(): string {
+    return this.currentLocale;
+  }
+
+  /**
+   * Change the locale. Text already rendered is not updated, so this is
+   * meant for use before the UI is built.
+   */
+  public setLocale(locale: string): void {
+    this.currentLocale = locale;
+    this.pluralRules = new Intl.PluralRules(locale);
+  }
+
+  /**
+   * Add messages for a locale; later registrations override earlier ones
+   */
+  public register(locale: string, messages: MessageBundle): void {
+    const key = locale.toLowerCase();
+    this.bundles.set(key, { ...this.bundles.get(key), ...messages });
+  }
+
+  /**
+   * Translate a message id. Looks in the exact locale, its language, then
+   * English, and returns the id itself if no bundle has it.
+   */
+  public t(key: string, params: MessageParams = {}): string {
+    const message = this.lookup(key);
+    if (message === undefined) {
+      console.warn(`Missing message: ${key}`);
+      return key;
+    }
+
+    const template = typeof message === 'string'
+      ? message
+      : message[this.pluralRules.select(Number(params.count ?? 0))] ?? message.other;
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      params[name] !== undefined ? this.formatParam(params[name]) : placeholder
+    );
+  }
+
+  private lookup(key: string): MessageBundle[string] | undefined {
+    const locale = this.locale.toLowerCase();
+    const candidates = [locale, locale.split('-')[0], FALLBACK_LOCALE];
+
+    for (const candidate of candidates) {
+      const message = this.bundles.get(candidate)?.[key];
+      if (message !== undefined) return message;
+    }
+    return undefined;
+  }
+
+  private formatParam(value: string | number): string {
+    return typeof value === 'number' ? value.toLocaleString(this.locale) : value;
+  }
+}
+
+/**
+ * Register a plugin's bundles, keyed by locale
+ */
+export function registerBundles(translator: Translator, bundles: Record<string, MessageBundle>): void {
+  Object.entries(bundles).forEach(([locale, messages]) => translator.register(locale, messages));
+}
+
+/**
+ * Pick the UI locale: an explicit setting, then the host application's
+ * language, then the browser's, using the first with a core catalog
+ */
+export function detectLocale(...preferred: Array<string | undefined>): string {
+  const browser = typeof navigator !== 'undefined'
+    ? [...(navigator.languages || []), navigator.language]
+    : [];
+
+  for (const candidate of [...preferred, ...browser]) {
+    if (!candidate) continue;
+
+    let locale: string;
+    try {
+      [locale] = Intl.getCanonicalLocales(candidate.replace('_', '-'));
+    } catch (error) {
+      continue;
+    }
+
+    if ((SUPPORTED_LOCALES as readonly string[]).includes(locale.split('-')[0])) {
+      return locale;
+    }
+  }
+  return FALLBACK_LOCALE;
+}
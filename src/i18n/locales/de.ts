@@ -0,0 +1,155 @@
+/**
+ * German messages for the editor core
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+export const de: MessageBundle = {
+  'mode.text': 'Text',
+  'mode.markdown': 'Markdown',
+  'mode.mermaid': 'Mermaid',
+  'mode.excalidraw': 'Excalidraw',
+  'mode.document': 'Dokument',
+
+  'toolbar.modes': 'Editor-Modus',
+  'toolbar.commands': 'Befehle',
+  'toolbar.commandsTitle': 'Befehlspalette ({keybinding})',
+  'toolbar.undo': 'Rückgängig',
+  'toolbar.undoTitle': 'Rückgängig ({keybinding})',
+  'toolbar.redo': 'Wiederholen',
+  'toolbar.redoTitle': 'Wiederholen ({keybinding})',
+  'toolbar.revisions': 'Versionen',
+  'toolbar.revisionsTitle': 'Versionsverlauf',
+  'toolbar.readOnly': 'Schreibgeschützt',
+  'toolbar.readOnlyLocked': 'In Standard Notes gesperrt',
+  'toolbar.present': 'Präsentieren',
+  'toolbar.presentTitle': 'Diagramme im Vollbild präsentieren',
+  'toolbar.preferences': 'Einstellungen',
+  'toolbar.save': 'Speichern',
+
+  'status.saved': 'Gespeichert',
+  'status.saving': 'Wird gespeichert…',
+  'status.unsaved': 'Nicht gespeichert',
+  'status.failed': 'Speichern fehlgeschlagen',
+  'status.offline': 'Offline',
+  'status.offlineHint': 'Änderungen werden lokal aufbewahrt und gespeichert, sobald du wieder online bist',
+  'status.paused': 'Speichern pausiert',
+  'status.readOnly': 'Schreibgeschützt',
+
+  'notify.saved': 'Gespeichert',
+  'notify.copied': 'In die Zwischenablage kopiert',
+  'notify.clipboardFailed': 'Kein Zugriff auf die Zwischenablage',
+  'notify.restoredUnsaved': 'Nicht gespeicherte Änderungen wiederhergestellt',
+  'notify.restoredRevision': 'Version vom {date} wiederhergestellt',
+  'notify.merged': {
+    one: 'Zusammengeführt, {count} Konflikt ist in der Notiz markiert',
+    other: 'Zusammengeführt, {count} Konflikte sind in der Notiz markiert'
+  },
+  'notify.quarantined': 'Diese Notiz wurde schreibgeschützt geöffnet, um ihren Inhalt zu schützen',
+  'notify.nothingToPresent': 'Noch nichts zu präsentieren',
+  'notify.retry': 'Erneut versuchen',
+
+  'error.pluginLoad': 'Der {mode}-Editor konnte nicht geladen werden',
+  'error.pluginRun': 'Im {mode}-Editor ist ein Fehler aufgetreten',
+  'error.loadFailed': 'Editor-Plugin konnte nicht geladen werden',
+  'error.network': 'Verbindungsproblem, bitte versuche es erneut',
+  'error.invalidData': 'Notizdaten konnten nicht geladen werden',
+  'error.generic': 'Ein Fehler ist aufgetreten',
+  'error.exportText': '{mode}-Inhalte können nicht als Text exportiert werden',
+
+  'recovery.title': 'Der {mode}-Editor funktioniert nicht mehr',
+  'recovery.reason': '{message}. Deine Notiz wurde nicht verändert. Das Speichern ist pausiert, bis der Editor wieder lädt oder du in einen anderen Modus wechselst.',
+  'recovery.retry': 'Erneut versuchen',
+  'recovery.copy': 'Inhalt kopieren',
+  'recovery.download': 'Inhalt herunterladen',
+
+  'quarantine.title': 'Diese Notiz kann nicht sicher bearbeitet werden',
+  'quarantine.reason': '{reason}. Der gespeicherte Inhalt wird unten angezeigt und nicht verändert.',
+
+  'command.category': 'Editor',
+  'command.palette': 'Alle Befehle anzeigen',
+  'command.save': 'Speichern',
+  'command.undo': 'Rückgängig',
+  'command.redo': 'Wiederholen',
+  'command.preferences': 'Einstellungen öffnen',
+  'command.toggleReadOnly': 'Schreibschutz umschalten',
+  'command.present': 'Diagramme präsentieren',
+  'command.revisions': 'Versionsverlauf anzeigen',
+  'command.switchMode': 'Zum Modus {mode} wechseln',
+  'command.diagnostics': 'Leistungsdiagnose anzeigen',
+  'command.theme.auto': 'Systemdesign verwenden',
+  'command.theme.light': 'Helles Design verwenden',
+  'command.theme.dark': 'Dunkles Design verwenden',
+
+  'palette.label': 'Befehlspalette',
+  'palette.placeholder': 'Befehl eingeben…',
+  'palette.hint': 'Enter zum Ausführen · ✎ zum Ändern eines Tastenkürzels · Esc zum Schließen',
+  'palette.recording': 'Tasten drücken…',
+  'palette.changeShortcut': 'Tastenkürzel ändern',
+  'palette.changeShortcutFor': 'Tastenkürzel für {command} ändern',
+
+  'notifications.label': 'Benachrichtigungen',
+  'notifications.dismiss': 'Benachrichtigung schließen',
+  'notifications.details': 'Details',
+  'notifications.repeated': {
+    one: '{count}-mal wiederholt',
+    other: '{count}-mal wiederholt'
+  },
+
+  'revisions.title': 'Versionen',
+  'revisions.close': 'Schließen',
+  'revisions.closeLabel': 'Versionen schließen',
+  'revisions.empty': 'Noch keine Versionen. Bei jedem Speichern der Notiz wird eine Version angelegt.',
+  'revisions.restore': 'Wiederherstellen',
+  'revisions.restoreLabel': 'Version vom {date} wiederherstellen',
+  'revisions.diff': 'Vergleichen',
+  'revisions.diffLabel': 'Version vom {date} mit dem aktuellen Stand vergleichen',
+  'revisions.diffTitle': 'Änderungen seit dieser Version',
+
+  'presentation.label': 'Präsentation',
+  'presentation.previous': 'Vorherige Folie',
+  'presentation.next': 'Nächste Folie',
+  'presentation.exit': 'Beenden',
+  'presentation.exitLabel': 'Präsentation beenden',
+  'presentation.slide': 'Folie {index} von {count}',
+
+  'preferences.title': 'Einstellungen',
+  'preferences.close': 'Einstellungen schließen',
+  'preferences.defaultMode': 'Standardmodus für neue Notizen',
+  'preferences.theme': 'Design',
+  'preferences.autoSaveDelay': 'Verzögerung beim automatischen Speichern (ms)',
+  'preferences.mermaidRenderDelay': 'Verzögerung der Mermaid-Vorschau (ms)',
+  'preferences.excalidrawHeight': 'Höhe der Excalidraw-Zeichenfläche (px)',
+  'preferences.htmlPreview': 'Miniaturvorschau',
+  'preferences.keybindings': 'Tastenkürzel',
+  'preferences.resetKeybindings': 'Tastenkürzel zurücksetzen',
+  'preferences.resetAll': 'Alles zurücksetzen',
+  'preferences.keybindingsCustom': {
+    one: '{count} angepasst · Änderungen über die Befehlspalette',
+    other: '{count} angepasst · Änderungen über die Befehlspalette'
+  },
+  'preferences.keybindingsDefault': 'Standard · Änderungen über die Befehlspalette',
+  'preferences.theme.auto': 'Wie Standard Notes / System',
+  'preferences.theme.light': 'Hell',
+  'preferences.theme.dark': 'Dunkel',
+
+  'diagnostics.title': 'Leistungsdiagnose',
+  'diagnostics.close': 'Diagnose schließen',
+  'diagnostics.note': 'Messwerte werden nur im Speicher dieses Geräts gehalten und beim Neuladen gelöscht.',
+  'diagnostics.metric': 'Messwert',
+  'diagnostics.count': 'Anzahl',
+  'diagnostics.max': 'Max.',
+  'diagnostics.target': 'Ziel',
+  'diagnostics.clear': 'Leeren',
+  'diagnostics.export': 'Als JSON exportieren',
+  'diagnostics.empty': 'Noch keine Messwerte',
+
+  'conflict.title': 'Diese Notiz wurde auf einem anderen Gerät geändert',
+  'conflict.description': 'Während du ungespeicherte Änderungen hattest, ist eine Aktualisierung eingetroffen. Wähle, wie sie zusammengeführt werden sollen.',
+  'conflict.local': 'Deine Änderungen',
+  'conflict.remote': 'Eingehende Änderungen',
+  'conflict.none': 'keine',
+  'conflict.merge': 'Zusammenführen',
+  'conflict.keepLocal': 'Meine behalten',
+  'conflict.useRemote': 'Eingehende übernehmen'
+};
@@ -0,0 +1,155 @@
+/**
+ * English messages for the editor core; the fallback for every locale
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+export const en: MessageBundle = {
+  'mode.text': 'Text',
+  'mode.markdown': 'Markdown',
+  'mode.mermaid': 'Mermaid',
+  'mode.excalidraw': 'Excalidraw',
+  'mode.document': 'Document',
+
+  'toolbar.modes': 'Editor mode',
+  'toolbar.commands': 'Commands',
+  'toolbar.commandsTitle': 'Command palette ({keybinding})',
+  'toolbar.undo': 'Undo',
+  'toolbar.undoTitle': 'Undo ({keybinding})',
+  'toolbar.redo': 'Redo',
+  'toolbar.redoTitle': 'Redo ({keybinding})',
+  'toolbar.revisions': 'Revisions',
+  'toolbar.revisionsTitle': 'Revision history',
+  'toolbar.readOnly': 'Read-only',
+  'toolbar.readOnlyLocked': 'Locked in Standard Notes',
+  'toolbar.present': 'Present',
+  'toolbar.presentTitle': 'Present diagrams full screen',
+  'toolbar.preferences': 'Preferences',
+  'toolbar.save': 'Save',
+
+  'status.saved': 'Saved',
+  'status.saving': 'Saving…',
+  'status.unsaved': 'Unsaved',
+  'status.failed': 'Save failed',
+  'status.offline': 'Offline',
+  'status.offlineHint': 'Changes are kept locally and will be saved when you are back online',
+  'status.paused': 'Saving paused',
+  'status.readOnly': 'Read-only',
+
+  'notify.saved': 'Saved',
+  'notify.copied': 'Copied to clipboard',
+  'notify.clipboardFailed': 'Could not access the clipboard',
+  'notify.restoredUnsaved': 'Restored changes that had not been saved',
+  'notify.restoredRevision': 'Restored revision from {date}',
+  'notify.merged': {
+    one: 'Merged with {count} conflicting change marked in the note',
+    other: 'Merged with {count} conflicting changes marked in the note'
+  },
+  'notify.quarantined': 'This note was opened read-only to protect its content',
+  'notify.nothingToPresent': 'Nothing to present yet',
+  'notify.retry': 'Retry',
+
+  'error.pluginLoad': 'The {mode} editor failed to load',
+  'error.pluginRun': 'The {mode} editor failed to run',
+  'error.loadFailed': 'Failed to load editor plugin',
+  'error.network': 'Connection issue, please try again',
+  'error.invalidData': 'Unable to load note data',
+  'error.generic': 'An error occurred',
+  'error.exportText': '{mode} content cannot be exported as text',
+
+  'recovery.title': 'The {mode} editor stopped working',
+  'recovery.reason': '{message}. Your note has not been changed and saving is paused until the editor loads again or you switch to another mode.',
+  'recovery.retry': 'Retry',
+  'recovery.copy': 'Copy content',
+  'recovery.download': 'Download content',
+
+  'quarantine.title': 'This note can\'t be edited safely',
+  'quarantine.reason': '{reason}. The stored content is shown below and will not be modified.',
+
+  'command.category': 'Editor',
+  'command.palette': 'Show All Commands',
+  'command.save': 'Save',
+  'command.undo': 'Undo',
+  'command.redo': 'Redo',
+  'command.preferences': 'Open Preferences',
+  'command.toggleReadOnly': 'Toggle Read-Only',
+  'command.present': 'Present Diagrams',
+  'command.revisions': 'Show Revision History',
+  'command.switchMode': 'Switch to {mode} Mode',
+  'command.diagnostics': 'Show Performance Diagnostics',
+  'command.theme.auto': 'Use System Theme',
+  'command.theme.light': 'Use Light Theme',
+  'command.theme.dark': 'Use Dark Theme',
+
+  'palette.label': 'Command palette',
+  'palette.placeholder': 'Type a command…',
+  'palette.hint': 'Enter to run · ✎ to change a shortcut · Esc to close',
+  'palette.recording': 'Press keys…',
+  'palette.changeShortcut': 'Change shortcut',
+  'palette.changeShortcutFor': 'Change shortcut for {command}',
+
+  'notifications.label': 'Notifications',
+  'notifications.dismiss': 'Dismiss notification',
+  'notifications.details': 'Details',
+  'notifications.repeated': {
+    one: 'repeated {count} time',
+    other: 'repeated {count} times'
+  },
+
+  'revisions.title': 'Revisions',
+  'revisions.close': 'Close',
+  'revisions.closeLabel': 'Close revisions',
+  'revisions.empty': 'No revisions yet. Revisions are taken each time the note is saved.',
+  'revisions.restore': 'Restore',
+  'revisions.restoreLabel': 'Restore revision from {date}',
+  'revisions.diff': 'Diff',
+  'revisions.diffLabel': 'Compare revision from {date} with current',
+  'revisions.diffTitle': 'Changes since this revision',
+
+  'presentation.label': 'Presentation',
+  'presentation.previous': 'Previous slide',
+  'presentation.next': 'Next slide',
+  'presentation.exit': 'Exit',
+  'presentation.exitLabel': 'Exit presentation',
+  'presentation.slide': 'Slide {index} of {count}',
+
+  'preferences.title': 'Preferences',
+  'preferences.close': 'Close preferences',
+  'preferences.defaultMode': 'Default mode for new notes',
+  'preferences.theme': 'Theme',
+  'preferences.autoSaveDelay': 'Autosave delay (ms)',
+  'preferences.mermaidRenderDelay': 'Mermaid preview delay (ms)',
+  'preferences.excalidrawHeight': 'Excalidraw canvas height (px)',
+  'preferences.htmlPreview': 'Thumbnail preview',
+  'preferences.keybindings': 'Keyboard shortcuts',
+  'preferences.resetKeybindings': 'Reset shortcuts',
+  'preferences.resetAll': 'Reset all',
+  'preferences.keybindingsCustom': {
+    one: '{count} customized · change them from the command palette',
+    other: '{count} customized · change them from the command palette'
+  },
+  'preferences.keybindingsDefault': 'Defaults · change them from the command palette',
+  'preferences.theme.auto': 'Match Standard Notes / system',
+  'preferences.theme.light': 'Light',
+  'preferences.theme.dark': 'Dark',
+
+  'diagnostics.title': 'Performance diagnostics',
+  'diagnostics.close': 'Close diagnostics',
+  'diagnostics.note': 'Metrics are kept in memory on this device only and are cleared on reload.',
+  'diagnostics.metric': 'Metric',
+  'diagnostics.count': 'Count',
+  'diagnostics.max': 'Max',
+  'diagnostics.target': 'Target',
+  'diagnostics.clear': 'Clear',
+  'diagnostics.export': 'Export JSON',
+  'diagnostics.empty': 'No samples yet',
+
+  'conflict.title': 'This note changed on another device',
+  'conflict.description': 'An update arrived while you had unsaved changes. Choose how to combine them.',
+  'conflict.local': 'Your changes',
+  'conflict.remote': 'Incoming changes',
+  'conflict.none': 'none',
+  'conflict.merge': 'Merge',
+  'conflict.keepLocal': 'Keep mine',
+  'conflict.useRemote': 'Use incoming'
+};
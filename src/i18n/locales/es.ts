@@ -0,0 +1,155 @@
+/**
+ * Spanish messages for the editor core
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+export const es: MessageBundle = {
+  'mode.text': 'Texto',
+  'mode.markdown': 'Markdown',
+  'mode.mermaid': 'Mermaid',
+  'mode.excalidraw': 'Excalidraw',
+  'mode.document': 'Documento',
+
+  'toolbar.modes': 'Modo del editor',
+  'toolbar.commands': 'Comandos',
+  'toolbar.commandsTitle': 'Paleta de comandos ({keybinding})',
+  'toolbar.undo': 'Deshacer',
+  'toolbar.undoTitle': 'Deshacer ({keybinding})',
+  'toolbar.redo': 'Rehacer',
+  'toolbar.redoTitle': 'Rehacer ({keybinding})',
+  'toolbar.revisions': 'Versiones',
+  'toolbar.revisionsTitle': 'Historial de versiones',
+  'toolbar.readOnly': 'Solo lectura',
+  'toolbar.readOnlyLocked': 'Bloqueada en Standard Notes',
+  'toolbar.present': 'Presentar',
+  'toolbar.presentTitle': 'Presentar diagramas a pantalla completa',
+  'toolbar.preferences': 'Preferencias',
+  'toolbar.save': 'Guardar',
+
+  'status.saved': 'Guardado',
+  'status.saving': 'Guardando…',
+  'status.unsaved': 'Sin guardar',
+  'status.failed': 'Error al guardar',
+  'status.offline': 'Sin conexión',
+  'status.offlineHint': 'Los cambios se conservan localmente y se guardarán cuando vuelvas a estar en línea',
+  'status.paused': 'Guardado en pausa',
+  'status.readOnly': 'Solo lectura',
+
+  'notify.saved': 'Guardado',
+  'notify.copied': 'Copiado al portapapeles',
+  'notify.clipboardFailed': 'No se pudo acceder al portapapeles',
+  'notify.restoredUnsaved': 'Se restauraron cambios que no se habían guardado',
+  'notify.restoredRevision': 'Se restauró la versión del {date}',
+  'notify.merged': {
+    one: 'Combinado con {count} cambio en conflicto marcado en la nota',
+    other: 'Combinado con {count} cambios en conflicto marcados en la nota'
+  },
+  'notify.quarantined': 'Esta nota se abrió en solo lectura para proteger su contenido',
+  'notify.nothingToPresent': 'Todavía no hay nada que presentar',
+  'notify.retry': 'Reintentar',
+
+  'error.pluginLoad': 'No se pudo cargar el editor de {mode}',
+  'error.pluginRun': 'El editor de {mode} ha fallado',
+  'error.loadFailed': 'No se pudo cargar el complemento del editor',
+  'error.network': 'Problema de conexión, inténtalo de nuevo',
+  'error.invalidData': 'No se pudieron cargar los datos de la nota',
+  'error.generic': 'Se produjo un error',
+  'error.exportText': 'El contenido de {mode} no se puede exportar como texto',
+
+  'recovery.title': 'El editor de {mode} dejó de funcionar',
+  'recovery.reason': '{message}. Tu nota no se ha modificado y el guardado está en pausa hasta que el editor vuelva a cargar o cambies a otro modo.',
+  'recovery.retry': 'Reintentar',
+  'recovery.copy': 'Copiar contenido',
+  'recovery.download': 'Descargar contenido',
+
+  'quarantine.title': 'Esta nota no se puede editar de forma segura',
+  'quarantine.reason': '{reason}. El contenido guardado se muestra abajo y no se modificará.',
+
+  'command.category': 'Editor',
+  'command.palette': 'Mostrar todos los comandos',
+  'command.save': 'Guardar',
+  'command.undo': 'Deshacer',
+  'command.redo': 'Rehacer',
+  'command.preferences': 'Abrir preferencias',
+  'command.toggleReadOnly': 'Activar o desactivar solo lectura',
+  'command.present': 'Presentar diagramas',
+  'command.revisions': 'Mostrar historial de versiones',
+  'command.switchMode': 'Cambiar al modo {mode}',
+  'command.diagnostics': 'Mostrar diagnóstico de rendimiento',
+  'command.theme.auto': 'Usar el tema del sistema',
+  'command.theme.light': 'Usar el tema claro',
+  'command.theme.dark': 'Usar el tema oscuro',
+
+  'palette.label': 'Paleta de comandos',
+  'palette.placeholder': 'Escribe un comando…',
+  'palette.hint': 'Intro para ejecutar · ✎ para cambiar un atajo · Esc para cerrar',
+  'palette.recording': 'Pulsa las teclas…',
+  'palette.changeShortcut': 'Cambiar atajo',
+  'palette.changeShortcutFor': 'Cambiar el atajo de {command}',
+
+  'notifications.label': 'Notificaciones',
+  'notifications.dismiss': 'Descartar notificación',
+  'notifications.details': 'Detalles',
+  'notifications.repeated': {
+    one: 'repetida {count} vez',
+    other: 'repetida {count} veces'
+  },
+
+  'revisions.title': 'Versiones',
+  'revisions.close': 'Cerrar',
+  'revisions.closeLabel': 'Cerrar versiones',
+  'revisions.empty': 'Todavía no hay versiones. Se crea una versión cada vez que se guarda la nota.',
+  'revisions.restore': 'Restaurar',
+  'revisions.restoreLabel': 'Restaurar la versión del {date}',
+  'revisions.diff': 'Comparar',
+  'revisions.diffLabel': 'Comparar la versión del {date} con la actual',
+  'revisions.diffTitle': 'Cambios desde esta versión',
+
+  'presentation.label': 'Presentación',
+  'presentation.previous': 'Diapositiva anterior',
+  'presentation.next': 'Diapositiva siguiente',
+  'presentation.exit': 'Salir',
+  'presentation.exitLabel': 'Salir de la presentación',
+  'presentation.slide': 'Diapositiva {index} de {count}',
+
+  'preferences.title': 'Preferencias',
+  'preferences.close': 'Cerrar preferencias',
+  'preferences.defaultMode': 'Modo predeterminado para notas nuevas',
+  'preferences.theme': 'Tema',
+  'preferences.autoSaveDelay': 'Retraso del guardado automático (ms)',
+  'preferences.mermaidRenderDelay': 'Retraso de la vista previa de Mermaid (ms)',
+  'preferences.excalidrawHeight': 'Altura del lienzo de Excalidraw (px)',
+  'preferences.htmlPreview': 'Vista previa en miniatura',
+  'preferences.keybindings': 'Atajos de teclado',
+  'preferences.resetKeybindings': 'Restablecer atajos',
+  'preferences.resetAll': 'Restablecer todo',
+  'preferences.keybindingsCustom': {
+    one: '{count} personalizado · cámbialos desde la paleta de comandos',
+    other: '{count} personalizados · cámbialos desde la paleta de comandos'
+  },
+  'preferences.keybindingsDefault': 'Predeterminados · cámbialos desde la paleta de comandos',
+  'preferences.theme.auto': 'Igual que Standard Notes / el sistema',
+  'preferences.theme.light': 'Claro',
+  'preferences.theme.dark': 'Oscuro',
+
+  'diagnostics.title': 'Diagnóstico de rendimiento',
+  'diagnostics.close': 'Cerrar diagnóstico',
+  'diagnostics.note': 'Las métricas se guardan solo en la memoria de este dispositivo y se borran al recargar.',
+  'diagnostics.metric': 'Métrica',
+  'diagnostics.count': 'Muestras',
+  'diagnostics.max': 'Máx.',
+  'diagnostics.target': 'Objetivo',
+  'diagnostics.clear': 'Borrar',
+  'diagnostics.export': 'Exportar JSON',
+  'diagnostics.empty': 'Todavía no hay muestras',
+
+  'conflict.title': 'Esta nota cambió en otro dispositivo',
+  'conflict.description': 'Llegó una actualización mientras tenías cambios sin guardar. Elige cómo combinarlos.',
+  'conflict.local': 'Tus cambios',
+  'conflict.remote': 'Cambios entrantes',
+  'conflict.none': 'ninguno',
+  'conflict.merge': 'Combinar',
+  'conflict.keepLocal': 'Conservar los míos',
+  'conflict.useRemote': 'Usar los entrantes'
+};
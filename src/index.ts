@@ -3,6 +3,7 @@
  */
 
 import { EditorCore } from './editor/EditorCore';
+import { PluginRegistry, pluginRegistry } from './editor/PluginRegistry';
 import './styles/main.scss';
 
 // Initialize the editor when DOM is ready
@@ -23,7 +24,7 @@ function init() {
   const editor = new EditorCore(container, {
     autoSave: true,
     autoSaveDelay: 500,
-    theme: 'light',
+    theme: 'auto',
     enableTelemetry: false
   });
 
@@ -36,5 +37,19 @@ function init() {
 }
 
 // Export for use as library
-export { EditorCore };
+export { EditorCore, PluginRegistry, pluginRegistry };
+export type { PluginDescriptor, PluginLoadContext } from './editor/PluginRegistry';
+export type {
+  BasePlugin,
+  ContentTypeMap,
+  EditorConfig,
+  EditorData,
+  EditorEvents,
+  EditorMode,
+  ExportFormat,
+  MessageBundle,
+  NoteLoadResult,
+  ThemePreference,
+  Translator
+} from './editor/types';
 export default EditorCore;
\ No newline at end of file
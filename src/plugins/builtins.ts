@@ -0,0 +1,117 @@
+/**
+ * Descriptors for the modes that ship with the editor. Each plugin's code
+ * is in its own chunk, loaded the first time the mode is used or
+ * prefetched once the editor is idle. Memory costs are rough estimates
+ * for a typical note.
+ */
+
+import { MERMAID_MESSAGES } from './mermaid/messages';
+import {
+  previewDocument,
+  previewExcalidraw,
+  previewMarkdown,
+  previewMermaid,
+  previewText
+} from './previews';
+import { TextPlugin } from './text/TextPlugin';
+import type { PluginDescriptor } from '../editor/PluginRegistry';
+import type {
+  DocumentContent,
+  ExcalidrawContent,
+  MarkdownContent,
+  MermaidContent,
+  TextContent
+} from '../editor/types';
+
+// One import per chunk, shared by load and prefetch
+const importMarkdownPlugin = () => import(
+  /* webpackChunkName: "markdown" */
+  './markdown/MarkdownPlugin'
+);
+const importMermaidPlugin = () => import(
+  /* webpackChunkName: "mermaid" */
+  './mermaid/MermaidPlugin'
+);
+const importExcalidrawPlugin = () => import(
+  /* webpackChunkName: "excalidraw" */
+  './excalidraw/ExcalidrawPlugin'
+);
+const importDocumentPlugin = () => import(
+  /* webpackChunkName: "document" */
+  './document/DocumentPlugin'
+);
+
+export const textDescriptor: PluginDescriptor<'text'> = {
+  id: 'text',
+  label: 'Text',
+  icon: '¶',
+  load: async () => new TextPlugin(),
+  memoryCost: 1,
+  isContent: (content): content is TextContent =>
+    content.type === 'text' && typeof content.text === 'string',
+  createDefaultContent: () => ({ type: 'text', text: '' }),
+  preview: previewText
+};
+
+export const markdownDescriptor: PluginDescriptor<'markdown'> = {
+  id: 'markdown',
+  label: 'Markdown',
+  icon: 'M↓',
+  load: async () => new (await importMarkdownPlugin()).MarkdownPlugin(),
+  prefetch: importMarkdownPlugin,
+  memoryCost: 8,
+  isContent: (content): content is MarkdownContent =>
+    content.type === 'markdown' && typeof content.markdown === 'string',
+  createDefaultContent: () => ({ type: 'markdown', markdown: '' }),
+  preview: previewMarkdown
+};
+
+export const mermaidDescriptor: PluginDescriptor<'mermaid'> = {
+  id: 'mermaid',
+  label: 'Mermaid',
+  icon: '◇',
+  load: async () => new (await importMermaidPlugin()).MermaidPlugin(),
+  prefetch: importMermaidPlugin,
+  memoryCost: 20,
+  isContent: (content): content is MermaidContent =>
+    content.type === 'mermaid' && typeof content.code === 'string',
+  createDefaultContent: () => ({ type: 'mermaid', code: '' }),
+  preview: previewMermaid,
+  // The preview describes diagrams before the plugin has loaded
+  messages: MERMAID_MESSAGES
+};
+
+export const excalidrawDescriptor: PluginDescriptor<'excalidraw'> = {
+  id: 'excalidraw',
+  label: 'Excalidraw',
+  icon: '✎',
+  load: async () => new (await importExcalidrawPlugin()).ExcalidrawPlugin(),
+  prefetch: importExcalidrawPlugin,
+  memoryCost: 60,
+  isContent: (content): content is ExcalidrawContent =>
+    content.type === 'excalidraw' && Array.isArray(content.elements),
+  createDefaultContent: () => ({ type: 'excalidraw', elements: [] }),
+  preview: previewExcalidraw
+};
+
+export const documentDescriptor: PluginDescriptor<'document'> = {
+  id: 'document',
+  label: 'Document',
+  icon: '▤',
+  block: false,
+  load: async (context) => new (await importDocumentPlugin()).DocumentPlugin(context),
+  prefetch: importDocumentPlugin,
+  memoryCost: 30,
+  isContent: (content): content is DocumentContent =>
+    content.type === 'document' && Array.isArray(content.blocks),
+  createDefaultContent: () => ({ type: 'document', blocks: [] }),
+  preview: previewDocument
+};
+
+export const BUILTIN_PLUGINS: PluginDescriptor[] = [
+  textDescriptor,
+  markdownDescriptor,
+  mermaidDescriptor,
+  excalidrawDescriptor,
+  documentDescriptor
+] as PluginDescriptor[];
@@ -0,0 +1,430 @@
+/**
+ * Document Plugin - Ordered blocks of content from any registered block mode
+ */
+
+import { DOCUMENT_MESSAGES } from './messages';
+import { I18n, registerBundles } from '../../i18n/I18n';
+import { isSameContent } from '../../editor/merge';
+import type { PluginLoadContext } from '../../editor/PluginRegistry';
+import type {
+  BasePlugin,
+  BlockContentData,
+  BlockMode,
+  DocumentBlock,
+  DocumentPlugin as IDocumentPlugin,
+  EditorPreferences,
+  PluginData,
+  ResolvedTheme,
+  Translator
+} from '../../editor/types';
+
+export class DocumentPlugin implements IDocumentPlugin {
+  public readonly id = 'document' as const;
+  public readonly name = 'Document Editor';
+  public readonly version = '1.0.0';
+
+  private container: HTMLElement | null = null;
+  private blocks: DocumentBlock[] = [];
+  private blockPlugins: Map<string, BasePlugin> = new Map();
+  private context: PluginLoadContext;
+  private changeCallback: ((data: PluginData) => void) | null = null;
+  private renderGeneration: number = 0;
+  private theme: ResolvedTheme = 'light';
+  private preferences: EditorPreferences | null = null;
+  private readOnly: boolean = false;
+  private translator: Translator = new I18n();
+
+  constructor(context: PluginLoadContext) {
+    this.context = context;
+    registerBundles(this.translator, DOCUMENT_MESSAGES);
+  }
+
+  /**
+   * Block plugins get the translator from the plugin factory
+   */
+  public setTranslator(translator: Translator): void {
+    registerBundles(translator, DOCUMENT_MESSAGES);
+    this.translator = translator;
+  }
+
+  /**
+   * Initialize the document editor
+   */
+  public async initialize(): Promise<void> {
+    // Block plugins are created and initialized as blocks render
+  }
+
+  /**
+   * Destroy and cleanup
+   */
+  public destroy(): void {
+    this.renderGeneration++;
+    this.destroyBlockPlugins();
+    this.container = null;
+    this.changeCallback = null;
+  }
+
+  public suspend(): void {
+    this.blockPlugins.forEach((plugin) => plugin.suspend?.());
+  }
+
+  public resume(): void {
+    this.blockPlugins.forEach((plugin) => plugin.resume?.());
+  }
+
+  /**
+   * Pass the theme on to every block plugin
+   */
+  public setTheme(theme: ResolvedTheme): void {
+    this.theme = theme;
+    this.blockPlugins.forEach((plugin) => plugin.setTheme?.(theme));
+  }
+
+  /**
+   * Pass preferences on to every block plugin
+   */
+  public setPreferences(preferences: EditorPreferences): void {
+    this.preferences = preferences;
+    this.blockPlugins.forEach((plugin) => plugin.setPreferences?.(preferences));
+  }
+
+  /**
+   * Lock every block and hide the add, move and remove controls
+   */
+  public setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+    this.container?.querySelector('.document-editor')?.classList.toggle('document-readonly', readOnly);
+    this.blockPlugins.forEach((plugin) => plugin.setReadOnly?.(readOnly));
+  }
+
+  /**
+   * Slides from every block that can present, in document order
+   */
+  public async getPresentationSlides(): Promise<string[]> {
+    const slides: string[] = [];
+    for (const block of this.blocks) {
+      const plugin = this.blockPlugins.get(block.id);
+      if (plugin?.getPresentationSlides) {
+        slides.push(...await plugin.getPresentationSlides());
+      }
+    }
+    return slides;
+  }
+
+  /**
+   * Render the plugin UI
+   */
+  public render(container: HTMLElement): void {
+    this.container = container;
+
+    container.innerHTML = `
+      <div class="document-editor${this.readOnly ? ' document-readonly' : ''}">
+        <div class="document-blocks"></div>
+        <div class="document-add-bar" role="group" aria-label="${this.translator.t('document.addBlock')}">
+          ${this.context.getBlockModes().map((mode) => `
+            <button class="document-add-btn" data-block-mode="${mode}">
+              ${this.translator.t('document.addBlockOf', { mode: this.translator.t(`mode.${mode}`) })}
+            </button>
+          `).join('')}
+        </div>
+      </div>
+    `;
+
+    container.querySelectorAll('.document-add-btn').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        this.addBlock(btn.getAttribute('data-block-mode') as BlockMode);
+      });
+    });
+
+    this.renderBlocks();
+  }
+
+  /**
+   * Rebuild every block and its plugin
+   */
+  private renderBlocks(): void {
+    const list = this.container?.querySelector('.document-blocks');
+    if (!list) return;
+
+    this.renderGeneration++;
+    this.destroyBlockPlugins();
+    list.innerHTML = '';
+
+    this.blocks.forEach((block) => {
+      list.appendChild(this.createBlockElement(block));
+    });
+  }
+
+  /**
+   * Bring the rendered blocks in line with the data. Blocks that are still
+   * there keep their element and plugin, which is given the new content,
+   * so focus, caret, scroll and canvas viewport survive undo, history
+   * restores and merges; only added or removed blocks mount or unmount.
+   */
+  private syncBlocks(): void {
+    const list = this.container?.querySelector('.document-blocks');
+    if (!list) return;
+
+    const elements: Map<string, HTMLElement> = new Map();
+    list.querySelectorAll<HTMLElement>('.document-block').forEach((element) => {
+      const block = this.blocks.find((item) => item.id === element.dataset.blockId);
+
+      // A block whose mode changed needs a plugin of the new mode
+      if (block && element.classList.contains(`document-block-${block.content.type}`)) {
+        elements.set(block.id, element);
+        return;
+      }
+      this.destroyBlockPlugin(element.dataset.blockId!);
+      element.remove();
+    });
+
+    const focused = document.activeElement as HTMLElement | null;
+    let next = list.firstElementChild;
+    this.blocks.forEach((block) => {
+      const element = elements.get(block.id);
+      if (!element) {
+        list.insertBefore(this.createBlockElement(block), next);
+        return;
+      }
+
+      const plugin = this.blockPlugins.get(block.id);
+      if (plugin && !isSameContent(plugin.getData().content, block.content)) {
+        plugin.setData({ type: block.content.type, content: block.content });
+      }
+
+      // Only move elements that are out of order
+      if (element === next) {
+        next = next.nextElementSibling;
+      } else {
+        list.insertBefore(element, next);
+      }
+    });
+
+    if (focused && focused !== document.activeElement && list.contains(focused)) {
+      focused.focus();
+    }
+  }
+
+  /**
+   * Create the DOM for a block and mount its plugin
+   */
+  private createBlockElement(block: DocumentBlock): HTMLElement {
+    const element = document.createElement('section');
+    element.className = `document-block document-block-${block.content.type}`;
+    element.dataset.blockId = block.id;
+    const t = (key: string, params?: Record<string, string>) => this.translator.t(key, params);
+    const label = t(`mode.${block.content.type}`);
+    element.tabIndex = -1;
+    element.setAttribute('aria-label', t('document.blockLabel', { mode: label }));
+    element.innerHTML = `
+      <div class="document-block-header">
+        <span class="document-block-label">${label}</span>
+        <div class="document-block-actions">
+          <button class="document-block-up" title="${t('document.moveUp')}" aria-label="${t('document.moveUpLabel')}">↑</button>
+          <button class="document-block-down" title="${t('document.moveDown')}" aria-label="${t('document.moveDownLabel')}">↓</button>
+          <button class="document-block-remove" title="${t('document.remove')}" aria-label="${t('document.remove')}">×</button>
+        </div>
+      </div>
+      <div class="document-block-body"></div>
+    `;
+
+    element.querySelector('.document-block-up')?.addEventListener('click', () => {
+      this.moveBlock(block.id, -1);
+    });
+    element.querySelector('.document-block-down')?.addEventListener('click', () => {
+      this.moveBlock(block.id, 1);
+    });
+    element.querySelector('.document-block-remove')?.addEventListener('click', () => {
+      this.removeBlock(block.id);
+    });
+
+    this.mountBlockPlugin(block, element.querySelector('.document-block-body') as HTMLElement);
+    return element;
+  }
+
+  /**
+   * Create, initialize and render the plugin for a block
+   */
+  private async mountBlockPlugin(block: DocumentBlock, body: HTMLElement): Promise<void> {
+    const generation = this.renderGeneration;
+
+    try {
+      const plugin = await this.context.createPlugin(block.content.type);
+      await plugin.initialize();
+
+      // A newer render or destroy happened while loading, or the block
+      // was removed or changed mode
+      const current = this.getBlock(block.id);
+      if (generation !== this.renderGeneration || current?.content.type !== block.content.type ||
+          !body.isConnected) {
+        plugin.destroy();
+        return;
+      }
+
+      plugin.setData({ type: current.content.type, content: current.content });
+      plugin.setTheme?.(this.theme);
+      if (this.preferences) {
+        plugin.setPreferences?.(this.preferences);
+      }
+      plugin.setReadOnly?.(this.readOnly);
+      plugin.render(body);
+      plugin.onDataChange?.((data) => {
+        // setData replaces the block objects, so look the block up again
+        const changed = this.getBlock(block.id);
+        if (changed) {
+          changed.content = data.content as BlockContentData;
+        }
+        this.notifyChange();
+      });
+
+      this.blockPlugins.set(block.id, plugin);
+    } catch (error) {
+      console.error('Document block load error:', error);
+      body.innerHTML = `<div class="document-block-error" role="alert">${this.translator.t('document.loadError')}</div>`;
+    }
+  }
+
+  /**
+   * Append a new empty block
+   */
+  public addBlock(mode: BlockMode): DocumentBlock {
+    const block: DocumentBlock = {
+      id: createBlockId(),
+      content: this.context.createDefaultContent(mode)
+    };
+    this.blocks.push(block);
+
+    const list = this.container?.querySelector('.document-blocks');
+    if (list) {
+      list.appendChild(this.createBlockElement(block));
+    }
+
+    this.notifyChange();
+    return block;
+  }
+
+  /**
+   * Move a block up (negative offset) or down (positive offset)
+   */
+  public moveBlock(blockId: string, offset: number): void {
+    const index = this.blocks.findIndex((block) => block.id === blockId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= this.blocks.length) return;
+
+    const [block] = this.blocks.splice(index, 1);
+    this.blocks.splice(target, 0, block);
+
+    // Reorder DOM nodes rather than re-rendering so plugins keep their state
+    const list = this.container?.querySelector('.document-blocks');
+    if (list) {
+      // Moving a node drops its focus, e.g. from the move button just used
+      const focused = document.activeElement as HTMLElement | null;
+      this.blocks.forEach((item) => {
+        const element = list.querySelector(`[data-block-id="${item.id}"]`);
+        if (element) list.appendChild(element);
+      });
+      if (focused && focused !== document.activeElement && list.contains(focused)) {
+        focused.focus();
+      }
+    }
+
+    this.notifyChange();
+  }
+
+  /**
+   * Remove a block and destroy its plugin
+   */
+  public removeBlock(blockId: string): void {
+    const index = this.blocks.findIndex((block) => block.id === blockId);
+    if (index === -1) return;
+
+    this.blocks.splice(index, 1);
+    this.destroyBlockPlugin(blockId);
+    this.container?.querySelector(`[data-block-id="${blockId}"]`)?.remove();
+
+    // Keep focus nearby instead of losing it with the removed block
+    const next = this.blocks[index] || this.blocks[index - 1];
+    const focusTarget = next
+      ? this.container?.querySelector<HTMLElement>(`[data-block-id="${next.id}"]`)
+      : this.container?.querySelector<HTMLElement>('.document-add-btn');
+    focusTarget?.focus();
+
+    this.notifyChange();
+  }
+
+  /**
+   * Get plugin data
+   */
+  public getData(): PluginData {
+    return {
+      type: 'document',
+      content: {
+        type: 'document',
+        blocks: this.blocks.map((block) => {
+          const plugin = this.blockPlugins.get(block.id);
+          const content = plugin
+            ? plugin.getData().content as BlockContentData
+            : block.content;
+          return { id: block.id, content };
+        })
+      }
+    };
+  }
+
+  /**
+   * Set plugin data, updating the blocks already rendered in place
+   */
+  public setData(data: PluginData): void {
+    if (data.content.type === 'document') {
+      this.blocks = data.content.blocks.map((block) => ({ ...block }));
+      this.syncBlocks();
+    }
+  }
+
+  /**
+   * Register data change callback
+   */
+  public onDataChange(callback: (data: PluginData) => void): void {
+    this.changeCallback = callback;
+  }
+
+  /**
+   * Notify data change
+   */
+  private notifyChange(): void {
+    if (this.changeCallback) {
+      this.changeCallback(this.getData());
+    }
+  }
+
+  private getBlock(blockId: string): DocumentBlock | undefined {
+    return this.blocks.find((block) => block.id === blockId);
+  }
+
+  private destroyBlockPlugin(blockId: string): void {
+    try {
+      this.blockPlugins.get(blockId)?.destroy();
+    } catch (error) {
+      console.error('Error cleaning up block plugin:', error);
+    }
+    this.blockPlugins.delete(blockId);
+  }
+
+  private destroyBlockPlugins(): void {
+    this.blockPlugins.forEach((plugin) => {
+      try {
+        plugin.destroy();
+      } catch (error) {
+        console.error('Error cleaning up block plugin:', error);
+      }
+    });
+    this.blockPlugins.clear();
+  }
+}
+
+/**
+ * Create a unique block id
+ */
+function createBlockId(): string {
+  return `block-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Messages for the Document plugin. Block types use the core `mode.*` names.
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+const en: MessageBundle = {
+  'document.addBlock': 'Add block',
+  'document.addBlockOf': '+ {mode}',
+  'document.blockLabel': '{mode} block',
+  'document.moveUp': 'Move up',
+  'document.moveUpLabel': 'Move block up',
+  'document.moveDown': 'Move down',
+  'document.moveDownLabel': 'Move block down',
+  'document.remove': 'Remove block',
+  'document.loadError': 'Failed to load block'
+};
+
+const de: MessageBundle = {
+  'document.addBlock': 'Block hinzufügen',
+  'document.addBlockOf': '+ {mode}',
+  'document.blockLabel': '{mode}-Block',
+  'document.moveUp': 'Nach oben',
+  'document.moveUpLabel': 'Block nach oben verschieben',
+  'document.moveDown': 'Nach unten',
+  'document.moveDownLabel': 'Block nach unten verschieben',
+  'document.remove': 'Block entfernen',
+  'document.loadError': 'Block konnte nicht geladen werden'
+};
+
+const es: MessageBundle = {
+  'document.addBlock': 'Añadir bloque',
+  'document.addBlockOf': '+ {mode}',
+  'document.blockLabel': 'Bloque de {mode}',
+  'document.moveUp': 'Subir',
+  'document.moveUpLabel': 'Subir el bloque',
+  'document.moveDown': 'Bajar',
+  'document.moveDownLabel': 'Bajar el bloque',
+  'document.remove': 'Quitar bloque',
+  'document.loadError': 'No se pudo cargar el bloque'
+};
+
+export const DOCUMENT_MESSAGES: Record<string, MessageBundle> = { en, de, es };
@@ -3,7 +3,18 @@
  */
 
 import { Excalidraw } from '@excalidraw/excalidraw';
-import type { ExcalidrawPlugin as IExcalidrawPlugin, PluginData } from '../../editor/types';
+import { EXCALIDRAW_LANG_CODES, EXCALIDRAW_MESSAGES } from './messages';
+import { I18n, registerBundles } from '../../i18n/I18n';
+import type {
+  EditorCommand,
+  EditorPreferences,
+  ExcalidrawPlugin as IExcalidrawPlugin,
+  MetricsRecorder,
+  PluginData,
+  PluginViewState,
+  ResolvedTheme,
+  Translator
+} from '../../editor/types';
 
 export class ExcalidrawPlugin implements IExcalidrawPlugin {
   public readonly id = 'excalidraw' as const;
@@ -15,8 +26,18 @@ export class ExcalidrawPlugin implements IExcalidrawPlugin {
   private appState: any = null;
   private changeCallback: ((data: PluginData) => void) | null = null;
   private excalidrawAPI: any = null;
-
-  constructor() {}
+  private root: { render(element: any): void; unmount(): void } | null = null;
+  private React: typeof import('react') | null = null;
+  private theme: ResolvedTheme = 'light';
+  private telemetry: MetricsRecorder | null = null;
+  private lastChangeAt: number | null = null;
+  private height: number = 600;
+  private readOnly: boolean = false;
+  private translator: Translator = new I18n();
+
+  constructor() {
+    registerBundles(this.translator, EXCALIDRAW_MESSAGES);
+  }
 
   /**
    * Initialize Excalidraw
@@ -29,11 +50,84 @@ export class ExcalidrawPlugin implements IExcalidrawPlugin {
    * Destroy and cleanup
    */
   public destroy(): void {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
     this.container = null;
     this.changeCallback = null;
     this.excalidrawAPI = null;
   }
 
+  /**
+   * Excalidraw measures its canvas offsets, which go stale while hidden
+   */
+  public resume(): void {
+    this.excalidrawAPI?.refresh();
+  }
+
+  public setTelemetry(telemetry: MetricsRecorder): void {
+    this.telemetry = telemetry;
+  }
+
+  public setTranslator(translator: Translator): void {
+    registerBundles(translator, EXCALIDRAW_MESSAGES);
+    this.translator = translator;
+  }
+
+  /**
+   * Resize the canvas to the preferred height
+   */
+  public setPreferences(preferences: EditorPreferences): void {
+    this.height = preferences.excalidrawHeight;
+
+    const canvas = this.container?.querySelector<HTMLElement>('.excalidraw-container');
+    if (canvas) {
+      canvas.style.height = `${this.height}px`;
+    }
+  }
+
+  /**
+   * Read-only runs Excalidraw in view mode
+   */
+  public setReadOnly(readOnly: boolean): void {
+    if (readOnly === this.readOnly) return;
+    this.readOnly = readOnly;
+    this.renderRoot();
+  }
+
+  /**
+   * One slide per frame, or the whole scene if it has no frames
+   */
+  public async getPresentationSlides(): Promise<string[]> {
+    const elements = this.elements.filter((element) => !element.isDeleted);
+    if (!elements.length) return [];
+
+    const { exportToSvg } = await import('@excalidraw/excalidraw');
+    const frames = elements.filter((element) => element.type === 'frame');
+    const groups = frames.length
+      ? frames.map((frame) => [frame, ...elements.filter((element) => element.frameId === frame.id)])
+      : [elements];
+
+    return Promise.all(groups.map(async (group) => {
+      const svg = await exportToSvg({
+        elements: group,
+        appState: { ...this.appState, exportBackground: true, exportWithDarkMode: this.theme === 'dark' },
+        files: null
+      });
+      return svg.outerHTML;
+    }));
+  }
+
+  /**
+   * Switch Excalidraw's UI and canvas between light and dark
+   */
+  public setTheme(theme: ResolvedTheme): void {
+    if (theme === this.theme) return;
+    this.theme = theme;
+    this.renderRoot();
+  }
+
   /**
    * Render the plugin UI
    */
@@ -42,8 +136,8 @@ export class ExcalidrawPlugin implements IExcalidrawPlugin {
 
     // Create Excalidraw container
     const excalidrawContainer = document.createElement('div');
-    excalidrawContainer.id = 'excalidraw-container';
-    excalidrawContainer.style.height = '600px';
+    excalidrawContainer.className = 'excalidraw-container';
+    excalidrawContainer.style.height = `${this.height}px`;
     excalidrawContainer.style.width = '100%';
 
     container.innerHTML = '';
@@ -62,32 +156,59 @@ export class ExcalidrawPlugin implements IExcalidrawPlugin {
       const React = await import('react');
       const ReactDOM = await import('react-dom/client');
 
-      const root = ReactDOM.createRoot(container);
-
-      root.render(
-        React.createElement(Excalidraw, {
-          initialData: {
-            elements: this.elements,
-            appState: this.appState || {
-              viewBackgroundColor: '#ffffff'
-            }
-          },
-          onChange: (elements: readonly any[], appState: any) => {
-            this.elements = elements;
-            this.appState = appState;
-            this.notifyChange();
-          },
-          ref: (api: any) => {
-            if (api) {
-              this.excalidrawAPI = api;
-            }
-          }
-        })
-      );
+      this.React = React;
+      this.root = ReactDOM.createRoot(container);
+      this.renderRoot();
     } catch (error) {
       console.error('Excalidraw render error:', error);
-      container.innerHTML = `<div class="excalidraw-error">Failed to load Excalidraw: ${(error as Error).message}</div>`;
+      const message = document.createElement('div');
+      message.className = 'excalidraw-error';
+      message.textContent = this.translator.t('excalidraw.loadError', { message: (error as Error).message });
+      container.replaceChildren(message);
+    }
+  }
+
+  /**
+   * (Re-)render the Excalidraw component into the current root
+   */
+  private renderRoot(): void {
+    if (!this.root || !this.React) return;
+
+    this.root.render(
+      this.React.createElement(Excalidraw, {
+        theme: this.theme,
+        langCode: EXCALIDRAW_LANG_CODES[this.translator.locale.split('-')[0]] || 'en',
+        viewModeEnabled: this.readOnly,
+        initialData: {
+          elements: this.elements,
+          appState: this.appState || {}
+        },
+        onChange: (elements: readonly any[], appState: any) => {
+          this.recordChangeInterval();
+          this.elements = elements;
+          this.appState = appState;
+          this.notifyChange();
+        },
+        ref: (api: any) => {
+          if (api) {
+            this.excalidrawAPI = api;
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * Track how often Excalidraw fires onChange, which drives save traffic
+   */
+  private recordChangeInterval(): void {
+    if (!this.telemetry?.enabled) return;
+
+    const now = performance.now();
+    if (this.lastChangeAt !== null) {
+      this.telemetry.record('excalidraw.changeInterval', now - this.lastChangeAt);
     }
+    this.lastChangeAt = now;
   }
 
   /**
@@ -177,6 +298,26 @@ export class ExcalidrawPlugin implements IExcalidrawPlugin {
     }
   }
 
+  /**
+   * Commands contributed to the command palette
+   */
+  public getCommands(): EditorCommand[] {
+    return [
+      {
+        id: 'excalidraw.exportPNG',
+        title: this.translator.t('excalidraw.exportPng'),
+        category: this.translator.t('excalidraw.category'),
+        run: async () => { await this.exportPNG(); }
+      },
+      {
+        id: 'excalidraw.exportSVG',
+        title: this.translator.t('excalidraw.exportSvg'),
+        category: this.translator.t('excalidraw.category'),
+        run: async () => { await this.exportSVG(); }
+      }
+    ];
+  }
+
   /**
    * Get plugin data
    */
@@ -191,6 +332,29 @@ export class ExcalidrawPlugin implements IExcalidrawPlugin {
     };
   }
 
+  /**
+   * The canvas viewport: scroll offset and zoom
+   */
+  public getViewState(): PluginViewState {
+    return {
+      scrollX: this.appState?.scrollX ?? 0,
+      scrollY: this.appState?.scrollY ?? 0,
+      zoom: this.appState?.zoom?.value ?? 1
+    };
+  }
+
+  public setViewState(state: PluginViewState): void {
+    const viewport = {
+      scrollX: state.scrollX ?? 0,
+      scrollY: state.scrollY ?? 0,
+      zoom: { value: state.zoom ?? 1 }
+    };
+
+    // Before Excalidraw mounts, the viewport goes in with its initial data
+    this.appState = { ...this.appState, ...viewport };
+    this.excalidrawAPI?.updateScene({ appState: viewport });
+  }
+
   /**
    * Set plugin data
    */
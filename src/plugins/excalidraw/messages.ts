@@ -0,0 +1,38 @@
+/**
+ * Messages for the Excalidraw plugin. The canvas UI uses Excalidraw's own
+ * translations.
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+const en: MessageBundle = {
+  'excalidraw.category': 'Excalidraw',
+  'excalidraw.exportPng': 'Export PNG',
+  'excalidraw.exportSvg': 'Export SVG',
+  'excalidraw.loadError': 'Failed to load Excalidraw: {message}'
+};
+
+const de: MessageBundle = {
+  'excalidraw.category': 'Excalidraw',
+  'excalidraw.exportPng': 'Als PNG exportieren',
+  'excalidraw.exportSvg': 'Als SVG exportieren',
+  'excalidraw.loadError': 'Excalidraw konnte nicht geladen werden: {message}'
+};
+
+const es: MessageBundle = {
+  'excalidraw.category': 'Excalidraw',
+  'excalidraw.exportPng': 'Exportar PNG',
+  'excalidraw.exportSvg': 'Exportar SVG',
+  'excalidraw.loadError': 'No se pudo cargar Excalidraw: {message}'
+};
+
+export const EXCALIDRAW_MESSAGES: Record<string, MessageBundle> = { en, de, es };
+
+/**
+ * Excalidraw language codes for the locales the editor supports
+ */
+export const EXCALIDRAW_LANG_CODES: Record<string, string> = {
+  en: 'en',
+  de: 'de-DE',
+  es: 'es-ES'
+};
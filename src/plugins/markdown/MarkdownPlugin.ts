@@ -0,0 +1,377 @@
+/**
+ * Markdown Plugin - Markdown editing with a sanitized live preview
+ */
+
+import { Marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { initializeMermaid, mermaid } from '../mermaid/mermaidConfig';
+import { labelDiagram } from '../mermaid/accessibility';
+import { MERMAID_MESSAGES } from '../mermaid/messages';
+import { MARKDOWN_MESSAGES } from './messages';
+import { insertAtCursor } from '../../utils/textarea';
+import { I18n, registerBundles } from '../../i18n/I18n';
+import type {
+  EditorCommand,
+  MarkdownPlugin as IMarkdownPlugin,
+  MarkdownViewMode,
+  PluginData,
+  PluginViewState,
+  ResolvedTheme,
+  Translator
+} from '../../editor/types';
+
+let previewCounter = 0;
+
+export class MarkdownPlugin implements IMarkdownPlugin {
+  public readonly id = 'markdown' as const;
+  public readonly name = 'Markdown Editor';
+  public readonly version = '1.0.0';
+
+  private container: HTMLElement | null = null;
+  private markdown: string = '';
+  private viewMode: MarkdownViewMode = 'split';
+  private changeCallback: ((data: PluginData) => void) | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private previewId: string = `markdown-preview-${++previewCounter}`;
+  private renderGeneration: number = 0;
+  /** Preview scroll position to restore once the preview has rendered */
+  private pendingPreviewScroll: number | null = null;
+  private theme: ResolvedTheme = 'light';
+  private readOnly: boolean = false;
+  private translator: Translator = new I18n();
+
+  constructor() {
+    this.registerMessages(this.translator);
+  }
+
+  /**
+   * Initialize Mermaid for fenced diagram blocks
+   */
+  public async initialize(): Promise<void> {
+    initializeMermaid(this.theme);
+  }
+
+  /**
+   * Re-render the preview so diagrams pick up the matching Mermaid theme
+   */
+  public setTheme(theme: ResolvedTheme): void {
+    if (theme === this.theme) return;
+    this.theme = theme;
+    initializeMermaid(theme);
+    this.renderPreview();
+  }
+
+  public setTranslator(translator: Translator): void {
+    this.registerMessages(translator);
+    this.translator = translator;
+  }
+
+  /**
+   * Diagrams in the preview use the Mermaid plugin's messages
+   */
+  private registerMessages(translator: Translator): void {
+    registerBundles(translator, MERMAID_MESSAGES);
+    registerBundles(translator, MARKDOWN_MESSAGES);
+  }
+
+  /**
+   * Read-only shows the preview alone and locks the textarea
+   */
+  public setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+    this.updateReadOnly();
+    if (readOnly) {
+      this.renderPreview();
+    }
+  }
+
+  private updateReadOnly(): void {
+    this.container?.querySelector('.markdown-editor')?.classList.toggle('markdown-readonly', this.readOnly);
+
+    const textarea = this.container?.querySelector('.markdown-textarea') as HTMLTextAreaElement | null;
+    if (textarea) {
+      textarea.readOnly = this.readOnly;
+    }
+  }
+
+  /**
+   * Destroy and cleanup
+   */
+  public destroy(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.renderGeneration++;
+    this.container = null;
+    this.changeCallback = null;
+  }
+
+  /**
+   * Render the plugin UI
+   */
+  public render(container: HTMLElement): void {
+    this.container = container;
+
+    const t = (key: string) => this.translator.t(key);
+    container.innerHTML = `
+      <div class="markdown-editor markdown-view-${this.viewMode}">
+        <div class="markdown-toolbar" role="group" aria-label="${t('markdown.layout')}">
+          <button class="markdown-view-btn" data-view="edit">${t('markdown.edit')}</button>
+          <button class="markdown-view-btn" data-view="split">${t('markdown.split')}</button>
+          <button class="markdown-view-btn" data-view="preview">${t('markdown.preview')}</button>
+        </div>
+        <div class="markdown-editor-split">
+          <textarea
+            class="markdown-textarea"
+            aria-label="${t('markdown.sourceLabel')}"
+            placeholder="# Title\n\n\`\`\`mermaid\ngraph TD\n  A --> B\n\`\`\`"
+          ></textarea>
+          <div class="markdown-preview" role="region" aria-label="${t('markdown.previewLabel')}"></div>
+        </div>
+      </div>
+    `;
+
+    const textarea = container.querySelector('.markdown-textarea') as HTMLTextAreaElement;
+    textarea.value = this.markdown;
+
+    this.attachEventListeners();
+    this.updateViewButtons();
+    this.updateReadOnly();
+    this.renderPreview();
+  }
+
+  /**
+   * Attach event listeners
+   */
+  private attachEventListeners(): void {
+    const textarea = this.container?.querySelector('.markdown-textarea') as HTMLTextAreaElement;
+    if (textarea) {
+      textarea.addEventListener('input', () => {
+        this.markdown = textarea.value;
+        this.debouncedRender();
+        this.notifyChange();
+      });
+    }
+
+    this.container?.querySelectorAll('.markdown-view-btn').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        this.setViewMode(btn.getAttribute('data-view') as MarkdownViewMode);
+      });
+    });
+  }
+
+  /**
+   * Switch between edit, split and preview layouts
+   */
+  public setViewMode(mode: MarkdownViewMode): void {
+    this.viewMode = mode;
+
+    const editor = this.container?.querySelector('.markdown-editor');
+    if (editor) {
+      editor.classList.remove('markdown-view-edit', 'markdown-view-split', 'markdown-view-preview');
+      editor.classList.add(`markdown-view-${mode}`);
+    }
+
+    this.updateViewButtons();
+    if (mode !== 'edit') {
+      this.renderPreview();
+    }
+  }
+
+  private updateViewButtons(): void {
+    this.container?.querySelectorAll('.markdown-view-btn').forEach((btn) => {
+      const active = btn.getAttribute('data-view') === this.viewMode;
+      btn.classList.toggle('active', active);
+      btn.setAttribute('aria-pressed', String(active));
+    });
+  }
+
+  /**
+   * Debounced preview render
+   */
+  private debouncedRender(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.renderPreview();
+    }, 300);
+  }
+
+  /**
+   * Render the Markdown preview.
+   *
+   * ```mermaid fences become placeholders that are filled with diagrams
+   * rendered through the shared Mermaid configuration. Both the Markdown
+   * HTML and every diagram SVG pass through DOMPurify.
+   */
+  public async renderPreview(): Promise<void> {
+    const previewElement = this.container?.querySelector('.markdown-preview');
+    if (!previewElement || (this.viewMode === 'edit' && !this.readOnly)) return;
+
+    const generation = ++this.renderGeneration;
+    const diagrams: string[] = [];
+
+    const marked = new Marked({
+      gfm: true,
+      renderer: {
+        code(code: string, infostring: string | undefined): string | false {
+          if ((infostring || '').trim().toLowerCase() !== 'mermaid') {
+            return false;
+          }
+          diagrams.push(code);
+          return `<div class="markdown-mermaid" data-diagram-index="${diagrams.length - 1}"></div>`;
+        }
+      }
+    });
+
+    try {
+      const html = await marked.parse(this.markdown);
+      previewElement.innerHTML = DOMPurify.sanitize(html, {
+        ADD_ATTR: ['data-diagram-index']
+      });
+    } catch (error) {
+      console.error('Markdown render error:', error);
+      previewElement.textContent = this.markdown;
+      return;
+    }
+
+    for (let index = 0; index < diagrams.length; index++) {
+      const target = previewElement.querySelector(`[data-diagram-index="${index}"]`);
+      if (!target) continue;
+
+      try {
+        const { svg } = await mermaid.render(`${this.previewId}-${index}`, diagrams[index]);
+
+        // Skip stale results if the text changed while rendering
+        if (generation !== this.renderGeneration) return;
+
+        target.innerHTML = DOMPurify.sanitize(svg, {
+          USE_PROFILES: { svg: true, svgFilters: true, html: true },
+          ADD_TAGS: ['foreignObject']
+        });
+
+        const svgElement = target.querySelector('svg');
+        if (svgElement) {
+          labelDiagram(svgElement, diagrams[index], this.translator);
+        }
+      } catch (error) {
+        if (generation !== this.renderGeneration) return;
+        target.classList.add('mermaid-error');
+        target.textContent = this.translator.t('mermaid.renderError', { message: (error as Error).message });
+      }
+    }
+
+    // Diagrams change the preview's height, so scroll once they are in
+    if (this.pendingPreviewScroll !== null) {
+      previewElement.scrollTop = this.pendingPreviewScroll;
+      this.pendingPreviewScroll = null;
+    }
+  }
+
+  /**
+   * Where the source and preview are scrolled to
+   */
+  public getViewState(): PluginViewState {
+    return {
+      editorScrollTop: this.container?.querySelector('.markdown-textarea')?.scrollTop ?? 0,
+      previewScrollTop: this.container?.querySelector('.markdown-preview')?.scrollTop ?? 0
+    };
+  }
+
+  public setViewState(state: PluginViewState): void {
+    const textarea = this.container?.querySelector('.markdown-textarea');
+    if (textarea) {
+      textarea.scrollTop = state.editorScrollTop ?? 0;
+    }
+
+    const preview = this.container?.querySelector('.markdown-preview');
+    if (preview) {
+      preview.scrollTop = state.previewScrollTop ?? 0;
+      this.pendingPreviewScroll = state.previewScrollTop ?? null;
+    }
+  }
+
+  /**
+   * Insert text at the caret
+   */
+  public insertText(text: string): void {
+    const textarea = this.container?.querySelector('.markdown-textarea') as HTMLTextAreaElement | null;
+    if (textarea) {
+      insertAtCursor(textarea, text);
+    }
+  }
+
+  /**
+   * Commands contributed to the command palette
+   */
+  public getCommands(): EditorCommand[] {
+    const views: Array<[MarkdownViewMode, string]> = [
+      ['edit', 'markdown.showEdit'],
+      ['split', 'markdown.showSplit'],
+      ['preview', 'markdown.showPreview']
+    ];
+    const category = this.translator.t('markdown.category');
+
+    return [
+      ...views.map(([mode, title]) => ({
+        id: `markdown.view.${mode}`,
+        title: this.translator.t(title),
+        category,
+        run: () => this.setViewMode(mode)
+      })),
+      {
+        id: 'markdown.insertMermaid',
+        title: this.translator.t('markdown.insertMermaid'),
+        category,
+        when: () => !this.readOnly,
+        run: () => this.insertText('\n```mermaid\ngraph TD\n  A --> B\n```\n')
+      }
+    ];
+  }
+
+  /**
+   * Get plugin data
+   */
+  public getData(): PluginData {
+    return {
+      type: 'markdown',
+      content: {
+        type: 'markdown',
+        markdown: this.markdown
+      }
+    };
+  }
+
+  /**
+   * Set plugin data
+   */
+  public setData(data: PluginData): void {
+    if (data.content.type === 'markdown') {
+      this.markdown = data.content.markdown || '';
+
+      const textarea = this.container?.querySelector('.markdown-textarea') as HTMLTextAreaElement;
+      if (textarea) {
+        textarea.value = this.markdown;
+        this.renderPreview();
+      }
+    }
+  }
+
+  /**
+   * Register data change callback
+   */
+  public onDataChange(callback: (data: PluginData) => void): void {
+    this.changeCallback = callback;
+  }
+
+  /**
+   * Notify data change
+   */
+  private notifyChange(): void {
+    if (this.changeCallback) {
+      this.changeCallback(this.getData());
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Messages for the Markdown plugin
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+const en: MessageBundle = {
+  'markdown.category': 'Markdown',
+  'markdown.layout': 'Markdown layout',
+  'markdown.edit': 'Edit',
+  'markdown.split': 'Split',
+  'markdown.preview': 'Preview',
+  'markdown.sourceLabel': 'Markdown source',
+  'markdown.previewLabel': 'Markdown preview',
+  'markdown.showEdit': 'Show Editor Only',
+  'markdown.showSplit': 'Show Editor and Preview',
+  'markdown.showPreview': 'Show Preview Only',
+  'markdown.insertMermaid': 'Insert Mermaid Diagram'
+};
+
+const de: MessageBundle = {
+  'markdown.category': 'Markdown',
+  'markdown.layout': 'Markdown-Ansicht',
+  'markdown.edit': 'Bearbeiten',
+  'markdown.split': 'Geteilt',
+  'markdown.preview': 'Vorschau',
+  'markdown.sourceLabel': 'Markdown-Quelltext',
+  'markdown.previewLabel': 'Markdown-Vorschau',
+  'markdown.showEdit': 'Nur Editor anzeigen',
+  'markdown.showSplit': 'Editor und Vorschau anzeigen',
+  'markdown.showPreview': 'Nur Vorschau anzeigen',
+  'markdown.insertMermaid': 'Mermaid-Diagramm einfügen'
+};
+
+const es: MessageBundle = {
+  'markdown.category': 'Markdown',
+  'markdown.layout': 'Diseño de Markdown',
+  'markdown.edit': 'Editar',
+  'markdown.split': 'Dividido',
+  'markdown.preview': 'Vista previa',
+  'markdown.sourceLabel': 'Código Markdown',
+  'markdown.previewLabel': 'Vista previa de Markdown',
+  'markdown.showEdit': 'Mostrar solo el editor',
+  'markdown.showSplit': 'Mostrar el editor y la vista previa',
+  'markdown.showPreview': 'Mostrar solo la vista previa',
+  'markdown.insertMermaid': 'Insertar diagrama Mermaid'
+};
+
+export const MARKDOWN_MESSAGES: Record<string, MessageBundle> = { en, de, es };
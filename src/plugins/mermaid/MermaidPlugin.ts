@@ -2,8 +2,44 @@
  * Mermaid Plugin - Renders Mermaid diagrams
  */
 
-import mermaid from 'mermaid';
-import type { MermaidPlugin as IMermaidPlugin, PluginData, ValidationResult } from '../../editor/types';
+import DOMPurify from 'dompurify';
+import { initializeMermaid, mermaid } from './mermaidConfig';
+import { labelDiagram, labelDiagramMarkup } from './accessibility';
+import { MERMAID_MESSAGES } from './messages';
+import { insertAtCursor } from '../../utils/textarea';
+import { I18n, registerBundles } from '../../i18n/I18n';
+import type {
+  EditorCommand,
+  EditorPreferences,
+  MermaidPlugin as IMermaidPlugin,
+  MetricsRecorder,
+  PluginData,
+  PluginViewState,
+  ResolvedTheme,
+  Translator,
+  ValidationResult
+} from '../../editor/types';
+
+let diagramCounter = 0;
+
+/**
+ * Starter diagrams offered by the "Insert template" commands, titled by
+ * the `mermaid.template.<key>` messages
+ */
+export const MERMAID_TEMPLATES: Record<string, { code: string }> = {
+  flowchart: {
+    code: 'graph TD\n  A[Start] --> B{Decision}\n  B -->|Yes| C[Do something]\n  B -->|No| D[Do something else]\n'
+  },
+  sequence: {
+    code: 'sequenceDiagram\n  participant A as Client\n  participant B as Server\n  A->>B: Request\n  B-->>A: Response\n'
+  },
+  class: {
+    code: 'classDiagram\n  class Animal {\n    +String name\n    +speak()\n  }\n  Animal <|-- Dog\n'
+  },
+  state: {
+    code: 'stateDiagram-v2\n  [*] --> Idle\n  Idle --> Active: start\n  Active --> Idle: stop\n'
+  }
+};
 
 export class MermaidPlugin implements IMermaidPlugin {
   public readonly id = 'mermaid' as const;
@@ -14,19 +50,77 @@ export class MermaidPlugin implements IMermaidPlugin {
   private code: string = '';
   private changeCallback: ((data: PluginData) => void) | null = null;
   private debounceTimer: NodeJS.Timeout | null = null;
-
-  constructor() {}
+  private diagramId: string = `mermaid-diagram-${++diagramCounter}`;
+  private theme: ResolvedTheme = 'light';
+  private telemetry: MetricsRecorder | null = null;
+  private renderDelay: number = 300;
+  /** Preview scroll position to restore once the diagram has rendered */
+  private pendingPreviewScroll: number | null = null;
+  private readOnly: boolean = false;
+  private translator: Translator = new I18n();
+
+  constructor() {
+    registerBundles(this.translator, MERMAID_MESSAGES);
+  }
 
   /**
    * Initialize Mermaid
    */
   public async initialize(): Promise<void> {
-    mermaid.initialize({
-      startOnLoad: false,
-      theme: 'default',
-      securityLevel: 'strict',
-      fontFamily: 'monospace'
-    });
+    initializeMermaid(this.theme);
+  }
+
+  /**
+   * Re-render the diagram with the matching Mermaid theme
+   */
+  public setTheme(theme: ResolvedTheme): void {
+    if (theme === this.theme) return;
+    this.theme = theme;
+    initializeMermaid(theme);
+
+    if (this.container && this.code.trim()) {
+      this.renderDiagram(this.code);
+    }
+  }
+
+  public setTelemetry(telemetry: MetricsRecorder): void {
+    this.telemetry = telemetry;
+  }
+
+  public setTranslator(translator: Translator): void {
+    registerBundles(translator, MERMAID_MESSAGES);
+    this.translator = translator;
+  }
+
+  public setPreferences(preferences: EditorPreferences): void {
+    this.renderDelay = preferences.mermaidRenderDelay;
+  }
+
+  /**
+   * Read-only shows the rendered diagram without the code panel
+   */
+  public setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+    this.updateReadOnly();
+  }
+
+  private updateReadOnly(): void {
+    this.container?.querySelector('.mermaid-editor')?.classList.toggle('mermaid-readonly', this.readOnly);
+
+    const textarea = this.container?.querySelector('.mermaid-textarea') as HTMLTextAreaElement | null;
+    if (textarea) {
+      textarea.readOnly = this.readOnly;
+    }
+  }
+
+  /**
+   * The diagram as a single presentation slide
+   */
+  public async getPresentationSlides(): Promise<string[]> {
+    if (!this.code.trim()) return [];
+
+    const { svg } = await mermaid.render(`${this.diagramId}-slide`, this.code);
+    return [labelDiagramMarkup(sanitizeDiagram(svg), this.code, this.translator)];
   }
 
   /**
@@ -46,29 +140,42 @@ export class MermaidPlugin implements IMermaidPlugin {
   public render(container: HTMLElement): void {
     this.container = container;
 
+    const t = (key: string) => this.translator.t(key);
     container.innerHTML = `
       <div class="mermaid-editor">
         <div class="mermaid-editor-split">
           <div class="mermaid-code-panel">
             <textarea
-              id="mermaid-code"
               class="mermaid-textarea"
+              aria-label="${t('mermaid.codeLabel')}"
+              aria-describedby="${this.diagramId}-validation"
               placeholder="graph TD\n  A[Start] --> B[Process]\n  B --> C[End]"
-            >${this.code}</textarea>
-            <div class="mermaid-validation" id="mermaid-validation"></div>
+            ></textarea>
+            <div
+              class="mermaid-validation"
+              id="${this.diagramId}-validation"
+              role="status"
+              aria-live="polite"
+              aria-atomic="true"
+            ></div>
           </div>
-          <div class="mermaid-preview-panel">
-            <div id="mermaid-preview" class="mermaid-preview"></div>
+          <div class="mermaid-preview-panel" role="region" aria-label="${t('mermaid.previewLabel')}">
+            <div class="mermaid-preview"></div>
           </div>
         </div>
         <div class="mermaid-toolbar">
-          <button class="btn-export-svg">Export SVG</button>
-          <button class="btn-export-png">Export PNG</button>
+          <button class="btn-export-svg">${t('mermaid.exportSvg')}</button>
+          <button class="btn-export-png">${t('mermaid.exportPng')}</button>
         </div>
       </div>
     `;
 
+    // Set as a value, never markup, as the code comes from the note
+    const textarea = container.querySelector('.mermaid-textarea') as HTMLTextAreaElement;
+    textarea.value = this.code;
+
     this.attachEventListeners();
+    this.updateReadOnly();
 
     // Initial render if there's code
     if (this.code) {
@@ -80,7 +187,7 @@ export class MermaidPlugin implements IMermaidPlugin {
    * Attach event listeners
    */
   private attachEventListeners(): void {
-    const textarea = document.getElementById('mermaid-code') as HTMLTextAreaElement;
+    const textarea = this.container?.querySelector('.mermaid-textarea') as HTMLTextAreaElement;
     if (textarea) {
       textarea.addEventListener('input', () => {
         this.code = textarea.value;
@@ -114,14 +221,14 @@ export class MermaidPlugin implements IMermaidPlugin {
 
     this.debounceTimer = setTimeout(() => {
       this.renderDiagram(this.code);
-    }, 300);
+    }, this.renderDelay);
   }
 
   /**
    * Render Mermaid diagram
    */
   public async renderDiagram(code: string): Promise<void> {
-    const previewElement = document.getElementById('mermaid-preview');
+    const previewElement = this.container?.querySelector('.mermaid-preview');
     if (!previewElement) return;
 
     try {
@@ -130,16 +237,32 @@ export class MermaidPlugin implements IMermaidPlugin {
       this.showValidation(validation);
 
       if (!validation.valid) {
-        previewElement.innerHTML = '<div class="mermaid-error">Invalid diagram syntax</div>';
+        this.showPreviewError(previewElement, this.translator.t('mermaid.invalidSyntax'));
         return;
       }
 
       // Render the diagram
-      const { svg } = await mermaid.render('mermaid-diagram', code);
-      previewElement.innerHTML = svg;
+      const stopTimer = this.telemetry?.startTimer('mermaid.render');
+      const { svg } = await mermaid.render(this.diagramId, code);
+      stopTimer?.();
+      previewElement.innerHTML = sanitizeDiagram(svg);
+
+      const svgElement = previewElement.querySelector('svg');
+      if (svgElement) {
+        labelDiagram(svgElement, code, this.translator);
+      }
+
+      const panel = this.container?.querySelector('.mermaid-preview-panel');
+      if (panel && this.pendingPreviewScroll !== null) {
+        panel.scrollTop = this.pendingPreviewScroll;
+        this.pendingPreviewScroll = null;
+      }
     } catch (error) {
       console.error('Mermaid render error:', error);
-      previewElement.innerHTML = `<div class="mermaid-error">Error rendering diagram: ${(error as Error).message}</div>`;
+      this.showPreviewError(
+        previewElement,
+        this.translator.t('mermaid.renderError', { message: (error as Error).message })
+      );
       this.showValidation({
         valid: false,
         errors: [{
@@ -155,7 +278,7 @@ export class MermaidPlugin implements IMermaidPlugin {
    */
   public validateSyntax(code: string): ValidationResult {
     if (!code.trim()) {
-      return { valid: false, errors: [{ message: 'Empty diagram', severity: 'warning' }] };
+      return { valid: false, errors: [{ message: this.translator.t('mermaid.empty'), severity: 'warning' }] };
     }
 
     try {
@@ -170,7 +293,7 @@ export class MermaidPlugin implements IMermaidPlugin {
           valid: false,
           errors: [{
             line: 1,
-            message: 'Diagram must start with a valid type (graph, sequenceDiagram, etc.)',
+            message: this.translator.t('mermaid.invalidType'),
             severity: 'error'
           }]
         };
@@ -189,20 +312,44 @@ export class MermaidPlugin implements IMermaidPlugin {
   }
 
   /**
-   * Show validation messages
+   * Empty the preview and validation, as rendered for a new diagram
+   */
+  private clearDiagram(): void {
+    this.container?.querySelector('.mermaid-preview')?.replaceChildren();
+
+    const validationElement = this.container?.querySelector('.mermaid-validation');
+    validationElement?.removeAttribute('data-result');
+    validationElement?.replaceChildren();
+  }
+
+  private showPreviewError(previewElement: Element, message: string): void {
+    const error = document.createElement('div');
+    error.className = 'mermaid-error';
+    error.textContent = message;
+    previewElement.replaceChildren(error);
+  }
+
+  /**
+   * Show validation messages. The element is a live region, so it is only
+   * rewritten when the result changes to avoid repeating announcements.
    */
   private showValidation(validation: ValidationResult): void {
-    const validationElement = document.getElementById('mermaid-validation');
+    const validationElement = this.container?.querySelector('.mermaid-validation');
     if (!validationElement) return;
 
-    if (validation.valid) {
-      validationElement.innerHTML = '<div class="validation-success">✓ Valid diagram</div>';
-    } else if (validation.errors) {
-      const errorsHtml = validation.errors
-        .map(err => `<div class="validation-${err.severity}">${err.message}</div>`)
-        .join('');
-      validationElement.innerHTML = errorsHtml;
-    }
+    const messages = validation.valid
+      ? [{ severity: 'success', message: this.translator.t('mermaid.valid') }]
+      : (validation.errors || []);
+    const key = messages.map((err) => `${err.severity}:${err.message}`).join('\n');
+    if (validationElement.getAttribute('data-result') === key) return;
+
+    validationElement.setAttribute('data-result', key);
+    validationElement.replaceChildren(...messages.map((err) => {
+      const element = document.createElement('div');
+      element.className = `validation-${err.severity}`;
+      element.textContent = err.message;
+      return element;
+    }));
   }
 
   /**
@@ -210,7 +357,7 @@ export class MermaidPlugin implements IMermaidPlugin {
    */
   public async exportSVG(): Promise<string> {
     try {
-      const { svg } = await mermaid.render('export-diagram', this.code);
+      const { svg } = await mermaid.render(`${this.diagramId}-export`, this.code);
 
       // Create download link
       const blob = new Blob([svg], { type: 'image/svg+xml' });
@@ -228,10 +375,49 @@ export class MermaidPlugin implements IMermaidPlugin {
     }
   }
 
+  /**
+   * Insert a template at the caret
+   */
+  public insertTemplate(code: string): void {
+    const textarea = this.container?.querySelector('.mermaid-textarea') as HTMLTextAreaElement | null;
+    if (textarea) {
+      insertAtCursor(textarea, code);
+    }
+  }
+
+  /**
+   * Commands contributed to the command palette
+   */
+  public getCommands(): EditorCommand[] {
+    return [
+      {
+        id: 'mermaid.exportSVG',
+        title: this.translator.t('mermaid.exportSvg'),
+        category: this.translator.t('mermaid.category'),
+        run: async () => { await this.exportSVG(); }
+      },
+      {
+        id: 'mermaid.exportPNG',
+        title: this.translator.t('mermaid.exportPng'),
+        category: this.translator.t('mermaid.category'),
+        run: () => this.exportPNG()
+      },
+      ...Object.entries(MERMAID_TEMPLATES).map(([key, template]) => ({
+        id: `mermaid.insertTemplate.${key}`,
+        title: this.translator.t('mermaid.insertTemplate', {
+          template: this.translator.t(`mermaid.template.${key}`)
+        }),
+        category: this.translator.t('mermaid.category'),
+        when: () => !this.readOnly,
+        run: () => this.insertTemplate(template.code)
+      }))
+    ];
+  }
+
   /**
    * Export diagram as PNG
    */
-  private async exportPNG(): Promise<void> {
+  public async exportPNG(): Promise<void> {
     try {
       const svg = await this.exportSVG();
 
@@ -263,6 +449,32 @@ export class MermaidPlugin implements IMermaidPlugin {
     }
   }
 
+  /**
+   * Where the code and diagram are scrolled to
+   */
+  public getViewState(): PluginViewState {
+    const panel = this.container?.querySelector('.mermaid-preview-panel');
+    return {
+      codeScrollTop: this.container?.querySelector('.mermaid-textarea')?.scrollTop ?? 0,
+      previewScrollTop: panel?.scrollTop ?? 0,
+      previewScrollLeft: panel?.scrollLeft ?? 0
+    };
+  }
+
+  public setViewState(state: PluginViewState): void {
+    const textarea = this.container?.querySelector('.mermaid-textarea');
+    if (textarea) {
+      textarea.scrollTop = state.codeScrollTop ?? 0;
+    }
+
+    const panel = this.container?.querySelector('.mermaid-preview-panel');
+    if (panel) {
+      panel.scrollTop = state.previewScrollTop ?? 0;
+      panel.scrollLeft = state.previewScrollLeft ?? 0;
+      this.pendingPreviewScroll = state.previewScrollTop ?? null;
+    }
+  }
+
   /**
    * Get plugin data
    */
@@ -283,13 +495,21 @@ export class MermaidPlugin implements IMermaidPlugin {
     if (data.content.type === 'mermaid') {
       this.code = data.content.code || '';
 
-      const textarea = document.getElementById('mermaid-code') as HTMLTextAreaElement;
+      const textarea = this.container?.querySelector('.mermaid-textarea') as HTMLTextAreaElement;
       if (textarea) {
         textarea.value = this.code;
       }
 
+      // A pending render is for code this replaces
+      if (this.debounceTimer) {
+        clearTimeout(this.debounceTimer);
+        this.debounceTimer = null;
+      }
+
       if (this.code) {
         this.renderDiagram(this.code);
+      } else {
+        this.clearDiagram();
       }
     }
   }
@@ -309,4 +529,14 @@ export class MermaidPlugin implements IMermaidPlugin {
       this.changeCallback(this.getData());
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Diagram SVG as safe markup; labels and notes in the code can carry HTML
+ */
+function sanitizeDiagram(svg: string): string {
+  return DOMPurify.sanitize(svg, {
+    USE_PROFILES: { svg: true, svgFilters: true, html: true },
+    ADD_TAGS: ['foreignObject']
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Text alternatives for rendered Mermaid diagrams
+ *
+ * Mermaid turns `accTitle` and `accDescr` in the source into an SVG title
+ * and description. Diagrams without them get a title and description
+ * generated from the diagram type and its labels.
+ */
+
+import type { Translator } from '../../editor/types';
+
+export interface DiagramDescription {
+  title: string;
+  description: string;
+}
+
+/** Diagram types with a translated name; others are just "Diagram" */
+const DIAGRAM_TYPES = [
+  'graph', 'flowchart', 'sequencediagram', 'classdiagram', 'statediagram', 'statediagram-v2',
+  'erdiagram', 'journey', 'gantt', 'pie', 'gitgraph', 'mindmap', 'quadrantchart'
+];
+
+/** Labels listed in a generated description before summarizing the rest */
+const MAX_LABELS = 10;
+
+/**
+ * Title and description for a diagram, preferring the author's own
+ * accTitle and accDescr. Needs the Mermaid message bundle registered.
+ */
+export function describeDiagram(code: string, translator: Translator): DiagramDescription {
+  const lines = code.split('\n').map((line) => line.trim());
+  const type = (lines.find((line) => line && !line.startsWith('%%')) || '').split(/\s+/)[0].toLowerCase();
+  const name = translator.t(`mermaid.diagram.${DIAGRAM_TYPES.includes(type) ? type : 'unknown'}`);
+
+  const accTitle = matchLine(lines, /^accTitle\s*:\s*(.+)$/);
+  const chartTitle = matchLine(lines, /^(?:pie\s+)?title\s+(.+)$/i);
+  const title = accTitle || (chartTitle ? translator.t('mermaid.a11y.titled', { name, title: chartTitle }) : name);
+
+  const accDescr = matchLine(lines, /^accDescr\s*:\s*(.+)$/) || matchBlock(code);
+  return { title, description: accDescr || summarizeLabels(name, type, code, translator) };
+}
+
+/**
+ * Give a rendered diagram a title and description that assistive
+ * technology announces, unless Mermaid already added them from the source
+ */
+export function labelDiagram(svg: SVGSVGElement, code: string, translator: Translator): void {
+  const { title, description } = describeDiagram(code, translator);
+  const id = svg.id || `diagram-${Math.random().toString(36).slice(2)}`;
+
+  if (!svg.getAttribute('aria-labelledby')) {
+    svg.insertBefore(createTextElement(svg, 'title', `${id}-acc-title`, title), svg.firstChild);
+    svg.setAttribute('aria-labelledby', `${id}-acc-title`);
+  }
+
+  if (description && !svg.getAttribute('aria-describedby')) {
+    const desc = createTextElement(svg, 'desc', `${id}-acc-desc`, description);
+    svg.insertBefore(desc, svg.querySelector('title')?.nextSibling ?? svg.firstChild);
+    svg.setAttribute('aria-describedby', `${id}-acc-desc`);
+  }
+
+  if (!svg.getAttribute('role')) {
+    svg.setAttribute('role', 'img');
+  }
+}
+
+/**
+ * Same as labelDiagram, for SVG markup
+ */
+export function labelDiagramMarkup(markup: string, code: string, translator: Translator): string {
+  const template = document.createElement('template');
+  template.innerHTML = markup;
+
+  const svg = template.content.querySelector('svg');
+  if (!svg) return markup;
+
+  labelDiagram(svg, code, translator);
+  return svg.outerHTML;
+}
+
+function createTextElement(svg: SVGSVGElement, tag: 'title' | 'desc', id: string, text: string): Element {
+  const element = document.createElementNS(svg.namespaceURI, tag);
+  element.id = id;
+  element.textContent = text;
+  return element;
+}
+
+function matchLine(lines: string[], pattern: RegExp): string | null {
+  for (const line of lines) {
+    const match = line.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+/**
+ * Multi-line `accDescr { ... }` block
+ */
+function matchBlock(code: string): string | null {
+  const match = code.match(/accDescr\s*\{([^}]*)\}/);
+  return match ? match[1].replace(/\s+/g, ' ').trim() || null : null;
+}
+
+/**
+ * e.g. "Flowchart with 3 nodes: Start, Process, End" from the diagram's labels
+ */
+function summarizeLabels(name: string, type: string, code: string, translator: Translator): string {
+  let noun: string;
+  let labels: string[] = [];
+
+  if (type === 'sequencediagram') {
+    noun = 'participants';
+    for (const match of code.matchAll(/^\s*(?:participant|actor)\s+(\S+)(?:\s+as\s+(.+))?$/gm)) {
+      labels.push((match[2] || match[1]).trim());
+    }
+
+    // Participants can also be declared implicitly by messages
+    if (!labels.length) {
+      for (const match of code.matchAll(/^\s*([\w]+)\s*-[-)x>]*[+-]?\s*([\w]+)\s*:/gm)) {
+        labels.push(match[1], match[2]);
+      }
+    }
+  } else if (type === 'graph' || type === 'flowchart' || type === 'statediagram' || type === 'statediagram-v2') {
+    noun = type.startsWith('state') ? 'states' : 'nodes';
+    for (const match of code.matchAll(/[\w-]+\s*(?:\[\[|\[\(|\(\[|\(\(|\{\{|\[|\(|\{|>)\s*"?([^[\](){}"|]+?)"?\s*(?:\]\]|\)\]|\]\)|\)\)|\}\}|\]|\)|\})/g)) {
+      labels.push(match[1].trim());
+    }
+    for (const match of code.matchAll(/^\s*state\s+"([^"]+)"/gm)) {
+      labels.push(match[1].trim());
+    }
+  } else if (type === 'classdiagram') {
+    noun = 'classes';
+    for (const match of code.matchAll(/^\s*class\s+([\w-]+)/gm)) {
+      labels.push(match[1]);
+    }
+  } else if (type === 'pie') {
+    noun = 'slices';
+    for (const match of code.matchAll(/^\s*"([^"]+)"\s*:/gm)) {
+      labels.push(match[1]);
+    }
+  } else {
+    return '';
+  }
+
+  labels = [...new Set(labels.filter(Boolean))];
+  if (!labels.length) return '';
+
+  const listed = labels.slice(0, MAX_LABELS).join(', ');
+  return translator.t(`mermaid.a11y.${noun}`, {
+    name,
+    count: labels.length,
+    labels: labels.length > MAX_LABELS
+      ? translator.t('mermaid.a11y.more', { labels: listed, count: labels.length - MAX_LABELS })
+      : listed
+  });
+}
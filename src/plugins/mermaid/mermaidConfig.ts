@@ -0,0 +1,26 @@
+/**
+ * Shared Mermaid initialization used by every plugin that renders diagrams
+ */
+
+import mermaid from 'mermaid';
+import type { ResolvedTheme } from '../../editor/types';
+
+export const MERMAID_CONFIG = {
+  startOnLoad: false,
+  theme: 'default',
+  securityLevel: 'strict',
+  fontFamily: 'monospace'
+} as const;
+
+/**
+ * Initialize Mermaid with the editor's settings. Mermaid's configuration is
+ * global, so every diagram rendered afterwards uses the given theme.
+ */
+export function initializeMermaid(theme: ResolvedTheme = 'light'): void {
+  mermaid.initialize({
+    ...MERMAID_CONFIG,
+    theme: theme === 'dark' ? 'dark' : MERMAID_CONFIG.theme
+  });
+}
+
+export { mermaid };
@@ -0,0 +1,172 @@
+/**
+ * Messages for the Mermaid plugin and rendered diagram descriptions
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+const en: MessageBundle = {
+  'mermaid.category': 'Mermaid',
+  'mermaid.codeLabel': 'Mermaid diagram code',
+  'mermaid.previewLabel': 'Diagram preview',
+  'mermaid.exportSvg': 'Export SVG',
+  'mermaid.exportPng': 'Export PNG',
+  'mermaid.insertTemplate': 'Insert {template} Template',
+  'mermaid.template.flowchart': 'Flowchart',
+  'mermaid.template.sequence': 'Sequence Diagram',
+  'mermaid.template.class': 'Class Diagram',
+  'mermaid.template.state': 'State Diagram',
+  'mermaid.valid': '✓ Valid diagram',
+  'mermaid.empty': 'Empty diagram',
+  'mermaid.invalidType': 'Diagram must start with a valid type (graph, sequenceDiagram, etc.)',
+  'mermaid.invalidSyntax': 'Invalid diagram syntax',
+  'mermaid.renderError': 'Error rendering diagram: {message}',
+
+  'mermaid.diagram.graph': 'Flowchart',
+  'mermaid.diagram.flowchart': 'Flowchart',
+  'mermaid.diagram.sequencediagram': 'Sequence diagram',
+  'mermaid.diagram.classdiagram': 'Class diagram',
+  'mermaid.diagram.statediagram': 'State diagram',
+  'mermaid.diagram.statediagram-v2': 'State diagram',
+  'mermaid.diagram.erdiagram': 'Entity relationship diagram',
+  'mermaid.diagram.journey': 'User journey',
+  'mermaid.diagram.gantt': 'Gantt chart',
+  'mermaid.diagram.pie': 'Pie chart',
+  'mermaid.diagram.gitgraph': 'Git graph',
+  'mermaid.diagram.mindmap': 'Mind map',
+  'mermaid.diagram.quadrantchart': 'Quadrant chart',
+  'mermaid.diagram.unknown': 'Diagram',
+  'mermaid.a11y.titled': '{name}: {title}',
+  'mermaid.a11y.more': '{labels} and {count} more',
+  'mermaid.a11y.nodes': {
+    one: '{name} with {count} node: {labels}',
+    other: '{name} with {count} nodes: {labels}'
+  },
+  'mermaid.a11y.states': {
+    one: '{name} with {count} state: {labels}',
+    other: '{name} with {count} states: {labels}'
+  },
+  'mermaid.a11y.participants': {
+    one: '{name} with {count} participant: {labels}',
+    other: '{name} with {count} participants: {labels}'
+  },
+  'mermaid.a11y.classes': {
+    one: '{name} with {count} class: {labels}',
+    other: '{name} with {count} classes: {labels}'
+  },
+  'mermaid.a11y.slices': {
+    one: '{name} with {count} slice: {labels}',
+    other: '{name} with {count} slices: {labels}'
+  }
+};
+
+const de: MessageBundle = {
+  'mermaid.category': 'Mermaid',
+  'mermaid.codeLabel': 'Mermaid-Diagrammcode',
+  'mermaid.previewLabel': 'Diagrammvorschau',
+  'mermaid.exportSvg': 'Als SVG exportieren',
+  'mermaid.exportPng': 'Als PNG exportieren',
+  'mermaid.insertTemplate': 'Vorlage „{template}“ einfügen',
+  'mermaid.template.flowchart': 'Flussdiagramm',
+  'mermaid.template.sequence': 'Sequenzdiagramm',
+  'mermaid.template.class': 'Klassendiagramm',
+  'mermaid.template.state': 'Zustandsdiagramm',
+  'mermaid.valid': '✓ Gültiges Diagramm',
+  'mermaid.empty': 'Leeres Diagramm',
+  'mermaid.invalidType': 'Das Diagramm muss mit einem gültigen Typ beginnen (graph, sequenceDiagram usw.)',
+  'mermaid.invalidSyntax': 'Ungültige Diagrammsyntax',
+  'mermaid.renderError': 'Fehler beim Darstellen des Diagramms: {message}',
+
+  'mermaid.diagram.graph': 'Flussdiagramm',
+  'mermaid.diagram.flowchart': 'Flussdiagramm',
+  'mermaid.diagram.sequencediagram': 'Sequenzdiagramm',
+  'mermaid.diagram.classdiagram': 'Klassendiagramm',
+  'mermaid.diagram.statediagram': 'Zustandsdiagramm',
+  'mermaid.diagram.statediagram-v2': 'Zustandsdiagramm',
+  'mermaid.diagram.erdiagram': 'Entity-Relationship-Diagramm',
+  'mermaid.diagram.journey': 'User Journey',
+  'mermaid.diagram.gantt': 'Gantt-Diagramm',
+  'mermaid.diagram.pie': 'Kreisdiagramm',
+  'mermaid.diagram.gitgraph': 'Git-Graph',
+  'mermaid.diagram.mindmap': 'Mindmap',
+  'mermaid.diagram.quadrantchart': 'Quadrantendiagramm',
+  'mermaid.diagram.unknown': 'Diagramm',
+  'mermaid.a11y.titled': '{name}: {title}',
+  'mermaid.a11y.more': '{labels} und {count} weitere',
+  'mermaid.a11y.nodes': {
+    one: '{name} mit {count} Knoten: {labels}',
+    other: '{name} mit {count} Knoten: {labels}'
+  },
+  'mermaid.a11y.states': {
+    one: '{name} mit {count} Zustand: {labels}',
+    other: '{name} mit {count} Zuständen: {labels}'
+  },
+  'mermaid.a11y.participants': {
+    one: '{name} mit {count} Teilnehmer: {labels}',
+    other: '{name} mit {count} Teilnehmern: {labels}'
+  },
+  'mermaid.a11y.classes': {
+    one: '{name} mit {count} Klasse: {labels}',
+    other: '{name} mit {count} Klassen: {labels}'
+  },
+  'mermaid.a11y.slices': {
+    one: '{name} mit {count} Segment: {labels}',
+    other: '{name} mit {count} Segmenten: {labels}'
+  }
+};
+
+const es: MessageBundle = {
+  'mermaid.category': 'Mermaid',
+  'mermaid.codeLabel': 'Código del diagrama Mermaid',
+  'mermaid.previewLabel': 'Vista previa del diagrama',
+  'mermaid.exportSvg': 'Exportar SVG',
+  'mermaid.exportPng': 'Exportar PNG',
+  'mermaid.insertTemplate': 'Insertar plantilla de {template}',
+  'mermaid.template.flowchart': 'Diagrama de flujo',
+  'mermaid.template.sequence': 'Diagrama de secuencia',
+  'mermaid.template.class': 'Diagrama de clases',
+  'mermaid.template.state': 'Diagrama de estados',
+  'mermaid.valid': '✓ Diagrama válido',
+  'mermaid.empty': 'Diagrama vacío',
+  'mermaid.invalidType': 'El diagrama debe empezar con un tipo válido (graph, sequenceDiagram, etc.)',
+  'mermaid.invalidSyntax': 'Sintaxis de diagrama no válida',
+  'mermaid.renderError': 'Error al representar el diagrama: {message}',
+
+  'mermaid.diagram.graph': 'Diagrama de flujo',
+  'mermaid.diagram.flowchart': 'Diagrama de flujo',
+  'mermaid.diagram.sequencediagram': 'Diagrama de secuencia',
+  'mermaid.diagram.classdiagram': 'Diagrama de clases',
+  'mermaid.diagram.statediagram': 'Diagrama de estados',
+  'mermaid.diagram.statediagram-v2': 'Diagrama de estados',
+  'mermaid.diagram.erdiagram': 'Diagrama entidad-relación',
+  'mermaid.diagram.journey': 'Recorrido de usuario',
+  'mermaid.diagram.gantt': 'Diagrama de Gantt',
+  'mermaid.diagram.pie': 'Gráfico circular',
+  'mermaid.diagram.gitgraph': 'Gráfico de Git',
+  'mermaid.diagram.mindmap': 'Mapa mental',
+  'mermaid.diagram.quadrantchart': 'Gráfico de cuadrantes',
+  'mermaid.diagram.unknown': 'Diagrama',
+  'mermaid.a11y.titled': '{name}: {title}',
+  'mermaid.a11y.more': '{labels} y {count} más',
+  'mermaid.a11y.nodes': {
+    one: '{name} con {count} nodo: {labels}',
+    other: '{name} con {count} nodos: {labels}'
+  },
+  'mermaid.a11y.states': {
+    one: '{name} con {count} estado: {labels}',
+    other: '{name} con {count} estados: {labels}'
+  },
+  'mermaid.a11y.participants': {
+    one: '{name} con {count} participante: {labels}',
+    other: '{name} con {count} participantes: {labels}'
+  },
+  'mermaid.a11y.classes': {
+    one: '{name} con {count} clase: {labels}',
+    other: '{name} con {count} clases: {labels}'
+  },
+  'mermaid.a11y.slices': {
+    one: '{name} con {count} sector: {labels}',
+    other: '{name} con {count} sectores: {labels}'
+  }
+};
+
+export const MERMAID_MESSAGES: Record<string, MessageBundle> = { en, de, es };
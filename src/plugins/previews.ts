@@ -0,0 +1,89 @@
+/**
+ * Plain-text previews of the built-in modes' content, shown in the
+ * Standard Notes note list. They run on every save, so they only read
+ * the stored content and never load a plugin's chunk.
+ */
+
+import { describeDiagram } from './mermaid/accessibility';
+import type { PreviewContext } from '../editor/PluginRegistry';
+import type {
+  DocumentContent,
+  ExcalidrawContent,
+  MarkdownContent,
+  MermaidContent,
+  TextContent
+} from '../editor/types';
+
+/** Text elements whose tops are this close, in canvas px, read as one row */
+const ROW_TOLERANCE = 10;
+
+export function previewText(content: TextContent): string {
+  return content.text;
+}
+
+/**
+ * The markdown's text without its syntax
+ */
+export function previewMarkdown(content: MarkdownContent): string {
+  return content.markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(?:#{1,6}\s+|>\s?|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)/gm, '')
+    .replace(/^\s*(?:[-*_]\s*){3,}$/gm, '')
+    .replace(/(\*\*|__|~~|`)(.+?)\1/g, '$2')
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, '$1$2');
+}
+
+/**
+ * The diagram type with its labels or participants, e.g. "Flowchart with
+ * 3 nodes: Start, Process, End", after any title the author gave it
+ */
+export function previewMermaid(content: MermaidContent, context: PreviewContext): string {
+  if (!content.code.trim()) return '';
+
+  const { title, description } = describeDiagram(content.code, context.translator);
+  if (!description || description.startsWith(title)) {
+    return description || title;
+  }
+  return `${title} — ${description}`;
+}
+
+/**
+ * The drawing's text elements in reading order: top to bottom in rows,
+ * left to right within a row
+ */
+export function previewExcalidraw(content: ExcalidrawContent): string {
+  const texts = content.elements
+    .filter((element) => element?.type === 'text' && !element.isDeleted)
+    .map((element) => ({
+      x: Number(element.x) || 0,
+      y: Number(element.y) || 0,
+      text: String(element.originalText ?? element.text ?? '').replace(/\s+/g, ' ').trim()
+    }))
+    .filter((element) => element.text)
+    .sort((a, b) => a.y - b.y);
+
+  const rows: Array<typeof texts> = [];
+  texts.forEach((element) => {
+    const row = rows[rows.length - 1];
+    if (row && element.y - row[0].y <= ROW_TOLERANCE) {
+      row.push(element);
+    } else {
+      rows.push([element]);
+    }
+  });
+
+  return rows
+    .flatMap((row) => row.sort((a, b) => a.x - b.x))
+    .map((element) => element.text)
+    .join(' · ');
+}
+
+export function previewDocument(content: DocumentContent, context: PreviewContext): string {
+  return content.blocks
+    .map((block) => context.preview(block.content))
+    .filter(Boolean)
+    .join('\n\n');
+}
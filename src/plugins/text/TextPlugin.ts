@@ -0,0 +1,640 @@
+/**
+ * Text Plugin - Plain text editing with find/replace, line numbers and
+ * document statistics
+ */
+
+import { TEXT_MESSAGES } from './messages';
+import { createSearchPattern, expandReplacement, findMatches, replaceAll } from './search';
+import type { SearchOptions, TextMatch } from './search';
+import { indentSelection, insertNewlineWithIndent, outdentSelection } from '../../utils/textarea';
+import { I18n, registerBundles } from '../../i18n/I18n';
+import type {
+  EditorCommand,
+  PluginData,
+  PluginViewState,
+  TextPlugin as ITextPlugin,
+  TextStats,
+  Translator
+} from '../../editor/types';
+
+const INDENT = '\t';
+
+let editorCounter = 0;
+
+/**
+ * Word, character and line counts. Characters are counted as code
+ * points so an emoji counts once.
+ */
+export function getTextStats(text: string): TextStats {
+  return {
+    words: text.match(/\S+/g)?.length ?? 0,
+    characters: Array.from(text).length,
+    lines: text.split('\n').length
+  };
+}
+
+export class TextPlugin implements ITextPlugin {
+  public readonly id = 'text' as const;
+  public readonly name = 'Text Editor';
+  public readonly version = '1.0.0';
+
+  private container: HTMLElement | null = null;
+  private text: string = '';
+  private changeCallback: ((data: PluginData) => void) | null = null;
+  private readOnly: boolean = false;
+  private lineNumbers: boolean = false;
+  private softWrap: boolean = true;
+  private searchOptions: SearchOptions = { regex: false, matchCase: false, wholeWord: false };
+  private searchPattern: RegExp | null = null;
+  private matches: TextMatch[] = [];
+  private currentMatch: number = -1;
+  /** Escape was the last key, so the next Tab leaves the textarea */
+  private releaseTab: boolean = false;
+  private listenerDisposers: Array<() => void> = [];
+  private layoutFrame: number | null = null;
+  private hintId: string = `text-tab-hint-${++editorCounter}`;
+  private translator: Translator = new I18n();
+
+  constructor() {
+    registerBundles(this.translator, TEXT_MESSAGES);
+  }
+
+  /**
+   * Text needs no setup before rendering
+   */
+  public async initialize(): Promise<void> {
+    // No initialization needed for text
+  }
+
+  public setTranslator(translator: Translator): void {
+    registerBundles(translator, TEXT_MESSAGES);
+    this.translator = translator;
+  }
+
+  /**
+   * Destroy and cleanup
+   */
+  public destroy(): void {
+    this.removeListeners();
+    this.container = null;
+    this.changeCallback = null;
+  }
+
+  /**
+   * Render the plugin UI
+   */
+  public render(container: HTMLElement): void {
+    this.removeListeners();
+    this.container = container;
+
+    const t = (key: string) => this.translator.t(key);
+    container.innerHTML = `
+      <div class="text-plugin">
+        <div class="text-find" role="search" hidden>
+          <input class="text-find-input" type="search" aria-label="${t('text.find')}" placeholder="${t('text.find')}" />
+          <input class="text-replace-input" type="text" aria-label="${t('text.replace')}" placeholder="${t('text.replace')}" />
+          <label class="text-find-option"><input type="checkbox" class="text-find-regex" /> ${t('text.regex')}</label>
+          <label class="text-find-option"><input type="checkbox" class="text-find-case" /> ${t('text.matchCase')}</label>
+          <label class="text-find-option"><input type="checkbox" class="text-find-word" /> ${t('text.wholeWord')}</label>
+          <span class="text-find-status" aria-live="polite"></span>
+          <button type="button" class="text-find-prev" aria-label="${t('text.findPrevious')}" title="${t('text.findPrevious')}">↑</button>
+          <button type="button" class="text-find-next" aria-label="${t('text.findNext')}" title="${t('text.findNext')}">↓</button>
+          <button type="button" class="text-replace-one">${t('text.replaceOne')}</button>
+          <button type="button" class="text-replace-all">${t('text.replaceAll')}</button>
+          <button type="button" class="text-find-close" aria-label="${t('text.closeFind')}">×</button>
+        </div>
+        <div class="text-body">
+          <div class="text-gutter" aria-hidden="true" hidden></div>
+          <textarea class="text-editor" spellcheck="true" aria-describedby="${this.hintId}"></textarea>
+          <div class="text-measure" aria-hidden="true"></div>
+        </div>
+        <div class="text-status">
+          <span class="text-stats"></span>
+          <button type="button" class="text-toggle" data-option="lineNumbers">${t('text.lineNumbers')}</button>
+          <button type="button" class="text-toggle" data-option="softWrap">${t('text.softWrap')}</button>
+        </div>
+        <span id="${this.hintId}" hidden>${t('text.tabHint')}</span>
+      </div>
+    `;
+
+    const textarea = this.getTextarea()!;
+    textarea.setAttribute('aria-label', t('text.label'));
+    textarea.placeholder = t('text.placeholder');
+    textarea.value = this.text;
+
+    this.attachEventListeners();
+    this.updateReadOnly();
+    this.updateToggles();
+    this.scheduleLayout();
+  }
+
+  /**
+   * Attach event listeners; all are removed again on destroy
+   */
+  private attachEventListeners(): void {
+    const textarea = this.getTextarea();
+    const root = this.container?.querySelector<HTMLElement>('.text-plugin');
+    if (!textarea || !root) return;
+
+    this.listen(textarea, 'input', () => {
+      this.text = textarea.value;
+      this.scheduleLayout();
+      if (this.isFindOpen()) {
+        this.updateMatches(false);
+      }
+      this.notifyChange();
+    });
+    this.listen(textarea, 'keydown', (event) => this.handleEditorKeydown(event as KeyboardEvent));
+    this.listen(textarea, 'scroll', () => this.syncGutterScroll());
+
+    const findInput = root.querySelector<HTMLInputElement>('.text-find-input')!;
+    const replaceInput = root.querySelector<HTMLInputElement>('.text-replace-input')!;
+    this.listen(findInput, 'input', () => this.updateMatches(true));
+    this.listen(findInput, 'keydown', (event) => {
+      const key = event as KeyboardEvent;
+      if (key.key === 'Enter') {
+        key.preventDefault();
+        this.findNext(key.shiftKey ? -1 : 1);
+      } else if (key.key === 'Escape') {
+        this.closeFind();
+      }
+    });
+    this.listen(replaceInput, 'keydown', (event) => {
+      const key = event as KeyboardEvent;
+      if (key.key === 'Enter') {
+        key.preventDefault();
+        this.replaceCurrent();
+      } else if (key.key === 'Escape') {
+        this.closeFind();
+      }
+    });
+
+    root.querySelectorAll<HTMLInputElement>('.text-find-regex, .text-find-case, .text-find-word').forEach((checkbox) => {
+      this.listen(checkbox, 'change', () => {
+        this.searchOptions = {
+          regex: root.querySelector<HTMLInputElement>('.text-find-regex')!.checked,
+          matchCase: root.querySelector<HTMLInputElement>('.text-find-case')!.checked,
+          wholeWord: root.querySelector<HTMLInputElement>('.text-find-word')!.checked
+        };
+        this.updateMatches(true);
+      });
+    });
+
+    const buttons: Array<[string, () => void]> = [
+      ['.text-find-prev', () => this.findNext(-1)],
+      ['.text-find-next', () => this.findNext(1)],
+      ['.text-replace-one', () => this.replaceCurrent()],
+      ['.text-replace-all', () => this.replaceAllMatches()],
+      ['.text-find-close', () => this.closeFind()]
+    ];
+    buttons.forEach(([selector, handler]) => {
+      this.listen(root.querySelector(selector)!, 'click', handler);
+    });
+
+    root.querySelectorAll<HTMLElement>('.text-toggle').forEach((button) => {
+      this.listen(button, 'click', () => {
+        if (button.dataset.option === 'lineNumbers') {
+          this.setLineNumbers(!this.lineNumbers);
+        } else {
+          this.setSoftWrap(!this.softWrap);
+        }
+      });
+    });
+
+    // Wrapped line heights change with the editor's width
+    if (typeof ResizeObserver !== 'undefined') {
+      const observer = new ResizeObserver(() => this.scheduleLayout());
+      observer.observe(textarea);
+      this.listenerDisposers.push(() => observer.disconnect());
+    }
+  }
+
+  /**
+   * Tab and Shift+Tab indent and outdent, and Enter keeps the current
+   * indent. Escape releases the next Tab so keyboard users can leave.
+   */
+  private handleEditorKeydown(event: KeyboardEvent): void {
+    const textarea = event.target as HTMLTextAreaElement;
+    const releaseTab = this.releaseTab;
+    this.releaseTab = event.key === 'Escape';
+
+    if (this.readOnly || event.defaultPrevented || event.isComposing) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    if (event.key === 'Tab' && !releaseTab) {
+      event.preventDefault();
+      if (event.shiftKey) {
+        outdentSelection(textarea, INDENT);
+      } else {
+        indentSelection(textarea, INDENT);
+      }
+    } else if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      insertNewlineWithIndent(textarea);
+    }
+  }
+
+  /**
+   * Show the find bar, searching for the selected text if there is any
+   */
+  public openFind(): void {
+    const bar = this.container?.querySelector<HTMLElement>('.text-find');
+    const findInput = bar?.querySelector<HTMLInputElement>('.text-find-input');
+    const textarea = this.getTextarea();
+    if (!bar || !findInput || !textarea) return;
+
+    const selected = textarea.value.slice(textarea.selectionStart, textarea.selectionEnd);
+    if (selected && !selected.includes('\n')) {
+      findInput.value = selected;
+    }
+
+    bar.hidden = false;
+    findInput.focus();
+    findInput.select();
+    this.updateMatches(false);
+  }
+
+  /**
+   * Hide the find bar and return to the text, keeping the current match
+   * selected
+   */
+  public closeFind(): void {
+    const bar = this.container?.querySelector<HTMLElement>('.text-find');
+    if (!bar || bar.hidden) return;
+
+    bar.hidden = true;
+    this.searchPattern = null;
+    this.matches = [];
+    this.currentMatch = -1;
+    this.getTextarea()?.focus();
+  }
+
+  private isFindOpen(): boolean {
+    return this.container?.querySelector<HTMLElement>('.text-find')?.hidden === false;
+  }
+
+  /**
+   * Search the text again. The current match becomes the first one at or
+   * after the caret, and is selected if `select` is set.
+   */
+  private updateMatches(select: boolean): void {
+    const findInput = this.container?.querySelector<HTMLInputElement>('.text-find-input');
+    const textarea = this.getTextarea();
+    if (!findInput || !textarea) return;
+
+    this.searchPattern = null;
+    this.matches = [];
+    this.currentMatch = -1;
+
+    let error: string | null = null;
+    if (findInput.value) {
+      try {
+        this.searchPattern = createSearchPattern(findInput.value, this.searchOptions);
+        this.matches = findMatches(this.text, this.searchPattern);
+      } catch (patternError) {
+        error = (patternError as Error).message;
+      }
+    }
+    findInput.setAttribute('aria-invalid', String(error !== null));
+
+    if (this.matches.length > 0) {
+      const after = this.matches.findIndex((match) => match.start >= textarea.selectionStart);
+      this.currentMatch = after === -1 ? 0 : after;
+      if (select) {
+        this.selectMatch(this.currentMatch);
+      }
+    }
+    this.updateFindStatus(error);
+  }
+
+  /**
+   * Move to the next match, or the previous one for a direction of -1
+   */
+  public findNext(direction: 1 | -1 = 1): void {
+    if (this.matches.length === 0) return;
+
+    const count = this.matches.length;
+    this.selectMatch((this.currentMatch + direction + count) % count);
+  }
+
+  /**
+   * Replace the current match and move on to the next one
+   */
+  private replaceCurrent(): void {
+    const textarea = this.getTextarea();
+    const match = this.matches[this.currentMatch];
+    if (this.readOnly || !textarea || !match || !this.searchPattern) return;
+
+    const replacement = this.container!.querySelector<HTMLInputElement>('.text-replace-input')!.value;
+    const expanded = expandReplacement(this.text, match, this.searchPattern, replacement, this.searchOptions);
+    textarea.setRangeText(expanded, match.start, match.end, 'end');
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+
+    if (this.currentMatch >= 0) {
+      this.selectMatch(this.currentMatch);
+    }
+  }
+
+  private replaceAllMatches(): void {
+    const textarea = this.getTextarea();
+    if (this.readOnly || !textarea || !this.searchPattern || this.matches.length === 0) return;
+
+    const replacement = this.container!.querySelector<HTMLInputElement>('.text-replace-input')!.value;
+    const result = replaceAll(this.text, this.searchPattern, replacement, this.searchOptions);
+    textarea.value = result.text;
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+
+    const status = this.container?.querySelector('.text-find-status');
+    if (status) {
+      status.textContent = this.translator.t('text.replaced', { count: result.count });
+    }
+  }
+
+  private selectMatch(index: number): void {
+    const textarea = this.getTextarea();
+    const match = this.matches[index];
+    if (!textarea || !match) return;
+
+    this.currentMatch = index;
+    textarea.setSelectionRange(match.start, match.end);
+    this.revealOffset(match.start);
+    this.updateFindStatus(null);
+  }
+
+  private updateFindStatus(error: string | null): void {
+    const status = this.container?.querySelector('.text-find-status');
+    if (!status) return;
+
+    if (error) {
+      status.textContent = this.translator.t('text.invalidPattern', { message: error });
+    } else if (!this.searchPattern) {
+      status.textContent = '';
+    } else if (this.matches.length === 0) {
+      status.textContent = this.translator.t('text.noMatches');
+    } else {
+      status.textContent = this.translator.t('text.matchPosition', {
+        index: this.currentMatch + 1,
+        count: this.matches.length
+      });
+    }
+  }
+
+  /**
+   * Scroll the textarea so the given offset is in view. The textarea has
+   * no API for this, so the offset is measured in a hidden copy of it.
+   */
+  private revealOffset(offset: number): void {
+    const textarea = this.getTextarea();
+    const measure = this.container?.querySelector<HTMLElement>('.text-measure');
+    if (!textarea || !measure) return;
+
+    const marker = document.createElement('span');
+    marker.textContent = '\u200b';
+    measure.style.width = `${textarea.clientWidth}px`;
+    measure.replaceChildren(document.createTextNode(this.text.slice(0, offset)), marker);
+
+    textarea.scrollTop = Math.max(0, marker.offsetTop - textarea.clientHeight / 2);
+    if (!this.softWrap) {
+      textarea.scrollLeft = Math.max(0, marker.offsetLeft - textarea.clientWidth / 2);
+    }
+    measure.replaceChildren();
+  }
+
+  /**
+   * Show or hide the line number gutter
+   */
+  public setLineNumbers(enabled: boolean): void {
+    this.lineNumbers = enabled;
+    this.updateToggles();
+    this.scheduleLayout();
+  }
+
+  /**
+   * Wrap long lines at the editor's width, or scroll horizontally
+   */
+  public setSoftWrap(enabled: boolean): void {
+    this.softWrap = enabled;
+    this.updateToggles();
+    this.scheduleLayout();
+  }
+
+  private updateToggles(): void {
+    this.container?.querySelector('.text-plugin')?.classList.toggle('text-nowrap', !this.softWrap);
+    this.container?.querySelectorAll<HTMLElement>('.text-toggle').forEach((button) => {
+      const pressed = button.dataset.option === 'lineNumbers' ? this.lineNumbers : this.softWrap;
+      button.setAttribute('aria-pressed', String(pressed));
+    });
+  }
+
+  /**
+   * Update line numbers and statistics once per frame while typing
+   */
+  private scheduleLayout(): void {
+    if (this.layoutFrame !== null) return;
+
+    this.layoutFrame = requestAnimationFrame(() => {
+      this.layoutFrame = null;
+      this.updateLineNumbers();
+      this.updateStats();
+    });
+  }
+
+  /**
+   * Number each line. When lines wrap, each number takes the height of
+   * its line as measured in the hidden copy of the textarea.
+   */
+  private updateLineNumbers(): void {
+    const gutter = this.container?.querySelector<HTMLElement>('.text-gutter');
+    const measure = this.container?.querySelector<HTMLElement>('.text-measure');
+    const textarea = this.getTextarea();
+    if (!gutter || !measure || !textarea) return;
+
+    gutter.hidden = !this.lineNumbers;
+    if (!this.lineNumbers) {
+      gutter.replaceChildren();
+      return;
+    }
+
+    const lines = this.text.split('\n');
+    const rows = lines.map((_, index) => {
+      const row = document.createElement('div');
+      row.className = 'text-line-number';
+      row.textContent = String(index + 1);
+      return row;
+    });
+
+    if (this.softWrap) {
+      measure.style.width = `${textarea.clientWidth}px`;
+      measure.replaceChildren(...lines.map((line) => {
+        const copy = document.createElement('div');
+        copy.textContent = line || ' ';
+        return copy;
+      }));
+      Array.from(measure.children).forEach((copy, index) => {
+        rows[index].style.height = `${(copy as HTMLElement).offsetHeight}px`;
+      });
+      measure.replaceChildren();
+    }
+
+    gutter.replaceChildren(...rows);
+    this.syncGutterScroll();
+  }
+
+  private syncGutterScroll(): void {
+    const gutter = this.container?.querySelector<HTMLElement>('.text-gutter');
+    const textarea = this.getTextarea();
+    if (gutter && textarea) {
+      gutter.scrollTop = textarea.scrollTop;
+    }
+  }
+
+  private updateStats(): void {
+    const element = this.container?.querySelector('.text-stats');
+    if (!element) return;
+
+    const stats = getTextStats(this.text);
+    element.textContent = [
+      this.translator.t('text.words', { count: stats.words }),
+      this.translator.t('text.characters', { count: stats.characters }),
+      this.translator.t('text.lines', { count: stats.lines })
+    ].join(' · ');
+  }
+
+  /**
+   * Counts for the current text
+   */
+  public getStats(): TextStats {
+    return getTextStats(this.text);
+  }
+
+  /**
+   * Where the text is scrolled to
+   */
+  public getViewState(): PluginViewState {
+    const textarea = this.getTextarea();
+    return { scrollTop: textarea?.scrollTop ?? 0, scrollLeft: textarea?.scrollLeft ?? 0 };
+  }
+
+  public setViewState(state: PluginViewState): void {
+    const textarea = this.getTextarea();
+    if (!textarea) return;
+
+    textarea.scrollTop = state.scrollTop ?? 0;
+    textarea.scrollLeft = state.scrollLeft ?? 0;
+    this.syncGutterScroll();
+  }
+
+  /**
+   * Read-only keeps find but locks the text and the replace controls
+   */
+  public setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+    this.updateReadOnly();
+  }
+
+  private updateReadOnly(): void {
+    const textarea = this.getTextarea();
+    if (textarea) {
+      textarea.readOnly = this.readOnly;
+    }
+    this.container?.querySelectorAll<HTMLInputElement | HTMLButtonElement>(
+      '.text-replace-input, .text-replace-one, .text-replace-all'
+    ).forEach((control) => {
+      control.disabled = this.readOnly;
+    });
+  }
+
+  /**
+   * Commands contributed to the command palette
+   */
+  public getCommands(): EditorCommand[] {
+    const category = this.translator.t('text.category');
+
+    return [
+      {
+        id: 'text.find',
+        title: this.translator.t('text.showFind'),
+        category,
+        keybinding: 'Mod+F',
+        run: () => this.openFind()
+      },
+      {
+        id: 'text.toggleLineNumbers',
+        title: this.translator.t('text.toggleLineNumbers'),
+        category,
+        run: () => this.setLineNumbers(!this.lineNumbers)
+      },
+      {
+        id: 'text.toggleSoftWrap',
+        title: this.translator.t('text.toggleSoftWrap'),
+        category,
+        keybinding: 'Alt+Z',
+        run: () => this.setSoftWrap(!this.softWrap)
+      }
+    ];
+  }
+
+  /**
+   * Get plugin data
+   */
+  public getData(): PluginData {
+    return {
+      type: 'text',
+      content: {
+        type: 'text',
+        text: this.text
+      }
+    };
+  }
+
+  /**
+   * Set plugin data
+   */
+  public setData(data: PluginData): void {
+    if (data.content.type !== 'text') return;
+    this.text = data.content.text || '';
+
+    const textarea = this.getTextarea();
+    if (textarea) {
+      textarea.value = this.text;
+      if (this.isFindOpen()) {
+        this.updateMatches(false);
+      }
+      this.scheduleLayout();
+    }
+  }
+
+  /**
+   * Register data change callback
+   */
+  public onDataChange(callback: (data: PluginData) => void): void {
+    this.changeCallback = callback;
+  }
+
+  /**
+   * Notify data change
+   */
+  private notifyChange(): void {
+    if (this.changeCallback) {
+      this.changeCallback(this.getData());
+    }
+  }
+
+  private getTextarea(): HTMLTextAreaElement | null {
+    return this.container?.querySelector<HTMLTextAreaElement>('.text-editor') ?? null;
+  }
+
+  private listen(target: EventTarget, type: string, handler: (event: Event) => void): void {
+    target.addEventListener(type, handler);
+    this.listenerDisposers.push(() => target.removeEventListener(type, handler));
+  }
+
+  private removeListeners(): void {
+    this.listenerDisposers.forEach((dispose) => dispose());
+    this.listenerDisposers = [];
+    if (this.layoutFrame !== null) {
+      cancelAnimationFrame(this.layoutFrame);
+      this.layoutFrame = null;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Messages for the text plugin
+ */
+
+import type { MessageBundle } from '../../editor/types';
+
+const en: MessageBundle = {
+  'text.category': 'Text',
+  'text.label': 'Note text',
+  'text.placeholder': 'Start typing...',
+  'text.tabHint': 'Tab indents. Press Escape, then Tab, to move focus out of the editor.',
+  'text.find': 'Find',
+  'text.replace': 'Replace',
+  'text.findPrevious': 'Previous match',
+  'text.findNext': 'Next match',
+  'text.replaceOne': 'Replace',
+  'text.replaceAll': 'Replace all',
+  'text.closeFind': 'Close find',
+  'text.regex': 'Regex',
+  'text.matchCase': 'Match case',
+  'text.wholeWord': 'Whole word',
+  'text.matchPosition': '{index} of {count}',
+  'text.noMatches': 'No matches',
+  'text.invalidPattern': 'Invalid expression: {message}',
+  'text.replaced': {
+    one: 'Replaced {count} match',
+    other: 'Replaced {count} matches'
+  },
+  'text.lineNumbers': 'Line numbers',
+  'text.softWrap': 'Wrap lines',
+  'text.words': {
+    one: '{count} word',
+    other: '{count} words'
+  },
+  'text.characters': {
+    one: '{count} character',
+    other: '{count} characters'
+  },
+  'text.lines': {
+    one: '{count} line',
+    other: '{count} lines'
+  },
+  'text.showFind': 'Find and Replace',
+  'text.toggleLineNumbers': 'Toggle Line Numbers',
+  'text.toggleSoftWrap': 'Toggle Line Wrapping'
+};
+
+const de: MessageBundle = {
+  'text.category': 'Text',
+  'text.label': 'Notiztext',
+  'text.placeholder': 'Schreib los...',
+  'text.tabHint': 'Tab rückt ein. Drücke Escape und dann Tab, um den Editor zu verlassen.',
+  'text.find': 'Suchen',
+  'text.replace': 'Ersetzen',
+  'text.findPrevious': 'Vorheriger Treffer',
+  'text.findNext': 'Nächster Treffer',
+  'text.replaceOne': 'Ersetzen',
+  'text.replaceAll': 'Alle ersetzen',
+  'text.closeFind': 'Suche schließen',
+  'text.regex': 'Regulärer Ausdruck',
+  'text.matchCase': 'Groß-/Kleinschreibung',
+  'text.wholeWord': 'Ganzes Wort',
+  'text.matchPosition': '{index} von {count}',
+  'text.noMatches': 'Keine Treffer',
+  'text.invalidPattern': 'Ungültiger Ausdruck: {message}',
+  'text.replaced': {
+    one: '{count} Treffer ersetzt',
+    other: '{count} Treffer ersetzt'
+  },
+  'text.lineNumbers': 'Zeilennummern',
+  'text.softWrap': 'Zeilen umbrechen',
+  'text.words': {
+    one: '{count} Wort',
+    other: '{count} Wörter'
+  },
+  'text.characters': {
+    one: '{count} Zeichen',
+    other: '{count} Zeichen'
+  },
+  'text.lines': {
+    one: '{count} Zeile',
+    other: '{count} Zeilen'
+  },
+  'text.showFind': 'Suchen und Ersetzen',
+  'text.toggleLineNumbers': 'Zeilennummern ein/aus',
+  'text.toggleSoftWrap': 'Zeilenumbruch ein/aus'
+};
+
+const es: MessageBundle = {
+  'text.category': 'Texto',
+  'text.label': 'Texto de la nota',
+  'text.placeholder': 'Empieza a escribir...',
+  'text.tabHint': 'Tab sangra el texto. Pulsa Escape y luego Tab para salir del editor.',
+  'text.find': 'Buscar',
+  'text.replace': 'Reemplazar',
+  'text.findPrevious': 'Coincidencia anterior',
+  'text.findNext': 'Coincidencia siguiente',
+  'text.replaceOne': 'Reemplazar',
+  'text.replaceAll': 'Reemplazar todo',
+  'text.closeFind': 'Cerrar búsqueda',
+  'text.regex': 'Expresión regular',
+  'text.matchCase': 'Distinguir mayúsculas',
+  'text.wholeWord': 'Palabra completa',
+  'text.matchPosition': '{index} de {count}',
+  'text.noMatches': 'Sin coincidencias',
+  'text.invalidPattern': 'Expresión no válida: {message}',
+  'text.replaced': {
+    one: '{count} coincidencia reemplazada',
+    other: '{count} coincidencias reemplazadas'
+  },
+  'text.lineNumbers': 'Números de línea',
+  'text.softWrap': 'Ajustar líneas',
+  'text.words': {
+    one: '{count} palabra',
+    other: '{count} palabras'
+  },
+  'text.characters': {
+    one: '{count} carácter',
+    other: '{count} caracteres'
+  },
+  'text.lines': {
+    one: '{count} línea',
+    other: '{count} líneas'
+  },
+  'text.showFind': 'Buscar y reemplazar',
+  'text.toggleLineNumbers': 'Mostrar u ocultar números de línea',
+  'text.toggleSoftWrap': 'Activar o desactivar el ajuste de línea'
+};
+
+export const TEXT_MESSAGES: Record<string, MessageBundle> = { en, de, es };
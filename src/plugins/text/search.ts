@@ -0,0 +1,88 @@
+/**
+ * Find and replace over plain text
+ */
+
+export interface SearchOptions {
+  regex: boolean;
+  matchCase: boolean;
+  /** Only match where no letter, digit or underscore touches either end */
+  wholeWord: boolean;
+}
+
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+/**
+ * Build a global pattern for a query. Plain queries match literally;
+ * regex queries are multiline so ^ and $ match at line breaks. Whole-word
+ * queries are bounded by Unicode word characters rather than \b, which
+ * only knows ASCII. Throws a SyntaxError for an invalid expression.
+ */
+export function createSearchPattern(query: string, options: SearchOptions): RegExp {
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) {
+    source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+  }
+  const unicode = options.regex || options.wholeWord;
+  const flags = `g${options.matchCase ? '' : 'i'}${options.regex ? 'm' : ''}${unicode ? 'u' : ''}`;
+  return new RegExp(source, flags);
+}
+
+/**
+ * Every non-empty match of a pattern, in order
+ */
+export function findMatches(text: string, pattern: RegExp): TextMatch[] {
+  const matches: TextMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    const start = match.index ?? 0;
+    matches.push({ start, end: start + match[0].length });
+  }
+  return matches;
+}
+
+/**
+ * The text a match is replaced with. Regex replacements may refer to
+ * groups ($1, $<name>) and are expanded in place, so anchors and
+ * lookarounds see the surrounding text; plain ones are inserted as typed.
+ */
+export function expandReplacement(
+  text: string,
+  match: TextMatch,
+  pattern: RegExp,
+  replacement: string,
+  options: SearchOptions
+): string {
+  if (!options.regex) return replacement;
+
+  const sticky = new RegExp(pattern.source, `${pattern.flags.replace('g', '')}y`);
+  sticky.lastIndex = match.start;
+  const replaced = text.replace(sticky, replacement);
+  return replaced.slice(match.start, replaced.length - (text.length - match.end));
+}
+
+/**
+ * Replace every non-empty match, returning the new text and how many
+ * matches were replaced
+ */
+export function replaceAll(
+  text: string,
+  pattern: RegExp,
+  replacement: string,
+  options: SearchOptions
+): { text: string; count: number } {
+  const matches = findMatches(text, pattern);
+  let result = '';
+  let last = 0;
+
+  matches.forEach((match) => {
+    result += text.slice(last, match.start) + expandReplacement(text, match, pattern, replacement, options);
+    last = match.end;
+  });
+
+  return { text: result + text.slice(last), count: matches.length };
+}
@@ -0,0 +1,7 @@
+/**
+ * Deep clone utility for JSON-serializable data
+ */
+
+export function deepClone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
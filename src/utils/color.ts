@@ -0,0 +1,40 @@
+/**
+ * Color utilities
+ */
+
+/**
+ * Parse a CSS hex or rgb()/rgba() color into RGB channels (0-255)
+ */
+export function parseColor(value: string): [number, number, number] | null {
+  const color = value.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3
+      ? hex[1].split('').map((digit) => digit + digit).join('')
+      : hex[1];
+    return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16)) as [number, number, number];
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  }
+
+  return null;
+}
+
+/**
+ * Whether a color contrasts more with white than with black, i.e. needs
+ * light text on top of it
+ */
+export function isDarkColor(value: string): boolean | null {
+  const rgb = parseColor(value);
+  if (!rgb) return null;
+
+  const [r, g, b] = rgb.map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b < 0.179;
+}
@@ -0,0 +1,111 @@
+/**
+ * Line-based text diff utility
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Largest LCS table built, in cells: about 2000 changed lines on each
+ * side. A larger changed region is treated as replaced as a whole.
+ */
+const MAX_LCS_CELLS = 2000 * 2000;
+
+/**
+ * Pair up the lines of `a` and `b` that stay the same, in order, as
+ * [index in a, index in b]. Lines shared at the start and end are paired
+ * directly, so only the changed middle needs the LCS table.
+ */
+function matchPairs(a: string[], b: string[]): Array<[number, number]> {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i++) {
+    pairs.push([i, i]);
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  if ((middleA.length + 1) * (middleB.length + 1) <= MAX_LCS_CELLS) {
+    lcsPairs(middleA, middleB).forEach(([i, j]) => pairs.push([prefix + i, prefix + j]));
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    pairs.push([a.length - k, b.length - k]);
+  }
+  return pairs;
+}
+
+/**
+ * Pairs of a longest common subsequence, from a table where
+ * table[i][j] = LCS length of a[i..] and b[j..]
+ */
+function lcsPairs(a: string[], b: string[]): Array<[number, number]> {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  const pairs: Array<[number, number]> = [...matchPairs(a, b), [a.length, b.length]];
+  pairs.forEach(([nextA, nextB]) => {
+    while (i < nextA) result.push({ type: 'removed', text: a[i++] });
+    while (j < nextB) result.push({ type: 'added', text: b[j++] });
+    if (i < a.length && j < b.length) {
+      result.push({ type: 'equal', text: a[i++] });
+      j++;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Map each line of `a` that is part of the LCS to its index in `b`
+ */
+export function matchLines(a: string[], b: string[]): Map<number, number> {
+  return new Map(matchPairs(a, b));
+}
@@ -0,0 +1,47 @@
+/**
+ * Focus management utilities for dialogs and panels
+ */
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[contenteditable="true"]',
+  '[tabindex]:not([tabindex="-1"])'
+].join(',');
+
+/**
+ * Visible elements inside `root` that can take keyboard focus, in tab order
+ */
+export function getFocusableElements(root: HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+    .filter((element) => !element.hidden && element.getClientRects().length > 0);
+}
+
+/**
+ * Keep Tab and Shift+Tab cycling inside a modal dialog. Call from the
+ * dialog's keydown handler.
+ */
+export function trapFocus(event: KeyboardEvent, root: HTMLElement): void {
+  if (event.key !== 'Tab' || event.defaultPrevented) return;
+
+  const focusable = getFocusableElements(root);
+  if (!focusable.length) {
+    event.preventDefault();
+    return;
+  }
+
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = document.activeElement;
+
+  if (event.shiftKey && (active === first || !root.contains(active))) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && (active === last || !root.contains(active))) {
+    event.preventDefault();
+    first.focus();
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Fuzzy matching utility
+ */
+
+/**
+ * Score how well `query` matches `text` as an in-order subsequence.
+ * Returns null when not every query character is found. Higher is better:
+ * consecutive matches and matches at word starts score extra.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of q) {
+    const found = t.indexOf(char, textIndex);
+    if (found === -1) return null;
+
+    score += 1;
+    if (found === previousMatch + 1) score += 3;
+    if (found === 0 || /[\s:._-]/.test(t[found - 1])) score += 2;
+
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+
+  // Prefer shorter candidates when scores tie
+  return score - t.length * 0.01;
+}
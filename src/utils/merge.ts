@@ -0,0 +1,82 @@
+/**
+ * Three-way line merge utility
+ */
+
+import { matchLines } from './diff';
+
+export interface TextMergeResult {
+  text: string;
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  start: '<<<<<<< Local',
+  separator: '=======',
+  end: '>>>>>>> Remote'
+};
+
+/**
+ * Merge two texts that both diverged from a common base.
+ *
+ * Base lines kept by both sides anchor the merge; the chunks between
+ * anchors take whichever side changed, and chunks changed differently on
+ * both sides are wrapped in conflict markers.
+ */
+export function mergeText(base: string, local: string, remote: string): TextMergeResult {
+  if (local === remote) return { text: local, conflicts: 0 };
+  if (local === base) return { text: remote, conflicts: 0 };
+  if (remote === base) return { text: local, conflicts: 0 };
+
+  const baseLines = base.split('\n');
+  const localLines = local.split('\n');
+  const remoteLines = remote.split('\n');
+  const localMatches = matchLines(baseLines, localLines);
+  const remoteMatches = matchLines(baseLines, remoteLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let l = 0;
+  let r = 0;
+
+  const resolveChunk = (baseEnd: number, localEnd: number, remoteEnd: number) => {
+    const baseChunk = baseLines.slice(b, baseEnd);
+    const localChunk = localLines.slice(l, localEnd);
+    const remoteChunk = remoteLines.slice(r, remoteEnd);
+
+    if (sameLines(localChunk, remoteChunk) || sameLines(baseChunk, remoteChunk)) {
+      output.push(...localChunk);
+    } else if (sameLines(baseChunk, localChunk)) {
+      output.push(...remoteChunk);
+    } else {
+      conflicts++;
+      output.push(
+        CONFLICT_MARKERS.start,
+        ...localChunk,
+        CONFLICT_MARKERS.separator,
+        ...remoteChunk,
+        CONFLICT_MARKERS.end
+      );
+    }
+  };
+
+  for (let anchor = 0; anchor < baseLines.length; anchor++) {
+    const localIndex = localMatches.get(anchor);
+    const remoteIndex = remoteMatches.get(anchor);
+    if (localIndex === undefined || remoteIndex === undefined) continue;
+
+    resolveChunk(anchor, localIndex, remoteIndex);
+    output.push(baseLines[anchor]);
+    b = anchor + 1;
+    l = localIndex + 1;
+    r = remoteIndex + 1;
+  }
+
+  resolveChunk(baseLines.length, localLines.length, remoteLines.length);
+
+  return { text: output.join('\n'), conflicts };
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
@@ -0,0 +1,85 @@
+/**
+ * Textarea editing utilities
+ */
+
+/**
+ * Insert text at the caret, replacing any selection, and fire an input
+ * event so listeners see the change
+ */
+export function insertAtCursor(textarea: HTMLTextAreaElement, text: string): void {
+  const start = textarea.selectionStart ?? textarea.value.length;
+  const end = textarea.selectionEnd ?? start;
+
+  textarea.setRangeText(text, start, end, 'end');
+  textarea.focus();
+  textarea.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+/**
+ * Start and end of the lines the selection touches. A selection ending
+ * at the start of a line does not include that line.
+ */
+function getSelectedLines(textarea: HTMLTextAreaElement): { start: number; end: number } {
+  const { value, selectionStart, selectionEnd } = textarea;
+  const last = selectionEnd > selectionStart && value[selectionEnd - 1] === '\n'
+    ? selectionEnd - 1
+    : selectionEnd;
+  const start = value.lastIndexOf('\n', selectionStart - 1) + 1;
+  const newline = value.indexOf('\n', last);
+  return { start, end: newline === -1 ? value.length : newline };
+}
+
+/**
+ * Indent the selected lines, or insert the indent at the caret when the
+ * selection is within one line
+ */
+export function indentSelection(textarea: HTMLTextAreaElement, indent: string): void {
+  const { value, selectionStart, selectionEnd } = textarea;
+  if (!value.slice(selectionStart, selectionEnd).includes('\n')) {
+    insertAtCursor(textarea, indent);
+    return;
+  }
+
+  const lines = getSelectedLines(textarea);
+  const block = value.slice(lines.start, lines.end).split('\n');
+  textarea.setRangeText(block.map((line) => indent + line).join('\n'), lines.start, lines.end, 'select');
+  textarea.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+/**
+ * Remove one level of indent from the selected lines: a tab, or up to
+ * the indent's width in spaces
+ */
+export function outdentSelection(textarea: HTMLTextAreaElement, indent: string): void {
+  const { value, selectionStart, selectionEnd } = textarea;
+  const lines = getSelectedLines(textarea);
+  const width = indent === '\t' ? 4 : indent.length;
+  const leading = new RegExp(`^(\\t| {1,${width}})`);
+
+  let removedBefore = 0;
+  let removedTotal = 0;
+  const block = value.slice(lines.start, lines.end).split('\n').map((line, index) => {
+    const removed = line.match(leading)?.[0].length ?? 0;
+    if (index === 0) removedBefore = Math.min(removed, selectionStart - lines.start);
+    removedTotal += removed;
+    return line.slice(removed);
+  });
+  if (removedTotal === 0) return;
+
+  textarea.setRangeText(block.join('\n'), lines.start, lines.end, 'preserve');
+  textarea.setSelectionRange(
+    Math.max(lines.start, selectionStart - removedBefore),
+    Math.max(lines.start, selectionEnd - removedTotal)
+  );
+  textarea.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+/**
+ * Insert a line break that keeps the current line's leading whitespace
+ */
+export function insertNewlineWithIndent(textarea: HTMLTextAreaElement): void {
+  const { value, selectionStart } = textarea;
+  const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+  const indent = value.slice(lineStart, selectionStart).match(/^[ \t]*/)?.[0] ?? '';
+  insertAtCursor(textarea, `\n${indent}`);
+}
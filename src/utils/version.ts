@@ -0,0 +1,21 @@
+/**
+ * Version comparison utility
+ */
+
+/**
+ * Compare two dotted version strings, returning -1, 0 or 1
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map((part) => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) {
+      return diff > 0 ? 1 : -1;
+    }
+  }
+
+  return 0;
+}
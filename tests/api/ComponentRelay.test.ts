@@ -0,0 +1,212 @@
+import { ComponentRelay, SAVE_TIMEOUT_MS } from '../../src/api/ComponentRelay';
+import { FakeStandardNotesHost } from '../../src/api/FakeStandardNotesHost';
+import { createPlainTextData, PAYLOAD_FORMAT } from '../../src/editor/notePayload';
+import type { NotePreview } from '../../src/editor/notePayload';
+import type { NoteItem } from '../../src/editor/types';
+
+const PREVIEW: NotePreview = { plain: 'Hello', html: null };
+
+function createNote(uuid: string, text: string = 'Hello'): NoteItem {
+  return {
+    uuid,
+    content_type: 'Note',
+    content: { title: `Note ${uuid}`, text },
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z'
+  };
+}
+
+/**
+ * Let queued host messages and their handlers run
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('ComponentRelay', () => {
+  let host: FakeStandardNotesHost;
+  let relay: ComponentRelay;
+
+  /**
+   * Complete the handshake and stream the first note
+   */
+  async function connect(note: NoteItem = createNote('note-1')): Promise<void> {
+    const ready = relay.initialize();
+    const streamRequest = host.waitFor('stream-context-item');
+    host.register();
+    await streamRequest;
+    host.pushNote(note);
+    await ready;
+  }
+
+  beforeEach(() => {
+    host = new FakeStandardNotesHost();
+    relay = new ComponentRelay(host.transport);
+  });
+
+  afterEach(() => {
+    relay.destroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('handshake', () => {
+    it('registers with the host and streams the open note', async () => {
+      const onNoteLoad = jest.fn();
+      relay.onNoteLoad(onNoteLoad);
+
+      const ready = relay.initialize();
+      expect(relay.isConnected()).toBe(false);
+
+      const streamRequest = host.waitFor('stream-context-item');
+      host.register({ locale: 'de', componentData: { theme: 'dark' } });
+      await streamRequest;
+
+      expect(relay.isConnected()).toBe(true);
+      expect(relay.getLocale()).toBe('de');
+      expect(relay.getComponentData()).toEqual({ theme: 'dark' });
+
+      host.pushNote(createNote('note-1', 'Hello'));
+      await ready;
+
+      expect(relay.getCurrentNoteId()).toBe('note-1');
+      expect(onNoteLoad).toHaveBeenCalledTimes(1);
+      const [result, noteId] = onNoteLoad.mock.calls[0];
+      expect(noteId).toBe('note-1');
+      expect(result.status).toBe('ok');
+      expect(result.data.contents.text.content.text).toBe('Hello');
+    });
+
+    it('activates the themes the host reports', async () => {
+      const onThemesChange = jest.fn();
+      relay.onThemesChange(onThemesChange);
+
+      const ready = relay.initialize();
+      const themesActivated = host.waitFor('themes-activated');
+      host.register({ activeThemeUrls: ['https://themes.test/dark.css'] });
+      await themesActivated;
+
+      expect(onThemesChange).toHaveBeenLastCalledWith(['https://themes.test/dark.css']);
+
+      host.activateThemes(['https://themes.test/light.css']);
+      await flush();
+
+      expect(onThemesChange).toHaveBeenLastCalledWith(['https://themes.test/light.css']);
+
+      host.pushNote(createNote('note-1'));
+      await ready;
+    });
+
+    it('reports an empty note for a note without content', async () => {
+      const onNoteLoad = jest.fn();
+      relay.onNoteLoad(onNoteLoad);
+
+      const note = createNote('note-1');
+      delete (note as Partial<NoteItem>).content;
+      await connect(note);
+
+      expect(onNoteLoad).toHaveBeenCalledWith(null, 'note-1');
+    });
+  });
+
+  describe('outbox', () => {
+    it('holds messages until registration, then delivers them in order', async () => {
+      const ready = relay.initialize();
+      relay.setSize('100%', 480);
+      await flush();
+
+      expect(host.received).toEqual([]);
+
+      const themesActivated = host.waitFor('themes-activated');
+      host.register();
+      await themesActivated;
+
+      expect(host.received.map((message) => message.action)).toEqual([
+        'stream-context-item',
+        'set-size',
+        'themes-activated'
+      ]);
+      expect(host.received.every((message) => message.sessionKey === 'fake-session')).toBe(true);
+      expect(host.messages('set-size')[0].data).toEqual({ type: 'container', width: '100%', height: 480 });
+
+      host.pushNote(createNote('note-1'));
+      await ready;
+    });
+  });
+
+  describe('saving', () => {
+    it('writes the data into the note and resolves when the host confirms', async () => {
+      await connect(createNote('note-1'));
+
+      await relay.saveNote('note-1', createPlainTextData('Updated'), PREVIEW);
+
+      expect(host.savedItems).toHaveLength(1);
+      const [item] = host.savedItems;
+      expect(item.uuid).toBe('note-1');
+      expect(item.content.title).toBe('Note note-1');
+      expect(item.content.preview_plain).toBe('Hello');
+      expect(item.content.preview_html).toBeNull();
+
+      const envelope = JSON.parse(item.content.text!);
+      expect(envelope.format).toBe(PAYLOAD_FORMAT);
+      expect(envelope.data.contents.text.content.text).toBe('Updated');
+    });
+
+    it('rejects when the host answers with an error', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await connect();
+
+      host.failNextSave('Sync failed');
+
+      await expect(relay.saveNote('note-1', createPlainTextData('Updated'), PREVIEW)).rejects.toThrow('Sync failed');
+      expect(host.savedItems).toEqual([]);
+    });
+
+    it('rejects when the host does not answer in time', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await connect();
+
+      host.onSave(() => new Promise<void>(() => undefined));
+      jest.useFakeTimers();
+
+      const saved = relay.saveNote('note-1', createPlainTextData('Updated'), PREVIEW);
+      const assertion = expect(saved).rejects.toThrow('Standard Notes did not confirm the save');
+      jest.advanceTimersByTime(SAVE_TIMEOUT_MS);
+
+      await assertion;
+    });
+
+    it('refuses to save to a note it has not seen', async () => {
+      await connect();
+
+      await expect(relay.saveNote('note-2', createPlainTextData('Updated'), PREVIEW)).rejects.toThrow(
+        'Note note-2 is no longer open to save to'
+      );
+    });
+  });
+
+  describe('origin checks', () => {
+    it('ignores messages from other origins once registered', async () => {
+      const onNoteLoad = jest.fn();
+      const onThemesChange = jest.fn();
+      relay.onNoteLoad(onNoteLoad);
+      relay.onThemesChange(onThemesChange);
+      await connect(createNote('note-1'));
+      onNoteLoad.mockClear();
+
+      const [streamRequest] = host.messages('stream-context-item');
+      host.deliver({ action: 'reply', original: streamRequest, data: { item: createNote('note-2') } }, 'https://evil.test');
+      host.deliver({ action: 'activate-themes', data: { themes: ['https://evil.test/theme.css'] } }, 'https://evil.test');
+      host.deliver({ action: 'component-registered', sessionKey: 'evil-session', data: {} }, 'https://evil.test');
+      await flush();
+
+      expect(onNoteLoad).not.toHaveBeenCalled();
+      expect(onThemesChange).not.toHaveBeenCalled();
+      expect(relay.getCurrentNoteId()).toBe('note-1');
+
+      // The registered session still works
+      await relay.saveNote('note-1', createPlainTextData('Updated'), PREVIEW);
+      expect(host.savedItems).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { SaveQueue } from '../../src/api/SaveQueue';
+import type { PersistedSave, SaveQueueStatus } from '../../src/api/SaveQueue';
+import type { EditorData } from '../../src/editor/types';
+
+const STORAGE_KEY = 'enhanced-editor-pending-saves';
+
+function createData(text: string): EditorData {
+  return {
+    mode: 'text',
+    contents: {
+      text: { content: { type: 'text', text }, created: 1, modified: 1 }
+    },
+    metadata: { version: '1.1.0', lastMode: 'text', created: 1, modified: 1 }
+  };
+}
+
+function textOf(data: EditorData): string {
+  const content = data.contents.text?.content;
+  return content?.type === 'text' ? content.text : '';
+}
+
+function storedNotes(): string[] {
+  return SaveQueue.loadPersisted().map((save) => `${save.noteId}:${textOf(save.data)}`);
+}
+
+/**
+ * A save handler whose calls are answered one at a time by the test
+ */
+function createHandler() {
+  const calls: Array<{ noteId: string; text: string; resolve: () => void; reject: (error: Error) => void }> = [];
+  const handler = jest.fn((noteId: string, data: EditorData) => new Promise<void>((resolve, reject) => {
+    calls.push({ noteId, text: textOf(data), resolve, reject });
+  }));
+  return { handler, calls };
+}
+
+describe('SaveQueue', () => {
+  let queue: SaveQueue;
+  let statuses: SaveQueueStatus[];
+
+  function createQueue(handler: (noteId: string, data: EditorData) => Promise<void>, maxRetries: number = 5): SaveQueue {
+    queue = new SaveQueue(handler, { maxRetries, baseDelay: 1000, maxDelay: 4000 });
+    statuses = [];
+    queue.onStatusChange((status) => statuses.push(status));
+    return queue;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // No jitter, so retries happen exactly at the backoff delay
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    queue?.destroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('saving', () => {
+    it('sends a save, reports its progress and resolves once confirmed', async () => {
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+      const onSaved = jest.fn();
+      queue.onSaved(onSaved);
+
+      const saved = queue.enqueue('note-1', createData('one'));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(queue.getStatus()).toBe('saving');
+      expect(queue.hasPending('note-1')).toBe(true);
+
+      calls[0].resolve();
+      await saved;
+
+      expect(onSaved).toHaveBeenCalledWith('note-1', createData('one'));
+      expect(statuses).toEqual(['saving', 'idle']);
+      expect(queue.hasPending()).toBe(false);
+    });
+
+    it('sends only the latest of several saves queued for a note', async () => {
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+
+      const first = queue.enqueue('note-1', createData('one'));
+      const second = queue.enqueue('note-1', createData('two'));
+      const third = queue.enqueue('note-1', createData('three'));
+
+      calls[0].resolve();
+      await first;
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(calls.map((call) => call.text)).toEqual(['one', 'three']);
+
+      calls[1].resolve();
+      await expect(Promise.all([second, third])).resolves.toBeDefined();
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps saves for different notes apart and sends them in order', async () => {
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+
+      const first = queue.enqueue('note-1', createData('one'));
+      const second = queue.enqueue('note-2', createData('two'));
+
+      calls[0].resolve();
+      await first;
+      await jest.advanceTimersByTimeAsync(0);
+      calls[1].resolve();
+      await second;
+
+      expect(calls.map((call) => `${call.noteId}:${call.text}`)).toEqual(['note-1:one', 'note-2:two']);
+    });
+  });
+
+  describe('retries', () => {
+    it('retries a failed save with exponential backoff', async () => {
+      const handler = jest.fn()
+        .mockRejectedValueOnce(new Error('Sync failed'))
+        .mockRejectedValueOnce(new Error('Sync failed again'))
+        .mockResolvedValue(undefined);
+      createQueue(handler);
+
+      const saved = queue.enqueue('note-1', createData('one'));
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(queue.getStatus()).toBe('failed');
+      expect(queue.getLastError()?.message).toBe('Sync failed');
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(handler).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      // The second retry waits twice as long
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(handler).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledTimes(3);
+
+      await saved;
+      expect(queue.getStatus()).toBe('idle');
+      expect(queue.getLastError()).toBeNull();
+    });
+
+    it('caps the backoff delay', async () => {
+      const handler = jest.fn().mockRejectedValue(new Error('Sync failed'));
+      createQueue(handler, 10);
+      queue.enqueue('note-1', createData('one')).catch(() => undefined);
+      await jest.advanceTimersByTimeAsync(0);
+
+      // 1s, 2s and 4s, then never more than the 4s maximum
+      await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+      expect(handler).toHaveBeenCalledTimes(4);
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(handler).toHaveBeenCalledTimes(5);
+    });
+
+    it('gives up after the last retry, rejects and keeps the save for later', async () => {
+      const handler = jest.fn().mockRejectedValue(new Error('Sync failed'));
+      createQueue(handler, 2);
+
+      const saved = queue.enqueue('note-1', createData('one'));
+      const failure = expect(saved).rejects.toThrow('Sync failed');
+      await jest.advanceTimersByTimeAsync(1000 + 2000);
+      await failure;
+
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(queue.getStatus()).toBe('failed');
+      expect(queue.hasPending('note-1')).toBe(true);
+      expect(storedNotes()).toEqual(['note-1:one']);
+
+      // No more automatic retries, but the user can retry
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(handler).toHaveBeenCalledTimes(3);
+
+      handler.mockResolvedValue(undefined);
+      queue.retryNow();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(handler).toHaveBeenCalledTimes(4);
+      expect(queue.getStatus()).toBe('idle');
+      expect(storedNotes()).toEqual([]);
+    });
+
+    it('sends a newer save in place of a failed one and resolves both', async () => {
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+
+      const first = queue.enqueue('note-1', createData('one'));
+      calls[0].reject(new Error('Sync failed'));
+      await jest.advanceTimersByTimeAsync(0);
+
+      const second = queue.enqueue('note-1', createData('two'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(calls.map((call) => call.text)).toEqual(['one', 'two']);
+      calls[1].resolve();
+      await expect(Promise.all([first, second])).resolves.toBeDefined();
+    });
+  });
+
+  describe('offline', () => {
+    it('waits while offline and saves once the connection returns', async () => {
+      const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const handler = jest.fn().mockResolvedValue(undefined);
+      createQueue(handler);
+
+      const saved = queue.enqueue('note-1', createData('one'));
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(queue.getStatus()).toBe('offline');
+      expect(storedNotes()).toEqual(['note-1:one']);
+
+      onLine.mockReturnValue(true);
+      window.dispatchEvent(new Event('online'));
+      await saved;
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(queue.getStatus()).toBe('idle');
+    });
+
+    it('skips the backoff when the connection returns', async () => {
+      const handler = jest.fn()
+        .mockRejectedValueOnce(new Error('Network down'))
+        .mockResolvedValue(undefined);
+      createQueue(handler);
+
+      const saved = queue.enqueue('note-1', createData('one'));
+      await jest.advanceTimersByTimeAsync(0);
+
+      window.dispatchEvent(new Event('online'));
+      await saved;
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('persistence', () => {
+    it('stores unsent saves until they are confirmed', async () => {
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+      const base = createData('stored');
+
+      const saved = queue.enqueue('note-1', createData('one'), base);
+
+      const [stored] = SaveQueue.loadPersisted();
+      expect(stored).toMatchObject({ noteId: 'note-1', data: createData('one'), base });
+
+      calls[0].resolve();
+      await saved;
+
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('keeps saves other sessions left for other notes', async () => {
+      const leftOver: PersistedSave = { noteId: 'note-2', data: createData('left over'), queuedAt: 1 };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([leftOver]));
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+
+      const saved = queue.enqueue('note-1', createData('one'));
+      expect(storedNotes()).toEqual(['note-2:left over', 'note-1:one']);
+
+      calls[0].resolve();
+      await saved;
+
+      expect(storedNotes()).toEqual(['note-2:left over']);
+    });
+
+    it('replaces a stored save for a note once this session saves it', async () => {
+      const leftOver: PersistedSave = { noteId: 'note-1', data: createData('left over'), queuedAt: 1 };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([leftOver]));
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+
+      const saved = queue.enqueue('note-1', createData('one'));
+      expect(storedNotes()).toEqual(['note-1:one']);
+
+      calls[0].resolve();
+      await saved;
+      expect(storedNotes()).toEqual([]);
+    });
+
+    it('forgets a stored save unless the note has one queued', () => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([
+        { noteId: 'note-1', data: createData('one'), queuedAt: 1 },
+        { noteId: 'note-2', data: createData('two'), queuedAt: 1 }
+      ]));
+      const { handler } = createHandler();
+      createQueue(handler);
+
+      queue.enqueue('note-1', createData('newer'));
+      queue.forget('note-1');
+      queue.forget('note-2');
+
+      expect(storedNotes()).toEqual(['note-1:newer']);
+    });
+
+    it('keeps unsent saves stored when destroyed', async () => {
+      const handler = jest.fn().mockRejectedValue(new Error('Sync failed'));
+      createQueue(handler);
+
+      queue.enqueue('note-1', createData('one')).catch(() => undefined);
+      await jest.advanceTimersByTimeAsync(0);
+      queue.destroy();
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(storedNotes()).toEqual(['note-1:one']);
+    });
+
+    it('keeps a save in flight stored when destroyed, whatever its outcome', async () => {
+      const { handler, calls } = createHandler();
+      createQueue(handler);
+
+      queue.enqueue('note-1', createData('one'));
+      queue.enqueue('note-2', createData('two'));
+      queue.destroy();
+      calls[0].resolve();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(storedNotes()).toEqual(['note-1:one', 'note-2:two']);
+    });
+
+    it('reads nothing from malformed storage', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      localStorage.setItem(STORAGE_KEY, '{ not json');
+      expect(SaveQueue.loadPersisted()).toEqual([]);
+
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ noteId: 'note-1' }));
+      expect(SaveQueue.loadPersisted()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { HistoryManager } from '../../src/editor/HistoryManager';
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types';
+import type { PluginData } from '../../src/editor/types';
+
+function text(value: string): PluginData {
+  return { type: 'text', content: { type: 'text', text: value } };
+}
+
+function drawing(version: number, appState: Record<string, unknown> = {}): PluginData {
+  const element = { id: 'a', type: 'rectangle', version } as unknown as ExcalidrawElement;
+  return { type: 'excalidraw', content: { type: 'excalidraw', elements: [element], appState } };
+}
+
+function textOf(history: HistoryManager, step: 'undo' | 'redo'): string | null {
+  const entry = history[step]();
+  return entry?.content.type === 'text' ? entry.content.text : null;
+}
+
+describe('HistoryManager', () => {
+  let history: HistoryManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    history = new HistoryManager({ limit: 3, coalesceWindow: 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('coalescing', () => {
+    it('merges edits that arrive within the window into one entry', () => {
+      history.record(text(''), true);
+      history.record(text('a'));
+      jest.advanceTimersByTime(500);
+      history.record(text('ab'));
+
+      expect(textOf(history, 'undo')).toBe('');
+      expect(history.canUndo()).toBe(false);
+      expect(textOf(history, 'redo')).toBe('ab');
+    });
+
+    it('starts a new entry once the window has passed', () => {
+      history.record(text(''), true);
+      history.record(text('a'));
+      jest.advanceTimersByTime(1000);
+      history.record(text('ab'));
+
+      expect(textOf(history, 'undo')).toBe('a');
+      expect(textOf(history, 'undo')).toBe('');
+    });
+
+    it('never merges into a checkpoint or across modes', () => {
+      history.record(text('a'), true);
+      history.record(text('ab'));
+      history.record({ type: 'markdown', content: { type: 'markdown', markdown: '# ab' } });
+
+      expect(history.undo()?.content).toEqual({ type: 'text', text: 'ab' });
+      expect(textOf(history, 'undo')).toBe('a');
+    });
+
+    it('starts a new entry after an undo instead of rewriting the one returned to', () => {
+      history.record(text(''), true);
+      jest.advanceTimersByTime(1000);
+      history.record(text('a'));
+      history.undo();
+      history.record(text('b'));
+
+      expect(history.canRedo()).toBe(false);
+      expect(textOf(history, 'undo')).toBe('');
+    });
+
+    it('ignores snapshots that did not change', () => {
+      history.record(text('a'), true);
+      history.record(text('a'), true);
+
+      expect(history.canUndo()).toBe(false);
+    });
+
+    it('compares drawings by element versions only', () => {
+      history.record(drawing(1), true);
+      history.record(drawing(1, { scrollX: 40 }), true);
+      expect(history.canUndo()).toBe(false);
+
+      history.record(drawing(2), true);
+      expect(history.canUndo()).toBe(true);
+    });
+  });
+
+  describe('limit', () => {
+    it('drops the oldest entries beyond the limit', () => {
+      ['a', 'b', 'c', 'd', 'e'].forEach((value) => history.record(text(value), true));
+
+      expect(textOf(history, 'undo')).toBe('d');
+      expect(textOf(history, 'undo')).toBe('c');
+      expect(history.canUndo()).toBe(false);
+    });
+
+    it('discards the redo branch on a new edit', () => {
+      ['a', 'b', 'c'].forEach((value) => history.record(text(value), true));
+      history.undo();
+      history.undo();
+      history.record(text('x'), true);
+
+      expect(history.canRedo()).toBe(false);
+      expect(textOf(history, 'undo')).toBe('a');
+    });
+  });
+
+  it('forgets everything on clear', () => {
+    history.record(text('a'), true);
+    history.record(text('b'), true);
+    history.clear();
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { NotificationCenter } from '../../src/editor/NotificationCenter';
+import type { Translator } from '../../src/editor/types';
+
+const translator: Translator = {
+  locale: 'en',
+  t: (key, params) => (params ? `${key} ${JSON.stringify(params)}` : key),
+  register: () => undefined
+};
+
+describe('NotificationCenter', () => {
+  let host: HTMLElement;
+  let center: NotificationCenter;
+
+  function shown(): string[] {
+    return Array.from(host.querySelectorAll<HTMLElement>('.notification'))
+      .map((element) => element.dataset.message!);
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    host = document.createElement('div');
+    center = new NotificationCenter(host, translator, 2);
+  });
+
+  afterEach(() => {
+    center.destroy();
+    jest.useRealTimers();
+  });
+
+  it('announces itself as a polite live region', () => {
+    expect(host.getAttribute('role')).toBe('region');
+    expect(host.getAttribute('aria-live')).toBe('polite');
+    expect(host.getAttribute('aria-label')).toBe('notifications.label');
+  });
+
+  it('hides transient notifications after their duration and keeps errors', () => {
+    center.show({ type: 'success', message: 'Saved', duration: 2000 });
+    center.show({ type: 'error', message: 'Sync failed' });
+
+    jest.advanceTimersByTime(1999);
+    expect(shown()).toEqual(['Saved', 'Sync failed']);
+    jest.advanceTimersByTime(1);
+    expect(shown()).toEqual(['Sync failed']);
+
+    jest.advanceTimersByTime(60000);
+    expect(shown()).toEqual(['Sync failed']);
+    expect(host.querySelector('.notification-error')?.getAttribute('role')).toBe('alert');
+  });
+
+  describe('dedupe', () => {
+    it('replaces a notification with the same id and moves it to the newest slot', () => {
+      center.show({ id: 'save', type: 'info', message: 'Saving' });
+      center.show({ type: 'info', message: 'Other' });
+      center.show({ id: 'save', type: 'success', message: 'Saved' });
+
+      expect(shown()).toEqual(['Other', 'Saved']);
+    });
+
+    it('restarts the timer of a repeated transient message', () => {
+      center.show({ type: 'success', message: 'Saved', duration: 2000 });
+      jest.advanceTimersByTime(1500);
+      center.show({ type: 'success', message: 'Saved', duration: 2000 });
+      jest.advanceTimersByTime(1500);
+
+      expect(shown()).toEqual(['Saved']);
+      expect(host.querySelector('.notification-count')).toBeNull();
+    });
+
+    it('counts repeats of a persistent message', () => {
+      center.show({ type: 'error', message: 'Sync failed' });
+      center.show({ type: 'error', message: 'Sync failed' });
+      center.show({ type: 'error', message: 'Sync failed' });
+
+      const badge = host.querySelector('.notification-count');
+      expect(shown()).toEqual(['Sync failed']);
+      expect(badge?.textContent).toBe('×3');
+      expect(badge?.getAttribute('aria-label')).toBe('notifications.repeated {"count":3}');
+    });
+
+    it('starts counting again when a persistent id gets a new message', () => {
+      center.show({ id: 'error:save', type: 'error', message: 'Sync failed' });
+      center.show({ id: 'error:save', type: 'error', message: 'Sync failed' });
+      center.show({ id: 'error:save', type: 'error', message: 'Note is locked' });
+
+      expect(shown()).toEqual(['Note is locked']);
+      expect(host.querySelector('.notification-count')).toBeNull();
+    });
+  });
+
+  describe('slots', () => {
+    it('pushes out the oldest transient notification before any error', () => {
+      center.show({ type: 'error', message: 'Error' });
+      center.show({ type: 'info', message: 'First' });
+      center.show({ type: 'info', message: 'Second' });
+
+      expect(shown()).toEqual(['Error', 'Second']);
+    });
+
+    it('makes room for an error by pushing out a newer transient notification', () => {
+      center.show({ type: 'error', message: 'First error' });
+      center.show({ type: 'info', message: 'Info' });
+      center.show({ type: 'error', message: 'Second error' });
+
+      expect(shown()).toEqual(['First error', 'Second error']);
+    });
+  });
+
+  describe('queueing', () => {
+    it('queues notifications while every slot holds an error and shows them as slots free up', () => {
+      center.show({ id: 'one', type: 'error', message: 'One' });
+      center.show({ id: 'two', type: 'error', message: 'Two' });
+      center.show({ type: 'info', message: 'Queued' });
+      center.show({ type: 'error', message: 'Also queued' });
+
+      expect(shown()).toEqual(['One', 'Two']);
+
+      center.dismiss('one');
+      expect(shown()).toEqual(['Two', 'Queued']);
+
+      jest.advanceTimersByTime(3000);
+      expect(shown()).toEqual(['Two', 'Also queued']);
+    });
+
+    it('keeps one queued entry per id and drops it when dismissed', () => {
+      center.show({ id: 'one', type: 'error', message: 'One' });
+      center.show({ id: 'two', type: 'error', message: 'Two' });
+      center.show({ id: 'later', type: 'info', message: 'Older' });
+      center.show({ id: 'later', type: 'info', message: 'Newer' });
+      center.show({ id: 'gone', type: 'info', message: 'Gone' });
+      center.dismiss('gone');
+
+      center.dismiss('one');
+      center.dismiss('two');
+
+      expect(shown()).toEqual(['Newer']);
+    });
+
+    it('drops queued notifications on clear', () => {
+      center.show({ type: 'error', message: 'One' });
+      center.show({ type: 'error', message: 'Two' });
+      center.show({ type: 'info', message: 'Queued' });
+
+      center.clear();
+      center.show({ type: 'info', message: 'After' });
+
+      expect(shown()).toEqual(['After']);
+    });
+  });
+
+  it('dismisses a notification before running its action', () => {
+    const handler = jest.fn(() => expect(shown()).toEqual([]));
+    center.show({ type: 'error', message: 'Sync failed', action: { label: 'Retry', handler } });
+
+    host.querySelector<HTMLButtonElement>('.notification-action')!.click();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
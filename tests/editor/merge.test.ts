@@ -0,0 +1,162 @@
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types';
+import { mergeContent, mergeEditorData, mergeElements } from '../../src/editor/merge';
+import { CONFLICT_MARKERS } from '../../src/utils/merge';
+import type { ContentData, DocumentBlock, EditorData } from '../../src/editor/types';
+
+function element(id: string, version: number, x: number = 0): ExcalidrawElement {
+  return { id, type: 'rectangle', version, x, y: 0 } as unknown as ExcalidrawElement;
+}
+
+function textBlock(id: string, text: string): DocumentBlock {
+  return { id, content: { type: 'text', text } };
+}
+
+function documentContent(...blocks: DocumentBlock[]): ContentData {
+  return { type: 'document', blocks };
+}
+
+function createData(contents: Partial<Record<string, ContentData>>, modified: number = 1): EditorData {
+  const entries = Object.fromEntries(
+    Object.entries(contents).map(([mode, content]) => [mode, { content, created: 1, modified }])
+  );
+  return {
+    mode: 'text',
+    contents: entries,
+    metadata: { version: '1.1.0', lastMode: 'text', created: 1, modified }
+  };
+}
+
+describe('mergeElements', () => {
+  it('keeps the higher version of an element edited on both sides', () => {
+    const merged = mergeElements([element('a', 1)], [element('a', 3, 10)], [element('a', 2, 20)]);
+
+    expect(merged).toEqual([element('a', 3, 10)]);
+  });
+
+  it('keeps elements added on either side', () => {
+    const merged = mergeElements([element('a', 1)], [element('a', 1), element('l', 1)], [element('a', 1), element('r', 1)]);
+
+    expect(merged.map((item) => item.id)).toEqual(['a', 'r', 'l']);
+  });
+
+  it('drops an element deleted on one side and left alone on the other', () => {
+    const merged = mergeElements([element('a', 1), element('b', 1)], [element('a', 1), element('b', 1)], [element('a', 1)]);
+
+    expect(merged.map((item) => item.id)).toEqual(['a']);
+  });
+
+  it('keeps an element deleted on one side but edited on the other', () => {
+    const merged = mergeElements([element('a', 1), element('b', 1)], [element('a', 1)], [element('a', 1), element('b', 2, 5)]);
+
+    expect(merged).toEqual([element('a', 1), element('b', 2, 5)]);
+  });
+
+  it('returns copies rather than the input elements', () => {
+    const local = [element('a', 2)];
+    const [merged] = mergeElements([], local, []);
+
+    expect(merged).toEqual(local[0]);
+    expect(merged).not.toBe(local[0]);
+  });
+});
+
+describe('mergeContent', () => {
+  it('merges text changed on both sides', () => {
+    const result = mergeContent(
+      { type: 'text', text: 'one\ntwo\nthree' },
+      { type: 'text', text: 'ONE\ntwo\nthree' },
+      { type: 'text', text: 'one\ntwo\nTHREE' }
+    );
+
+    expect(result).toEqual({ content: { type: 'text', text: 'ONE\ntwo\nTHREE' }, conflicts: 0 });
+  });
+
+  it('merges the elements of a drawing and keeps the local app state', () => {
+    const result = mergeContent(
+      { type: 'excalidraw', elements: [element('a', 1)], appState: { zoom: 1 } },
+      { type: 'excalidraw', elements: [element('a', 2)], appState: { zoom: 2 } },
+      { type: 'excalidraw', elements: [element('a', 1), element('b', 1)], appState: { zoom: 3 } }
+    );
+
+    expect(result).toEqual({
+      content: { type: 'excalidraw', elements: [element('a', 2), element('b', 1)], appState: { zoom: 2 } },
+      conflicts: 0
+    });
+  });
+
+  it('keeps the local side of content whose type changed on both sides', () => {
+    const local: ContentData = { type: 'text', text: 'local' };
+    const result = mergeContent({ type: 'markdown', markdown: '' }, local, { type: 'mermaid', code: 'graph TD' });
+
+    expect(result).toEqual({ content: local, conflicts: 1 });
+  });
+
+  describe('documents', () => {
+    const base = documentContent(textBlock('a', 'one\ntwo\nthree'), textBlock('b', 'keep'), textBlock('c', 'old'));
+
+    it('merges blocks edited on both sides and keeps blocks added on either', () => {
+      const local = documentContent(textBlock('a', 'ONE\ntwo\nthree'), textBlock('b', 'keep'), textBlock('c', 'old'), textBlock('l', 'mine'));
+      const remote = documentContent(textBlock('a', 'one\ntwo\nTHREE'), textBlock('b', 'keep'), textBlock('c', 'old'), textBlock('r', 'theirs'));
+
+      expect(mergeContent(base, local, remote)).toEqual({
+        content: documentContent(
+          textBlock('a', 'ONE\ntwo\nTHREE'),
+          textBlock('b', 'keep'),
+          textBlock('c', 'old'),
+          textBlock('r', 'theirs'),
+          textBlock('l', 'mine')
+        ),
+        conflicts: 0
+      });
+    });
+
+    it('drops blocks removed on one side unless the other side edited them', () => {
+      const local = documentContent(textBlock('a', 'one\ntwo\nthree'), textBlock('c', 'old'));
+      const remote = documentContent(textBlock('a', 'one\ntwo\nthree\nfour'), textBlock('b', 'keep'), textBlock('c', 'edited'));
+
+      expect(mergeContent(base, local, remote)).toEqual({
+        content: documentContent(textBlock('a', 'one\ntwo\nthree\nfour'), textBlock('c', 'edited')),
+        conflicts: 0
+      });
+    });
+
+    it('counts conflicts inside blocks', () => {
+      const local = documentContent(textBlock('a', 'mine\ntwo\nthree'), textBlock('b', 'keep'), textBlock('c', 'old'));
+      const remote = documentContent(textBlock('a', 'theirs\ntwo\nthree'), textBlock('b', 'keep'), textBlock('c', 'old'));
+
+      const result = mergeContent(base, local, remote);
+
+      expect(result.conflicts).toBe(1);
+      expect((result.content as any).blocks[0].content.text).toBe(
+        [CONFLICT_MARKERS.start, 'mine', CONFLICT_MARKERS.separator, 'theirs', CONFLICT_MARKERS.end, 'two', 'three'].join('\n')
+      );
+    });
+  });
+});
+
+describe('mergeEditorData', () => {
+  it('merges every mode and keeps modes added on either side', () => {
+    const base = createData({ text: { type: 'text', text: 'a\nb\nc' } });
+    const local = createData({ text: { type: 'text', text: 'A\nb\nc' }, markdown: { type: 'markdown', markdown: '# Local' } }, 5);
+    const remote = createData({ text: { type: 'text', text: 'a\nb\nC' }, mermaid: { type: 'mermaid', code: 'graph TD' } }, 7);
+
+    const { data, conflicts } = mergeEditorData(base, local, remote);
+
+    expect(conflicts).toBe(0);
+    expect(data.contents.text?.content).toEqual({ type: 'text', text: 'A\nb\nC' });
+    expect(data.contents.markdown?.content).toEqual({ type: 'markdown', markdown: '# Local' });
+    expect(data.contents.mermaid?.content).toEqual({ type: 'mermaid', code: 'graph TD' });
+    expect(data.metadata.modified).toBe(7);
+  });
+
+  it('drops a mode removed on one side and unchanged on the other', () => {
+    const base = createData({ text: { type: 'text', text: 'a' }, markdown: { type: 'markdown', markdown: 'm' } });
+    const local = createData({ text: { type: 'text', text: 'a' } });
+    const remote = createData({ text: { type: 'text', text: 'b' }, markdown: { type: 'markdown', markdown: 'm' } });
+
+    const { data } = mergeEditorData(base, local, remote);
+
+    expect(Object.keys(data.contents)).toEqual(['text']);
+    expect(data.contents.text?.content).toEqual({ type: 'text', text: 'b' });
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  CURRENT_DATA_VERSION,
+  MIGRATIONS,
+  getDataVersion,
+  loadEditorData,
+  migrateEditorData
+} from '../../src/editor/migrations';
+import { validateEditorData } from '../../src/editor/schema';
+import type { EditorData, NoteLoadResult, QuarantineInfo } from '../../src/editor/types';
+
+function createData(overrides: Partial<EditorData> = {}): EditorData {
+  return {
+    mode: 'text',
+    contents: {
+      text: { content: { type: 'text', text: 'Hello' }, created: 1, modified: 2 }
+    },
+    metadata: { version: CURRENT_DATA_VERSION, lastMode: 'text', created: 1, modified: 2 },
+    ...overrides
+  };
+}
+
+function expectOk(result: NoteLoadResult): EditorData {
+  if (result.status !== 'ok') {
+    throw new Error(`Expected the payload to load, got: ${result.quarantine.reason}`);
+  }
+  return result.data;
+}
+
+function expectQuarantined(result: NoteLoadResult): QuarantineInfo {
+  if (result.status !== 'quarantined') {
+    throw new Error('Expected the payload to be quarantined');
+  }
+  return result.quarantine;
+}
+
+describe('migrations', () => {
+  describe('MIGRATIONS', () => {
+    it('chains every step up to the current version', () => {
+      MIGRATIONS.forEach((migration, index) => {
+        if (index > 0) {
+          expect(migration.from).toBe(MIGRATIONS[index - 1].to);
+        }
+      });
+      expect(MIGRATIONS[MIGRATIONS.length - 1].to).toBe(CURRENT_DATA_VERSION);
+    });
+  });
+
+  describe('getDataVersion', () => {
+    it('reads the stored version', () => {
+      expect(getDataVersion(createData({ metadata: { ...createData().metadata, version: '1.0.0' } }))).toBe('1.0.0');
+    });
+
+    it('dates an unversioned single-content payload as 1.0.0', () => {
+      expect(getDataVersion({ mode: 'text', content: { type: 'text', text: '' } })).toBe('1.0.0');
+    });
+
+    it('dates an unversioned per-mode payload as 1.1.0', () => {
+      const { version, ...metadata } = createData().metadata;
+      expect(getDataVersion({ ...createData(), metadata })).toBe('1.1.0');
+    });
+  });
+
+  describe('1.0.0 to 1.1.0', () => {
+    it('moves the single content slot into per-mode contents', () => {
+      const data = expectOk(loadEditorData({
+        mode: 'mermaid',
+        content: { type: 'mermaid', code: 'graph TD\n  A --> B' },
+        metadata: { version: '1.0.0', lastMode: 'text', created: 10, modified: 20 }
+      }));
+
+      expect(data.mode).toBe('mermaid');
+      expect(data.contents).toEqual({
+        mermaid: { content: { type: 'mermaid', code: 'graph TD\n  A --> B' }, created: 10, modified: 20 }
+      });
+      expect(data.metadata).toEqual({ version: '1.1.0', lastMode: 'text', created: 10, modified: 20 });
+    });
+
+    it('migrates a payload written before metadata existed', () => {
+      const data = expectOk(loadEditorData({ content: { type: 'markdown', markdown: '# Title' } }));
+
+      expect(data.mode).toBe('markdown');
+      expect(data.contents.markdown?.content).toEqual({ type: 'markdown', markdown: '# Title' });
+      expect(data.metadata.version).toBe('1.1.0');
+      expect(data.metadata.lastMode).toBe('markdown');
+    });
+
+    it('fails for a 1.0.0 payload that has no single content slot', () => {
+      expect(() => migrateEditorData({ ...createData(), metadata: { ...createData().metadata, version: '1.0.0' } }))
+        .toThrow('Expected a single-content payload');
+    });
+  });
+
+  describe('loadEditorData', () => {
+    it('loads current data unchanged', () => {
+      const data = createData();
+      expect(expectOk(loadEditorData(data))).toEqual(data);
+    });
+
+    it('parses payloads stored as JSON', () => {
+      const data = createData();
+      expect(expectOk(loadEditorData(JSON.stringify(data)))).toEqual(data);
+    });
+
+    it('loads current-shape data without a version instead of migrating it', () => {
+      const { version, ...metadata } = createData().metadata;
+      const data = expectOk(loadEditorData({ ...createData(), metadata }));
+
+      expect(data.contents.text?.content).toEqual({ type: 'text', text: 'Hello' });
+      expect(data.metadata.version).toBe('1.1.0');
+    });
+
+    it('quarantines text that is not JSON', () => {
+      const quarantine = expectQuarantined(loadEditorData('{ not json'));
+
+      expect(quarantine.reason).toBe('Note content is not valid JSON');
+      expect(quarantine.raw).toBe('{ not json');
+    });
+
+    it('quarantines data saved by a newer editor', () => {
+      const raw = createData({ metadata: { ...createData().metadata, version: '9.0.0' } });
+      const quarantine = expectQuarantined(loadEditorData(raw));
+
+      expect(quarantine.reason).toBe('Note was saved by a newer editor version (9.0.0)');
+      expect(quarantine.raw).toBe(raw);
+    });
+
+    it('quarantines data whose migration fails', () => {
+      const raw = { ...createData(), metadata: { ...createData().metadata, version: '1.0.0' } };
+      const quarantine = expectQuarantined(loadEditorData(raw));
+
+      expect(quarantine.reason).toBe('Migration from version 1.0.0 failed: Expected a single-content payload');
+    });
+
+    it('quarantines data that does not match the schema, listing why', () => {
+      const quarantine = expectQuarantined(loadEditorData(createData({ mode: 'slides' as any })));
+
+      expect(quarantine.reason).toBe('Note content does not match the expected format');
+      expect(quarantine.errors).toEqual([
+        { message: 'mode: unknown editor mode "slides"', severity: 'error' }
+      ]);
+    });
+  });
+
+  describe('validateEditorData', () => {
+    it('accepts current data', () => {
+      expect(validateEditorData(createData())).toEqual({ valid: true });
+    });
+
+    it('rejects anything but an object', () => {
+      expect(validateEditorData([])).toEqual({
+        valid: false,
+        errors: [{ message: 'Payload is not an object', severity: 'error' }]
+      });
+    });
+
+    it('reports each invalid metadata field', () => {
+      const result = validateEditorData(createData({ metadata: { lastMode: 'text' } as any }));
+      const messages = result.errors?.map((error) => error.message);
+
+      expect(result.valid).toBe(false);
+      expect(messages).toEqual([
+        'metadata.version: expected a string',
+        'metadata.created: expected a number',
+        'metadata.modified: expected a number'
+      ]);
+    });
+
+    it('reports content stored under the wrong mode', () => {
+      const result = validateEditorData(createData({
+        contents: {
+          text: { content: { type: 'markdown', markdown: '' }, created: 1, modified: 1 }
+        } as any
+      }));
+
+      expect(result.errors?.map((error) => error.message)).toEqual([
+        'contents.text.content.type: expected "text", got "markdown"'
+      ]);
+    });
+
+    it('reports invalid fields and blocks inside a document', () => {
+      const result = validateEditorData(createData({
+        mode: 'document',
+        contents: {
+          document: {
+            content: {
+              type: 'document',
+              blocks: [
+                { id: 'a', content: { type: 'mermaid', code: 42 } },
+                { id: 'b', content: { type: 'document', blocks: [] } }
+              ]
+            },
+            created: 1,
+            modified: 1
+          }
+        } as any
+      }));
+
+      expect(result.errors?.map((error) => error.message)).toEqual([
+        'contents.document.content.blocks[0].content.code: expected a string',
+        'contents.document.content.blocks[1].content: expected content of a block mode (text, markdown, mermaid, excalidraw)'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { PAYLOAD_FORMAT, readNoteContent, writeNoteContent } from '../../src/editor/notePayload';
+import type { NoteContent, NotePreview } from '../../src/editor/notePayload';
+import type { EditorData, NoteLoadResult } from '../../src/editor/types';
+
+const PREVIEW: NotePreview = { plain: 'graph TD', html: null };
+
+/** Keys Standard Notes and other extensions keep in the note content */
+const FOREIGN_KEYS = {
+  title: 'Plans',
+  appData: { 'org.standardnotes.sn': { pinned: true, client_updated_at: '2024-01-01' } },
+  references: [{ uuid: 'tag-1', content_type: 'Tag' }],
+  preview_html: '<b>old</b>'
+};
+
+function createData(code: string = 'graph TD\n  A --> B'): EditorData {
+  return {
+    mode: 'mermaid',
+    contents: {
+      mermaid: { content: { type: 'mermaid', code }, created: 1, modified: 2 }
+    },
+    metadata: { version: '1.1.0', lastMode: 'text', created: 1, modified: 2 }
+  };
+}
+
+function expectData(result: NoteLoadResult | null): EditorData {
+  if (result?.status !== 'ok') {
+    throw new Error(`Expected the note to load, got: ${JSON.stringify(result)}`);
+  }
+  return result.data;
+}
+
+describe('notePayload', () => {
+  describe('round trip', () => {
+    it('reads back what it wrote', () => {
+      const data = createData();
+      const written = writeNoteContent({ text: '' }, data, PREVIEW);
+
+      expect(expectData(readNoteContent(written))).toEqual(data);
+    });
+
+    it('keeps the title, appData and references of the note', () => {
+      const content: NoteContent = { text: 'plain', ...FOREIGN_KEYS };
+
+      const first = writeNoteContent(content, createData(), PREVIEW);
+      const second = writeNoteContent(first, createData('graph LR'), PREVIEW);
+
+      expect(second.title).toBe(FOREIGN_KEYS.title);
+      expect(second.appData).toEqual(FOREIGN_KEYS.appData);
+      expect(second.references).toEqual(FOREIGN_KEYS.references);
+      expect(expectData(readNoteContent(second)).contents.mermaid?.content).toEqual({ type: 'mermaid', code: 'graph LR' });
+    });
+
+    it('writes the data in an envelope with the preview', () => {
+      const written = writeNoteContent({ ...FOREIGN_KEYS }, createData(), PREVIEW);
+
+      expect(JSON.parse(written.text!)).toEqual({ format: PAYLOAD_FORMAT, data: createData() });
+      expect(written.preview_plain).toBe('graph TD');
+      expect(written.preview_html).toBeNull();
+    });
+  });
+
+  describe('readNoteContent', () => {
+    it('returns null for an empty note', () => {
+      expect(readNoteContent({ text: '' })).toBeNull();
+      expect(readNoteContent({})).toBeNull();
+    });
+
+    it('opens text from other editors in text mode, even if it looks like JSON', () => {
+      expect(expectData(readNoteContent({ text: 'Hello' })).contents.text?.content).toEqual({ type: 'text', text: 'Hello' });
+      expect(expectData(readNoteContent({ text: '{"a": 1}' })).contents.text?.content).toEqual({ type: 'text', text: '{"a": 1}' });
+      expect(expectData(readNoteContent({ text: '{ not json' })).mode).toBe('text');
+    });
+
+    it('quarantines an envelope it cannot read', () => {
+      const text = JSON.stringify({ format: PAYLOAD_FORMAT, data: { ...createData(), mode: 'slides' } });
+
+      expect(readNoteContent({ text })?.status).toBe('quarantined');
+    });
+  });
+
+  describe('in-place payloads', () => {
+    it('reads per-mode contents an earlier version wrote over the note', () => {
+      const data = createData();
+      const content: NoteContent = { text: '', ...FOREIGN_KEYS, ...data };
+
+      expect(expectData(readNoteContent(content))).toEqual(data);
+    });
+
+    it('reads and migrates a single content slot', () => {
+      const content: NoteContent = {
+        mode: 'markdown',
+        content: { type: 'markdown', markdown: '# Title' },
+        metadata: { version: '1.0.0', lastMode: 'markdown', created: 1, modified: 2 }
+      };
+
+      expect(expectData(readNoteContent(content)).contents.markdown?.content).toEqual({ type: 'markdown', markdown: '# Title' });
+    });
+
+    it('replaces the in-place keys with an envelope and keeps the rest', () => {
+      const content: NoteContent = { text: '', ...FOREIGN_KEYS, ...createData() };
+
+      const written = writeNoteContent(content, createData('graph LR'), PREVIEW);
+
+      expect(Object.keys(written).sort()).toEqual(['appData', 'preview_html', 'preview_plain', 'references', 'text', 'title']);
+      expect(expectData(readNoteContent(written)).contents.mermaid?.content).toEqual({ type: 'mermaid', code: 'graph LR' });
+    });
+
+    describe('leaves keys other extensions use by the same names alone', () => {
+      const cases: Array<[string, NoteContent]> = [
+        ['an unregistered mode', { mode: 'dark', contents: {}, metadata: {} }],
+        ['no mode', { contents: { text: { content: { type: 'text', text: 'a' } } } }],
+        ['contents that are not per-mode entries', { mode: 'text', contents: ['a', 'b'] }],
+        ['contents under an unknown mode', { mode: 'text', contents: { slides: { content: { type: 'slides' } } } }],
+        ['contents of the wrong type', { mode: 'text', contents: { text: { content: { type: 'markdown', markdown: '' } } } }],
+        ['an invalid content slot', { mode: 'mermaid', content: { type: 'mermaid', code: 42 } }],
+        ['a content slot that is not content', { mode: 'text', content: 'plain', metadata: {} }]
+      ];
+
+      it.each(cases)('with %s', (_, foreign) => {
+        const content: NoteContent = { text: 'Hello', ...foreign };
+
+        expect(expectData(readNoteContent(content)).contents.text?.content).toEqual({ type: 'text', text: 'Hello' });
+
+        const written = writeNoteContent(content, createData(), PREVIEW);
+        Object.entries(foreign).forEach(([key, value]) => {
+          expect(written[key]).toEqual(value);
+        });
+      });
+    });
+  });
+});
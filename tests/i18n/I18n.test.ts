@@ -0,0 +1,145 @@
+import { FALLBACK_LOCALE, I18n, detectLocale } from '../../src/i18n/I18n';
+
+describe('I18n', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('t', () => {
+    it('looks in the exact locale, then its language, then English', () => {
+      const i18n = new I18n('de-AT');
+      i18n.register('de-AT', { 'test.exact': 'Servus' });
+      i18n.register('de', { 'test.exact': 'Hallo', 'test.language': 'Sprache' });
+      i18n.register('en', { 'test.english': 'English only' });
+
+      expect(i18n.t('test.exact')).toBe('Servus');
+      expect(i18n.t('test.language')).toBe('Sprache');
+      expect(i18n.t('test.english')).toBe('English only');
+    });
+
+    it('returns the id of a missing message and warns about it', () => {
+      const i18n = new I18n();
+
+      expect(i18n.t('test.missing')).toBe('test.missing');
+      expect(console.warn).toHaveBeenCalledWith('Missing message: test.missing');
+    });
+
+    it('lets later registrations override earlier ones', () => {
+      const i18n = new I18n();
+      i18n.register('en', { 'test.a': 'first', 'test.b': 'kept' });
+      i18n.register('EN', { 'test.a': 'second' });
+
+      expect(i18n.t('test.a')).toBe('second');
+      expect(i18n.t('test.b')).toBe('kept');
+    });
+
+    it('fills {param} placeholders and leaves unknown ones in place', () => {
+      const i18n = new I18n();
+      i18n.register('en', { 'test.params': '{name} edited {mode} ({missing})' });
+
+      expect(i18n.t('test.params', { name: 'Ada', mode: 'text' })).toBe('Ada edited text ({missing})');
+    });
+
+    it('formats numbers for the locale', () => {
+      const i18n = new I18n('de');
+      i18n.register('de', { 'test.number': '{value} Zeichen' });
+
+      expect(i18n.t('test.number', { value: 12345 })).toBe('12.345 Zeichen');
+    });
+  });
+
+  describe('plurals', () => {
+    const files = {
+      one: '{count} file',
+      few: '{count} files (few)',
+      many: '{count} files (many)',
+      other: '{count} files'
+    };
+
+    it('picks the English category from count', () => {
+      const i18n = new I18n();
+      i18n.register('en', { 'test.files': files });
+
+      expect(i18n.t('test.files', { count: 1 })).toBe('1 file');
+      expect(i18n.t('test.files', { count: 0 })).toBe('0 files');
+      expect(i18n.t('test.files', { count: 2 })).toBe('2 files');
+    });
+
+    it('uses the categories of the current locale', () => {
+      const i18n = new I18n('pl');
+      i18n.register('pl', { 'test.files': files });
+
+      expect(i18n.t('test.files', { count: 1 })).toBe('1 file');
+      expect(i18n.t('test.files', { count: 3 })).toBe('3 files (few)');
+      expect(i18n.t('test.files', { count: 5 })).toBe('5 files (many)');
+    });
+
+    it('follows a locale change', () => {
+      const i18n = new I18n();
+      i18n.register('pl', { 'test.files': files });
+      i18n.setLocale('pl');
+
+      expect(i18n.locale).toBe('pl');
+      expect(i18n.t('test.files', { count: 3 })).toBe('3 files (few)');
+    });
+
+    it('falls back to the other form for a category the message lacks', () => {
+      const i18n = new I18n('pl');
+      i18n.register('pl', { 'test.files': { one: '{count} plik', other: '{count} pliki' } });
+
+      expect(i18n.t('test.files', { count: 5 })).toBe('5 pliki');
+    });
+
+    it('treats a missing count as zero', () => {
+      const i18n = new I18n();
+      i18n.register('en', { 'test.files': files });
+
+      expect(i18n.t('test.files')).toBe('{count} files');
+    });
+  });
+});
+
+describe('detectLocale', () => {
+  function mockBrowser(languages: string[], language: string = languages[0]): void {
+    jest.spyOn(navigator, 'languages', 'get').mockReturnValue(languages);
+    jest.spyOn(navigator, 'language', 'get').mockReturnValue(language);
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prefers the first supported preferred locale', () => {
+    mockBrowser(['es-ES']);
+
+    expect(detectLocale(undefined, 'fr', 'de-CH', 'en')).toBe('de-CH');
+  });
+
+  it('canonicalizes host locales written with underscores', () => {
+    mockBrowser([]);
+
+    expect(detectLocale('es_mx')).toBe('es-MX');
+  });
+
+  it('skips invalid locales', () => {
+    mockBrowser([]);
+
+    expect(detectLocale('not a locale', 'de')).toBe('de');
+  });
+
+  it('falls back to the browser languages', () => {
+    mockBrowser(['fr-FR', 'es'], 'fr-FR');
+
+    expect(detectLocale(undefined, 'ja')).toBe('es');
+  });
+
+  it('falls back to English when nothing is supported', () => {
+    mockBrowser(['fr-FR', 'ja']);
+
+    expect(detectLocale('it')).toBe(FALLBACK_LOCALE);
+  });
+});
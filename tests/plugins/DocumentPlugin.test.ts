@@ -0,0 +1,150 @@
+import { DocumentPlugin } from '../../src/plugins/document/DocumentPlugin';
+import type { PluginLoadContext } from '../../src/editor/PluginRegistry';
+import type { BasePlugin, BlockMode, DocumentBlock, PluginData } from '../../src/editor/types';
+
+/**
+ * A block plugin that records what the document does with it
+ */
+class FakeBlockPlugin implements BasePlugin {
+  public readonly id: string;
+  public readonly name = 'Fake';
+  public readonly version = '1.0.0';
+  public data: PluginData | null = null;
+  public setDataCalls = 0;
+  public destroyed = false;
+  public body: HTMLElement | null = null;
+
+  constructor(mode: BlockMode) {
+    this.id = mode;
+  }
+
+  public async initialize(): Promise<void> {}
+
+  public destroy(): void {
+    this.destroyed = true;
+  }
+
+  public render(container: HTMLElement): void {
+    this.body = container;
+    container.innerHTML = '<textarea></textarea>';
+  }
+
+  public getData(): PluginData {
+    return this.data!;
+  }
+
+  public setData(data: PluginData): void {
+    this.data = data;
+    this.setDataCalls++;
+  }
+}
+
+function textBlock(id: string, text: string): DocumentBlock {
+  return { id, content: { type: 'text', text } };
+}
+
+function documentData(blocks: DocumentBlock[]): PluginData {
+  return { type: 'document', content: { type: 'document', blocks } };
+}
+
+/**
+ * Let block plugins finish mounting
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('DocumentPlugin', () => {
+  let created: FakeBlockPlugin[];
+  let plugin: DocumentPlugin;
+  let container: HTMLElement;
+
+  /**
+   * Plugins rendered into a block, oldest first
+   */
+  function pluginsFor(blockId: string): FakeBlockPlugin[] {
+    return created.filter((instance) => {
+      const element = instance.body?.closest<HTMLElement>('.document-block');
+      return element?.dataset.blockId === blockId;
+    });
+  }
+
+  function renderedIds(): string[] {
+    return Array.from(container.querySelectorAll<HTMLElement>('.document-block'))
+      .map((element) => element.dataset.blockId!);
+  }
+
+  beforeEach(async () => {
+    created = [];
+    const context: PluginLoadContext = {
+      createPlugin: async (mode) => {
+        const instance = new FakeBlockPlugin(mode);
+        created.push(instance);
+        return instance;
+      },
+      getBlockModes: () => ['text', 'mermaid'],
+      createDefaultContent: (mode) => ({ type: mode }) as any
+    };
+
+    plugin = new DocumentPlugin(context);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+
+    plugin.setData(documentData([textBlock('a', 'one'), textBlock('b', 'two')]));
+    plugin.render(container);
+    await flush();
+  });
+
+  afterEach(() => {
+    plugin.destroy();
+    container.remove();
+  });
+
+  it('mounts a plugin for each block', () => {
+    expect(renderedIds()).toEqual(['a', 'b']);
+    expect(pluginsFor('a')[0].data?.content).toEqual({ type: 'text', text: 'one' });
+    expect(pluginsFor('b')[0].data?.content).toEqual({ type: 'text', text: 'two' });
+  });
+
+  it('gives changed blocks their new content without remounting them', async () => {
+    const [a] = pluginsFor('a');
+    const [b] = pluginsFor('b');
+    const textarea = container.querySelector<HTMLTextAreaElement>('[data-block-id="a"] textarea')!;
+    textarea.focus();
+
+    plugin.setData(documentData([textBlock('a', 'one'), textBlock('b', 'changed')]));
+    await flush();
+
+    expect(pluginsFor('a')).toEqual([a]);
+    expect(pluginsFor('b')).toEqual([b]);
+    expect(a.setDataCalls).toBe(1);
+    expect(b.data?.content).toEqual({ type: 'text', text: 'changed' });
+    expect(a.destroyed || b.destroyed).toBe(false);
+    expect(document.activeElement).toBe(textarea);
+  });
+
+  it('mounts added blocks and unmounts removed ones only', async () => {
+    const [a] = pluginsFor('a');
+    const [b] = pluginsFor('b');
+
+    plugin.setData(documentData([textBlock('c', 'three'), textBlock('a', 'one')]));
+    await flush();
+
+    expect(renderedIds()).toEqual(['c', 'a']);
+    expect(pluginsFor('a')).toEqual([a]);
+    expect(a.destroyed).toBe(false);
+    expect(b.destroyed).toBe(true);
+    expect(pluginsFor('c')[0].data?.content).toEqual({ type: 'text', text: 'three' });
+  });
+
+  it('remounts a block whose mode changed', async () => {
+    const [a] = pluginsFor('a');
+
+    plugin.setData(documentData([{ id: 'a', content: { type: 'mermaid', code: 'graph TD' } }, textBlock('b', 'two')]));
+    await flush();
+
+    expect(a.destroyed).toBe(true);
+    expect(pluginsFor('a')[1].data?.content).toEqual({ type: 'mermaid', code: 'graph TD' });
+    expect(container.querySelector('[data-block-id="a"]')?.classList.contains('document-block-mermaid')).toBe(true);
+  });
+});
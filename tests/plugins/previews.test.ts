@@ -0,0 +1,141 @@
+import {
+  previewDocument,
+  previewExcalidraw,
+  previewMarkdown,
+  previewMermaid,
+  previewText
+} from '../../src/plugins/previews';
+import { MERMAID_MESSAGES } from '../../src/plugins/mermaid/messages';
+import { I18n, registerBundles } from '../../src/i18n/I18n';
+import type { PreviewContext } from '../../src/editor/PluginRegistry';
+import type { ContentData, ExcalidrawContent } from '../../src/editor/types';
+
+function createContext(): PreviewContext {
+  const translator = new I18n();
+  registerBundles(translator, MERMAID_MESSAGES);
+
+  const context: PreviewContext = {
+    translator,
+    preview: (content: ContentData) => {
+      switch (content.type) {
+        case 'text': return previewText(content);
+        case 'markdown': return previewMarkdown(content);
+        case 'mermaid': return previewMermaid(content, context);
+        case 'excalidraw': return previewExcalidraw(content);
+        case 'document': return previewDocument(content, context);
+      }
+    }
+  };
+  return context;
+}
+
+function textElement(text: string, x: number, y: number, extra: Record<string, unknown> = {}) {
+  return { id: text, type: 'text', text, x, y, ...extra };
+}
+
+function drawing(...elements: Array<Record<string, unknown>>): ExcalidrawContent {
+  return { type: 'excalidraw', elements: elements as unknown as ExcalidrawContent['elements'], appState: {} };
+}
+
+describe('previews', () => {
+  describe('previewText', () => {
+    it('is the text itself', () => {
+      expect(previewText({ type: 'text', text: 'Hello\nworld' })).toBe('Hello\nworld');
+    });
+  });
+
+  describe('previewMarkdown', () => {
+    function preview(markdown: string): string {
+      return previewMarkdown({ type: 'markdown', markdown });
+    }
+
+    it('drops headings, quotes and list markers', () => {
+      expect(preview('# Title\n> Quote\n- item\n* [x] done\n1. first')).toBe('Title\nQuote\nitem\ndone\nfirst');
+    });
+
+    it('keeps the text of links and images', () => {
+      expect(preview('See [the docs](https://example.com) and ![a chart](chart.png)')).toBe('See the docs and a chart');
+    });
+
+    it('drops emphasis, code spans and inline HTML', () => {
+      expect(preview('**bold** _em_ ~~gone~~ `code` <kbd>Ctrl</kbd>')).toBe('bold em gone code Ctrl');
+    });
+
+    it('keeps underscores inside words', () => {
+      expect(preview('snake_case_name')).toBe('snake_case_name');
+    });
+
+    it('drops code fences and rules but keeps fenced code', () => {
+      expect(preview('```js\nconst a = 1;\n```\n---').trim()).toBe('const a = 1;');
+    });
+  });
+
+  describe('previewMermaid', () => {
+    const context = createContext();
+
+    function preview(code: string): string {
+      return previewMermaid({ type: 'mermaid', code }, context);
+    }
+
+    it('is empty for an empty diagram', () => {
+      expect(preview('  \n')).toBe('');
+    });
+
+    it('describes a diagram by its type and labels', () => {
+      expect(preview('graph TD\n  A[Start] --> B[Process]\n  B --> C[End]')).toBe('Flowchart with 3 nodes: Start, Process, End');
+    });
+
+    it('puts the title the author gave first', () => {
+      expect(preview('pie title Pets\n  "Dogs" : 3\n  "Cats" : 2')).toBe('Pie chart: Pets — Pie chart with 2 slices: Dogs, Cats');
+    });
+
+    it('prefers the author\'s accessible title and description', () => {
+      expect(preview('graph TD\n  accTitle: Login\n  accDescr: How a user signs in\n  A --> B')).toBe('Login — How a user signs in');
+    });
+  });
+
+  describe('previewExcalidraw', () => {
+    it('reads text top to bottom, then left to right within a row', () => {
+      const content = drawing(
+        textElement('Bottom', 0, 200),
+        textElement('Right', 300, 4),
+        textElement('Left', 0, 0)
+      );
+
+      expect(previewExcalidraw(content)).toBe('Left · Right · Bottom');
+    });
+
+    it('skips deleted, empty and non-text elements', () => {
+      const content = drawing(
+        textElement('Kept', 0, 0),
+        textElement('Deleted', 0, 50, { isDeleted: true }),
+        textElement('  ', 0, 100),
+        { id: 'box', type: 'rectangle', x: 0, y: 150 }
+      );
+
+      expect(previewExcalidraw(content)).toBe('Kept');
+    });
+
+    it('uses the unwrapped text and collapses whitespace', () => {
+      const content = drawing(textElement('Wrapped\ntext', 0, 0, { originalText: 'Wrapped   text  here' }));
+
+      expect(previewExcalidraw(content)).toBe('Wrapped text here');
+    });
+  });
+
+  describe('previewDocument', () => {
+    it('joins the previews of its blocks and skips empty ones', () => {
+      const context = createContext();
+      const preview = previewDocument({
+        type: 'document',
+        blocks: [
+          { id: 'a', content: { type: 'markdown', markdown: '# Plan' } },
+          { id: 'b', content: { type: 'mermaid', code: '' } },
+          { id: 'c', content: { type: 'text', text: 'Notes' } }
+        ]
+      }, context);
+
+      expect(preview).toBe('Plan\n\nNotes');
+    });
+  });
+});
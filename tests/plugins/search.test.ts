@@ -0,0 +1,132 @@
+import { createSearchPattern, expandReplacement, findMatches, replaceAll } from '../../src/plugins/text/search';
+import type { SearchOptions } from '../../src/plugins/text/search';
+
+const PLAIN: SearchOptions = { regex: false, matchCase: false, wholeWord: false };
+const REGEX: SearchOptions = { ...PLAIN, regex: true };
+
+function find(text: string, query: string, options: SearchOptions): string[] {
+  return findMatches(text, createSearchPattern(query, options))
+    .map((match) => `${match.start}-${match.end}`);
+}
+
+describe('search', () => {
+  describe('plain queries', () => {
+    it('match literally, including regex syntax', () => {
+      expect(find('a.b axb a.b', 'a.b', PLAIN)).toEqual(['0-3', '8-11']);
+      expect(find('cost: $5 (approx) [x]', '$5 (approx) [x]', PLAIN)).toEqual(['6-21']);
+    });
+
+    it('ignore case unless asked not to', () => {
+      expect(find('Note note NOTE', 'note', PLAIN)).toEqual(['0-4', '5-9', '10-14']);
+      expect(find('Note note NOTE', 'note', { ...PLAIN, matchCase: true })).toEqual(['5-9']);
+    });
+  });
+
+  describe('regex queries', () => {
+    it('match expressions', () => {
+      expect(find('a1 b22 c333', '\\d+', REGEX)).toEqual(['1-2', '4-6', '8-11']);
+    });
+
+    it('anchor ^ and $ at line breaks', () => {
+      expect(find('one\ntwo\nthree', '^t\\w+$', REGEX)).toEqual(['4-7', '8-13']);
+    });
+
+    it('match whole code points', () => {
+      expect(find('a😀b', '^a.b$', REGEX)).toEqual(['0-4']);
+    });
+
+    it('skip empty matches', () => {
+      expect(find('abc', 'x*', REGEX)).toEqual([]);
+    });
+
+    it('throw for an invalid expression', () => {
+      expect(() => createSearchPattern('(', REGEX)).toThrow(SyntaxError);
+    });
+  });
+
+  describe('whole words', () => {
+    it('skip matches inside longer words', () => {
+      expect(find('cat concat cats cat_1 cat.', 'cat', { ...PLAIN, wholeWord: true })).toEqual(['0-3', '22-25']);
+    });
+
+    it('treat letters beyond ASCII as word characters', () => {
+      expect(find('café cafés über', 'caf', { ...PLAIN, wholeWord: true })).toEqual([]);
+      expect(find('Größe groß', 'groß', { ...PLAIN, wholeWord: true })).toEqual(['6-10']);
+    });
+
+    it('bound a whole regex, not just its last alternative', () => {
+      expect(find('cat dog catdog hotdog', 'cat|dog', { ...REGEX, wholeWord: true })).toEqual(['0-3', '4-7']);
+    });
+
+    it('combine with case matching', () => {
+      expect(find('Cat cat', 'cat', { ...PLAIN, matchCase: true, wholeWord: true })).toEqual(['4-7']);
+    });
+  });
+
+  describe('expandReplacement', () => {
+    it('inserts plain replacements as typed', () => {
+      const pattern = createSearchPattern('a', PLAIN);
+      const [match] = findMatches('a', pattern);
+
+      expect(expandReplacement('a', match, pattern, '$1 $&', PLAIN)).toBe('$1 $&');
+    });
+
+    it('expands groups of regex replacements', () => {
+      const text = 'name: Ada';
+      const pattern = createSearchPattern('(?<key>\\w+): (\\w+)', REGEX);
+      const [match] = findMatches(text, pattern);
+
+      expect(expandReplacement(text, match, pattern, '$2 <- $<key>', REGEX)).toBe('Ada <- name');
+    });
+
+    it('lets anchors and lookarounds see the surrounding text', () => {
+      const text = 'x1 x2';
+      const pattern = createSearchPattern('(?<= )x(\\d)', REGEX);
+      const [match] = findMatches(text, pattern);
+
+      expect(match).toEqual({ start: 3, end: 5 });
+      expect(expandReplacement(text, match, pattern, 'y$1', REGEX)).toBe('y2');
+    });
+  });
+
+  describe('replaceAll', () => {
+    it('replaces every match and counts them', () => {
+      const pattern = createSearchPattern('cat', PLAIN);
+
+      expect(replaceAll('Cat, cat and concat', pattern, 'dog', PLAIN)).toEqual({
+        text: 'dog, dog and condog',
+        count: 3
+      });
+    });
+
+    it('keeps offsets right when replacements change length', () => {
+      const pattern = createSearchPattern('(\\d+)', REGEX);
+
+      expect(replaceAll('1 22 333', pattern, '<$1$1>', REGEX)).toEqual({
+        text: '<11> <2222> <333333>',
+        count: 3
+      });
+    });
+
+    it('replaces whole words only when asked to', () => {
+      const options = { ...PLAIN, wholeWord: true };
+      const pattern = createSearchPattern('cat', options);
+
+      expect(replaceAll('cat concat cat', pattern, 'dog', options)).toEqual({ text: 'dog concat dog', count: 2 });
+    });
+
+    it('expands line anchors against the original text', () => {
+      const pattern = createSearchPattern('^', REGEX);
+      const linePattern = createSearchPattern('^(\\w)', REGEX);
+
+      expect(replaceAll('one\ntwo', pattern, '> ', REGEX)).toEqual({ text: 'one\ntwo', count: 0 });
+      expect(replaceAll('one\ntwo', linePattern, '> $1', REGEX)).toEqual({ text: '> one\n> two', count: 2 });
+    });
+
+    it('leaves text without matches alone', () => {
+      const pattern = createSearchPattern('missing', PLAIN);
+
+      expect(replaceAll('text', pattern, 'x', PLAIN)).toEqual({ text: 'text', count: 0 });
+    });
+  });
+});
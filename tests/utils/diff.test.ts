@@ -0,0 +1,53 @@
+import { diffLines, matchLines } from '../../src/utils/diff';
+
+describe('diffLines', () => {
+  it('marks removed, added and unchanged lines in order', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'equal', text: 'c' },
+      { type: 'added', text: 'd' }
+    ]);
+  });
+
+  it('returns only equal lines for the same text', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'equal', text: 'b' }
+    ]);
+  });
+
+  it('diffs long notes with a small change', () => {
+    const before = Array.from({ length: 50000 }, (_, index) => `line ${index}`);
+    const after = [...before];
+    after[25000] = 'changed';
+
+    const diff = diffLines(before.join('\n'), after.join('\n'));
+
+    expect(diff).toHaveLength(50001);
+    expect(diff.filter((line) => line.type !== 'equal')).toEqual([
+      { type: 'removed', text: 'line 25000' },
+      { type: 'added', text: 'changed' }
+    ]);
+  });
+
+  it('treats a changed region too large to compare as replaced', () => {
+    const before = Array.from({ length: 3000 }, (_, index) => `old ${index}`);
+    const after = Array.from({ length: 3000 }, (_, index) => (index === 1500 ? 'old 1500' : `new ${index}`));
+
+    const diff = diffLines(['top', ...before].join('\n'), ['top', ...after].join('\n'));
+
+    expect(diff[0]).toEqual({ type: 'equal', text: 'top' });
+    expect(diff.filter((line) => line.type === 'removed')).toHaveLength(3000);
+    expect(diff.filter((line) => line.type === 'added')).toHaveLength(3000);
+  });
+});
+
+describe('matchLines', () => {
+  it('maps lines kept in both texts', () => {
+    expect(matchLines(['a', 'b', 'c', 'd'], ['x', 'a', 'c', 'd', 'y'])).toEqual(
+      new Map([[0, 1], [2, 2], [3, 3]])
+    );
+  });
+});
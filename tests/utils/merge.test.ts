@@ -0,0 +1,79 @@
+import { CONFLICT_MARKERS, mergeText } from '../../src/utils/merge';
+
+const lines = (...items: string[]) => items.join('\n');
+
+describe('mergeText', () => {
+  const base = lines('one', 'two', 'three', 'four', 'five');
+
+  it('takes the only side that changed', () => {
+    const changed = lines('one', 'TWO', 'three', 'four', 'five');
+
+    expect(mergeText(base, changed, base)).toEqual({ text: changed, conflicts: 0 });
+    expect(mergeText(base, base, changed)).toEqual({ text: changed, conflicts: 0 });
+  });
+
+  it('combines changes to different lines', () => {
+    const local = lines('one', 'TWO', 'three', 'four', 'five');
+    const remote = lines('one', 'two', 'three', 'FOUR', 'five', 'six');
+
+    expect(mergeText(base, local, remote)).toEqual({
+      text: lines('one', 'TWO', 'three', 'FOUR', 'five', 'six'),
+      conflicts: 0
+    });
+  });
+
+  it('combines a local insertion with a remote deletion', () => {
+    const local = lines('zero', 'one', 'two', 'three', 'four', 'five');
+    const remote = lines('one', 'two', 'four', 'five');
+
+    expect(mergeText(base, local, remote)).toEqual({
+      text: lines('zero', 'one', 'two', 'four', 'five'),
+      conflicts: 0
+    });
+  });
+
+  it('keeps identical changes made on both sides once', () => {
+    const local = lines('one', 'TWO', 'three', 'four', 'five');
+    const remote = lines('one', 'TWO', 'three', 'FOUR', 'five');
+
+    expect(mergeText(base, local, remote)).toEqual({
+      text: lines('one', 'TWO', 'three', 'FOUR', 'five'),
+      conflicts: 0
+    });
+    expect(mergeText(base, local, local)).toEqual({ text: local, conflicts: 0 });
+  });
+
+  it('marks lines changed differently on both sides as a conflict', () => {
+    const local = lines('one', 'mine', 'three', 'four', 'FIVE');
+    const remote = lines('one', 'theirs', 'three', 'four', 'five');
+
+    expect(mergeText(base, local, remote)).toEqual({
+      text: lines(
+        'one',
+        CONFLICT_MARKERS.start,
+        'mine',
+        CONFLICT_MARKERS.separator,
+        'theirs',
+        CONFLICT_MARKERS.end,
+        'three',
+        'four',
+        'FIVE'
+      ),
+      conflicts: 1
+    });
+  });
+
+  it('counts each conflicting hunk', () => {
+    const local = lines('ONE', 'two', 'three', 'four', 'mine');
+    const remote = lines('1', 'two', 'three', 'four', 'theirs');
+
+    expect(mergeText(base, local, remote).conflicts).toBe(2);
+  });
+
+  it('merges texts with no common base line as one hunk', () => {
+    expect(mergeText('', 'local', 'remote')).toEqual({
+      text: lines(CONFLICT_MARKERS.start, 'local', CONFLICT_MARKERS.separator, 'remote', CONFLICT_MARKERS.end),
+      conflicts: 1
+    });
+  });
+});